@@ -0,0 +1,140 @@
+import { useState, useMemo } from 'react';
+import { X } from 'lucide-react';
+import { useDesignStore } from '../store/designStore';
+import { GridPosition, PlacementItem } from '../store/placementStore';
+import { planArrayPlacement } from '../utils/arrayPlacement';
+import { getActiveLevel } from '../utils/levels';
+
+interface ArrayModalProps {
+  // Objects to repeat and where they currently sit
+  items: PlacementItem[];
+  position: GridPosition;
+  onClose: () => void;
+  onComplete: () => void;
+}
+
+const MAX_ARRAY_SIZE = 50;
+const MAX_SPACING = 500;
+
+// Place rows x columns copies of the selected objects, showing up front which copies
+// won't fit before anything is added
+const ArrayModal = ({ items, position, onClose, onComplete }: ArrayModalProps) => {
+  const [rows, setRows] = useState(1);
+  const [columns, setColumns] = useState(2);
+  const [spacingX, setSpacingX] = useState(0);
+  const [spacingY, setSpacingY] = useState(0);
+  
+  const objectLibrary = useDesignStore((state) => state.objectLibrary);
+  const activeFloorPlan = useDesignStore((state) => {
+    const activeId = state.activeFloorPlanId;
+    return activeId ? state.floorPlans.find(plan => plan.id === activeId) : null;
+  });
+  // Copies go on the level of the selected objects, which is always the active one
+  const activeLevelId = useDesignStore((state) => state.activeLevelId);
+  const levelId = activeFloorPlan ? getActiveLevel(activeFloorPlan, activeLevelId).id : null;
+  
+  const plan = useMemo(
+    () => activeFloorPlan && levelId
+      ? planArrayPlacement(activeFloorPlan, levelId, objectLibrary, items, position, { rows, columns, spacingX, spacingY })
+      : null,
+    [activeFloorPlan, levelId, objectLibrary, items, position, rows, columns, spacingX, spacingY]
+  );
+  
+  // Handle numeric input with validation
+  const handleNumberChange = (
+    value: string,
+    setter: React.Dispatch<React.SetStateAction<number>>,
+    minValue: number,
+    maxValue: number
+  ) => {
+    const parsed = parseInt(value);
+    if (!isNaN(parsed) && parsed >= minValue && parsed <= maxValue) {
+      setter(parsed);
+    }
+  };
+  
+  const handlePlace = () => {
+    if (!activeFloorPlan || !plan || plan.placements.length === 0) return;
+    
+    useDesignStore.getState().addPlacedObjects(activeFloorPlan.id, plan.placements);
+    console.log(`[INFO] Placed ${plan.copies - plan.failedCopies.length} of ${plan.copies} array copies`);
+    onComplete();
+  };
+  
+  const fields = [
+    { label: 'Rows', value: rows, setter: setRows, min: 1, max: MAX_ARRAY_SIZE },
+    { label: 'Columns', value: columns, setter: setColumns, min: 1, max: MAX_ARRAY_SIZE },
+    { label: 'Spacing (X)', value: spacingX, setter: setSpacingX, min: 0, max: MAX_SPACING },
+    { label: 'Spacing (Y)', value: spacingY, setter: setSpacingY, min: 0, max: MAX_SPACING }
+  ];
+  
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-gray-800 rounded-lg shadow-xl p-6 w-full max-w-md">
+        <div className="flex justify-between items-center mb-4">
+          <h2 className="text-xl font-bold text-white">Array Placement</h2>
+          <button
+            onClick={onClose}
+            className="text-gray-400 hover:text-white"
+          >
+            <X size={20} />
+          </button>
+        </div>
+        
+        <div className="grid grid-cols-2 gap-3 mb-4">
+          {fields.map(({ label, value, setter, min, max }) => (
+            <div key={label}>
+              <label className="block text-gray-300 mb-1">{label}</label>
+              <input
+                type="number"
+                value={value}
+                onChange={(e) => handleNumberChange(e.target.value, setter, min, max)}
+                min={min}
+                max={max}
+                className="w-full p-2 bg-gray-700 border border-gray-600 rounded text-white"
+              />
+            </div>
+          ))}
+        </div>
+        
+        {/* Summary of the copies that will and won't be placed */}
+        {plan && (
+          <div className="bg-gray-900 rounded p-3 mb-4 text-sm text-gray-300 max-h-64 overflow-y-auto">
+            <p>{plan.copies - plan.failedCopies.length} of {plan.copies} copies will be placed</p>
+            
+            {plan.failedCopies.length > 0 && (
+              <div className="mt-2">
+                <p className="text-white">Copies that cannot be placed:</p>
+                <ul className="list-disc pl-5">
+                  {plan.failedCopies.map((failed) => (
+                    <li key={`${failed.row}-${failed.column}`}>
+                      Row {failed.row + 1}, column {failed.column + 1} ({failed.reason === 'collision' ? 'collides with another object' : 'outside the grid'})
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+          </div>
+        )}
+        
+        <div className="flex justify-end">
+          <button
+            onClick={onClose}
+            className="py-2 px-4 bg-gray-700 hover:bg-gray-600 rounded text-white mr-2"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handlePlace}
+            disabled={!plan || plan.placements.length === 0}
+            className="py-2 px-4 bg-gray-600 hover:bg-gray-500 rounded text-white disabled:opacity-40"
+          >
+            Place
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ArrayModal;
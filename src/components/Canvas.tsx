@@ -1,16 +1,38 @@
-import { useEffect, useRef, useState, useCallback } from 'react';
+import { useEffect, useRef, useState, useCallback, useMemo } from 'react';
 import * as THREE from 'three';
 // import { OrbitControls } from 'three/examples/jsm/controls/OrbitControls'; // Remove OrbitControls
-import { Eye, Home } from 'lucide-react';
+import { Eye, Home, Camera } from 'lucide-react';
+import { useDesignStore } from '../store/designStore';
+import { usePlacementStore } from '../store/placementStore';
+import { useToolStore } from '../store/toolStore';
+import { useHistoryStore } from '../store/historyStore';
+import { createHatchedZone, createObjectModel, createWallModel, positionObjectModel, disposeObjectModel } from '../utils/objectModel';
+import { Footprint, GRID_SIZE, getRotatedSize, isInsideGrid, snapToGrid } from '../utils/footprint';
+import { getShapeParts } from '../utils/objectShape';
+import { getPlacementSize, indexObjects } from '../utils/placementGroup';
+import { getActiveLevel, getAdjacentLevelIds } from '../utils/levels';
+import { buildObjectIndex, isKeepOutPlacementValid, isWallPlacementValid } from '../utils/collision';
+import { KEEP_OUT_COLOR, getKeepOutArea, getKeepOutBounds } from '../utils/clearance';
+import { AISLE_COLOR, EXIT_COLOR, getAisleArea } from '../utils/egress';
+import { straightenWallEnd } from '../utils/walls';
+import { describeMeasurement, snapMeasurePoint, toMeasurement } from '../utils/measure';
+import type { OutlinePoint } from '../utils/objectShape';
+import { renderSnapshot } from '../utils/snapshot';
+import { downloadFile, exportFileStem } from '../utils/download';
+import CaptureModal, { CaptureOptions } from './CaptureModal';
 
 // Constants for grid and view
-const TOTAL_GRID_SIZE = 5000; // Total size of the grid (5000x5000)
+const TOTAL_GRID_SIZE = GRID_SIZE; // Total size of the grid (5000x5000)
 const MIN_ZOOM = 0.1; // Minimum zoom adjusted for better default view
 const MAX_ZOOM = 20; // Maximum zoom for 1-unit grid lines
 const DEFAULT_ZOOM = 1.0; // Default zoom level - 1.0 is "natural" size
 const DIAGONAL_GRID_SIZE = TOTAL_GRID_SIZE * Math.SQRT2; // For proper frustum calculation
 const PAN_SPEED_FACTOR = 1;
 const ZOOM_SENSITIVITY = 0.001;
+const CLICK_MOVE_TOLERANCE = 4; // Pixels the pointer may move and still count as a click
+const TAP_MOVE_TOLERANCE = 10; // Fingers wobble more than a mouse, so taps get more slack
+const MEASURE_SNAP_DISTANCE = 10; // Pixels within which measured points snap to object corners and edges
+const MEASURE_LABEL_FONT_SIZE = 14; // Pixels, kept at any zoom
 // Isometric view constants
 const ISO_ANGLE = Math.PI / 4; // 45 degrees for isometric angle
 const ISO_DISTANCE_FACTOR = 1.2; // Distance factor for isometric view
@@ -30,6 +52,7 @@ const GRID_LEVELS = [
 const Canvas = () => {
   const mountRef = useRef<HTMLDivElement>(null);
   const [isIsometric, setIsIsometric] = useState(true);
+  const [captureModalOpen, setCaptureModalOpen] = useState(false);
 
   // References to three.js objects
   const sceneRef = useRef<THREE.Scene | null>(null);
@@ -37,6 +60,58 @@ const Canvas = () => {
   const cameraRef = useRef<THREE.OrthographicCamera | null>(null); // Changed to Orthographic explicitly
   const gridRef = useRef<THREE.Object3D | null>(null);
   const animationFrameId = useRef<number | null>(null); // Ref to store animation frame ID
+  const objectsGroupRef = useRef<THREE.Group | null>(null); // Placed floor plan objects
+  const objectTemplatesRef = useRef<THREE.Group[]>([]); // Models whose geometry/materials are shared by placed clones
+  const ghostRef = useRef<THREE.Group | null>(null); // Translucent preview of the objects being placed
+  const ghostGrabOffsetRef = useRef<{ x: number; y: number } | null>(null); // Cursor offset from the ghost centre while dragging it
+  const placedModelsRef = useRef<Map<string, THREE.Object3D>>(new Map()); // Placed models by instance id
+  const activeElevationRef = useRef(0); // Elevation of the active level, where the grid and cursor sit
+  const wallsGroupRef = useRef<THREE.Group | null>(null); // Walls of the active and neighbouring levels
+  const measureLabelsRef = useRef<THREE.Sprite[]>([]); // Measurement readings, rescaled with the zoom
+  
+  // Placed objects of the active floor plan
+  const objectLibrary = useDesignStore((state) => state.objectLibrary);
+  const activeFloorPlan = useDesignStore((state) => 
+    state.floorPlans.find(plan => plan.id === state.activeFloorPlanId) ?? null
+  );
+  const activeLevelId = useDesignStore((state) => state.activeLevelId);
+  const activeLevel = activeFloorPlan ? getActiveLevel(activeFloorPlan, activeLevelId) : null;
+  const activeLevelKey = activeLevel?.id;
+  const activeElevation = activeLevel?.elevation ?? 0;
+  
+  // Object placement preview
+  const placementItems = usePlacementStore((state) => state.items);
+  const placementPosition = usePlacementStore((state) => state.position);
+  const isValidPlacement = usePlacementStore((state) => state.isValid);
+  const selectedInstanceIds = usePlacementStore((state) => state.selectedInstanceIds);
+  
+  // Wall drawing
+  const activeTool = useToolStore((state) => state.activeTool);
+  const wallDraft = useToolStore((state) => state.wallDraft);
+  const wallSettings = useToolStore((state) => state.wallSettings);
+  const selectedWallId = useToolStore((state) => state.selectedWallId);
+  
+  // Measuring
+  const measureMode = useToolStore((state) => state.measureMode);
+  const measurePoints = useToolStore((state) => state.measurePoints);
+  const measurePointer = useToolStore((state) => state.measurePointer);
+  const measureResult = useToolStore((state) => state.measureResult);
+  const unitSettings = useDesignStore((state) => state.unitSettings);
+  
+  // Keep-out zones
+  const keepOutDraft = useToolStore((state) => state.keepOutDraft);
+  const selectedKeepOutId = useToolStore((state) => state.selectedKeepOutId);
+  
+  // Exits, aisles and the egress check
+  const egressMode = useToolStore((state) => state.egressMode);
+  const egressDraft = useToolStore((state) => state.egressDraft);
+  const selectedEgressId = useToolStore((state) => state.selectedEgressId);
+  const aisleWidth = useToolStore((state) => state.aisleWidth);
+  const egressReport = useToolStore((state) => state.egressReport);
+  
+  // Screen-space rubber band for box selection, relative to the canvas
+  const [selectionBox, setSelectionBox] = useState<{ left: number; top: number; width: number; height: number } | null>(null);
+  const boxSelectStartRef = useRef<{ x: number; y: number } | null>(null);
   
   // References for grid labels
   const labelGroupRef = useRef<THREE.Group | null>(null);
@@ -46,6 +121,7 @@ const Canvas = () => {
   // State for manual controls
   const isDraggingRef = useRef(false);
   const lastMousePositionRef = useRef({ x: 0, y: 0 });
+  const mouseDownPositionRef = useRef({ x: 0, y: 0 }); // Used to tell clicks from pans
 
   // Store view-specific camera states to preserve position when switching views
   const isometricViewStateRef = useRef({
@@ -66,6 +142,13 @@ const Canvas = () => {
   const panDeltaRef = useRef({ x: 0, y: 0 }); // Accumulated screen pan delta since last frame
   const zoomDeltaRef = useRef(0); // Accumulated wheel delta since last frame
   const mousePosForZoomRef = useRef({ x: 0, y: 0 }); // Screen position where zoom occurred
+  const pinchZoomRef = useRef(1); // Accumulated pinch scale since last frame
+  const zoomAnchorRef = useRef<{ x: number; y: number } | null>(null); // Screen point kept fixed while pinch zooming
+
+  // Touch gesture state
+  const activePointersRef = useRef<Map<number, { x: number; y: number }>>(new Map()); // Pointers currently pressed
+  const pinchRef = useRef<{ distance: number; midpoint: { x: number; y: number } } | null>(null); // Last pinch sample
+  const gestureWasPinchRef = useRef(false); // Suppresses tap-select when a pinch ends
 
   // Helper function to calculate isometric camera position based on a target XY position
   const calculateIsometricPosition = useCallback((targetX: number, targetY: number) => {
@@ -111,18 +194,22 @@ const Canvas = () => {
     console.log(`[DEBUG] Orientation Set: View=${isometricView?'Iso':'Top'}, Up=(${camera.up.x},${camera.up.y},${camera.up.z})`);
   }, []);
 
-  // Helper to convert screen coordinates to world coordinates (relative to center)
+  // Helper to convert screen coordinates to a point on the floor of the active level.
+  // Raycasts through the orthographic camera so it honours zoom, pan and the isometric angle.
   const screenToWorld = useCallback((screenX: number, screenY: number) => {
-    if (!rendererRef.current || !cameraRef.current || !mountRef.current) return new THREE.Vector3();
+    if (!rendererRef.current || !cameraRef.current || !mountRef.current) return null;
 
     const rect = mountRef.current.getBoundingClientRect();
-    const x = ((screenX - rect.left) / rect.width) * 2 - 1;
-    const y = -((screenY - rect.top) / rect.height) * 2 + 1;
+    const ndc = new THREE.Vector2(
+      ((screenX - rect.left) / rect.width) * 2 - 1,
+      -((screenY - rect.top) / rect.height) * 2 + 1
+    );
 
-    const vec = new THREE.Vector3(x, y, 0.5); // Use 0.5 for Z, projecting onto a plane
-    vec.unproject(cameraRef.current);
+    const raycaster = new THREE.Raycaster();
+    raycaster.setFromCamera(ndc, cameraRef.current);
 
-    return new THREE.Vector3(screenX, screenY, 0); // Return screen coords for now, delta calc is key
+    const levelPlane = new THREE.Plane(new THREE.Vector3(0, 0, 1), -activeElevationRef.current);
+    return raycaster.ray.intersectPlane(levelPlane, new THREE.Vector3());
   }, []);
 
   // Helper function to get current grid level based on zoom
@@ -252,7 +339,7 @@ const Canvas = () => {
       // Position the entire grid group so that (0,0) is at the world origin's corner
       // This matches the GridHelper behavior and label positioning logic
       // gridGroup.position.set(gridSize / 2, gridSize / 2, 0); // NO! GridHelper was centered, we want corner at 0,0
-      gridGroup.position.set(0, 0, 0);
+      gridGroup.position.set(0, 0, activeElevationRef.current);
       scene.add(gridGroup);
       gridRef.current = gridGroup;
       
@@ -315,7 +402,7 @@ const Canvas = () => {
       }
       
       // Labels are positioned relative to the grid corners (0,0), no extra translation needed
-      labelGroup.position.set(0, 0, 0);
+      labelGroup.position.set(0, 0, activeElevationRef.current);
       
       // Add label group to scene
       scene.add(labelGroup);
@@ -372,6 +459,267 @@ const Canvas = () => {
     updateGridWithLabels();
   }, [adjustCameraFrustum, updateGridWithLabels]);
 
+  // Move the placement ghost to the grid cell under a screen position. New placements
+  // follow the cursor; placed objects only move while their ghost is being dragged.
+  const updatePlacementFromPointer = useCallback((screenX: number, screenY: number) => {
+    const { items, position, followsCursor, setPosition } = usePlacementStore.getState();
+    const grabOffset = ghostGrabOffsetRef.current;
+    if (items.length === 0 || (!followsCursor && !grabOffset)) return;
+
+    const groundPoint = screenToWorld(screenX, screenY);
+    if (!groundPoint) return;
+
+    const size = getPlacementSize(items, indexObjects(useDesignStore.getState().objectLibrary));
+    const offset = grabOffset ?? { x: 0, y: 0 };
+    setPosition({ ...snapToGrid({ x: groundPoint.x - offset.x, y: groundPoint.y - offset.y }, size), z: position.z });
+  }, [screenToWorld]);
+
+  // Start dragging the placement ghost if the pointer is over one of its footprints
+  const startGhostDrag = useCallback((screenX: number, screenY: number) => {
+    const { items, position } = usePlacementStore.getState();
+    if (items.length === 0) return false;
+
+    const groundPoint = screenToWorld(screenX, screenY);
+    if (!groundPoint) return false;
+
+    const objectsById = indexObjects(useDesignStore.getState().objectLibrary);
+    const isOverGhost = items.some((item) => {
+      const object = objectsById.get(item.objectId);
+      if (!object) return false;
+      const parts = getShapeParts(
+        object,
+        { x: position.x + item.offset.x, y: position.y + item.offset.y },
+        item.rotation
+      );
+      return parts.some(footprint =>
+        groundPoint.x >= footprint.minX && groundPoint.x < footprint.maxX &&
+        groundPoint.y >= footprint.minY && groundPoint.y < footprint.maxY
+      );
+    });
+    if (!isOverGhost) return false;
+
+    // Grab relative to the centre of the whole group so it doesn't jump under the cursor
+    const size = getPlacementSize(items, objectsById);
+    ghostGrabOffsetRef.current = {
+      x: groundPoint.x - (position.x + size.width / 2),
+      y: groundPoint.y - (position.y + size.depth / 2)
+    };
+    return true;
+  }, [screenToWorld]);
+
+  // Instance ids of the active level's objects whose footprint centre projects inside a screen rectangle
+  const findPlacedObjectsInRect = useCallback((x1: number, y1: number, x2: number, y2: number) => {
+    const camera = cameraRef.current;
+    const { activeFloorPlanId, activeLevelId, floorPlans, objectLibrary } = useDesignStore.getState();
+    const floorPlan = floorPlans.find(plan => plan.id === activeFloorPlanId);
+    if (!camera || !mountRef.current || !floorPlan) return [];
+    const levelId = getActiveLevel(floorPlan, activeLevelId).id;
+
+    const rect = mountRef.current.getBoundingClientRect();
+    const minX = Math.min(x1, x2);
+    const maxX = Math.max(x1, x2);
+    const minY = Math.min(y1, y2);
+    const maxY = Math.max(y1, y2);
+    const objectsById = indexObjects(objectLibrary);
+    const projected = new THREE.Vector3();
+
+    return floorPlan.objects.filter((placed) => {
+      const object = objectsById.get(placed.objectId);
+      if (!object || placed.levelId !== levelId) return false;
+
+      const { width, depth } = getRotatedSize(object.dimensions, placed.rotation);
+      projected.set(placed.position.x + width / 2, placed.position.y + depth / 2, placed.position.z).project(camera);
+      const screenX = rect.left + (projected.x + 1) / 2 * rect.width;
+      const screenY = rect.top + (1 - projected.y) / 2 * rect.height;
+      return screenX >= minX && screenX <= maxX && screenY >= minY && screenY <= maxY;
+    }).map(placed => placed.id);
+  }, []);
+
+  // Raycast against the placed objects and return the instance id under the pointer
+  const pickPlacedObject = useCallback((screenX: number, screenY: number) => {
+    if (!cameraRef.current || !mountRef.current || !objectsGroupRef.current) return null;
+
+    const rect = mountRef.current.getBoundingClientRect();
+    const ndc = new THREE.Vector2(
+      ((screenX - rect.left) / rect.width) * 2 - 1,
+      -((screenY - rect.top) / rect.height) * 2 + 1
+    );
+
+    const raycaster = new THREE.Raycaster();
+    raycaster.setFromCamera(ndc, cameraRef.current);
+
+    for (const hit of raycaster.intersectObjects(objectsGroupRef.current.children, true)) {
+      // Walk up from the hit mesh to the model carrying the instance id
+      let node: THREE.Object3D | null = hit.object;
+      while (node && node.userData.instanceId === undefined) {
+        node = node.parent;
+      }
+      if (node && node.visible) return node.userData.instanceId as string;
+    }
+    return null;
+  }, []);
+
+  // Grid cell under a screen position on the active level, kept inside the grid
+  const cellAtPointer = useCallback((screenX: number, screenY: number) => {
+    const point = screenToWorld(screenX, screenY);
+    if (!point) return null;
+    const clamp = (value: number) => Math.min(Math.max(Math.floor(value), 0), GRID_SIZE - 1);
+    return { x: clamp(point.x), y: clamp(point.y) };
+  }, [screenToWorld]);
+
+  // Raycast against the walls of the active level and return the wall id under the pointer
+  const pickWall = useCallback((screenX: number, screenY: number) => {
+    if (!cameraRef.current || !mountRef.current || !wallsGroupRef.current) return null;
+
+    const rect = mountRef.current.getBoundingClientRect();
+    const ndc = new THREE.Vector2(
+      ((screenX - rect.left) / rect.width) * 2 - 1,
+      -((screenY - rect.top) / rect.height) * 2 + 1
+    );
+
+    const raycaster = new THREE.Raycaster();
+    raycaster.setFromCamera(ndc, cameraRef.current);
+
+    for (const hit of raycaster.intersectObjects(wallsGroupRef.current.children, true)) {
+      const wallId = hit.object.parent?.userData.wallId;
+      if (wallId !== undefined) return wallId as string;
+    }
+    return null;
+  }, []);
+
+  // Release of a wall tool press: a drag adds the run if it fits, a click picks the wall under the pointer
+  const finishWallDraft = useCallback((draft: NonNullable<typeof wallDraft>, screenX: number, screenY: number) => {
+    const { selectWall, wallSettings } = useToolStore.getState();
+    if (draft.start.x === draft.end.x && draft.start.y === draft.end.y) {
+      selectWall(pickWall(screenX, screenY));
+      return;
+    }
+
+    const { activeFloorPlanId, activeLevelId, floorPlans, objectLibrary, addWall } = useDesignStore.getState();
+    const floorPlan = floorPlans.find(plan => plan.id === activeFloorPlanId);
+    if (!floorPlan) return;
+
+    const wall = { ...draft, ...wallSettings, levelId: getActiveLevel(floorPlan, activeLevelId).id };
+    if (!isWallPlacementValid(buildObjectIndex(floorPlan, objectLibrary, wall.levelId), { ...wall, openings: [] })) {
+      console.warn('[WARN] Wall not added: it overlaps an object or leaves the grid');
+      return;
+    }
+    selectWall(addWall(floorPlan.id, wall));
+    console.log(`[INFO] Added wall from ${draft.start.x},${draft.start.y} to ${draft.end.x},${draft.end.y}`);
+  }, [pickWall]);
+
+  // Release of a keep-out tool press: a drag adds the zone if it fits, a click picks the
+  // zone under the pointer
+  const finishKeepOutDraft = useCallback((draft: NonNullable<typeof keepOutDraft>) => {
+    const { selectKeepOut } = useToolStore.getState();
+    const { activeFloorPlanId, activeLevelId, floorPlans, objectLibrary, addKeepOutZone } = useDesignStore.getState();
+    const floorPlan = floorPlans.find(plan => plan.id === activeFloorPlanId);
+    if (!floorPlan) return;
+
+    const levelId = getActiveLevel(floorPlan, activeLevelId).id;
+    const zones = (floorPlan.keepOutZones ?? []).filter(zone => zone.levelId === levelId);
+    if (draft.start.x === draft.end.x && draft.start.y === draft.end.y) {
+      const { x, y } = draft.start;
+      const picked = zones.find(zone => x >= zone.x && x < zone.x + zone.width && y >= zone.y && y < zone.y + zone.depth);
+      selectKeepOut(picked?.id ?? null);
+      return;
+    }
+
+    const bounds = getKeepOutBounds(draft.start, draft.end);
+    if (!isKeepOutPlacementValid(buildObjectIndex(floorPlan, objectLibrary, levelId), bounds)) {
+      console.warn('[WARN] Keep-out zone not added: it overlaps an object or its clearance');
+      return;
+    }
+    selectKeepOut(addKeepOutZone(floorPlan.id, { ...bounds, levelId, name: `Keep-out ${(floorPlan.keepOutZones ?? []).length + 1}` }));
+    console.log(`[INFO] Added keep-out zone of ${bounds.width} x ${bounds.depth} at ${bounds.x},${bounds.y}`);
+  }, []);
+
+  // Release of an egress tool press: a drag adds an exit or an aisle, depending on the
+  // mode, and a click picks the exit or aisle under the pointer
+  const finishEgressDraft = useCallback((draft: NonNullable<typeof egressDraft>) => {
+    const { egressMode, aisleWidth, selectEgressItem } = useToolStore.getState();
+    const { activeFloorPlanId, activeLevelId, floorPlans, addExit, addAisle } = useDesignStore.getState();
+    const floorPlan = floorPlans.find(plan => plan.id === activeFloorPlanId);
+    if (!floorPlan) return;
+
+    const levelId = getActiveLevel(floorPlan, activeLevelId).id;
+    if (draft.start.x === draft.end.x && draft.start.y === draft.end.y) {
+      const { x, y } = draft.start;
+      const contains = (area: Footprint) => x >= area.minX && x < area.maxX && y >= area.minY && y < area.maxY;
+      const picked = [
+        ...(floorPlan.exits ?? []).filter(exit => exit.levelId === levelId && contains(getKeepOutArea(exit))),
+        ...(floorPlan.aisles ?? []).filter(aisle => aisle.levelId === levelId && contains(getAisleArea(aisle)))
+      ][0];
+      selectEgressItem(picked?.id ?? null);
+      return;
+    }
+
+    if (egressMode === 'exit') {
+      const bounds = getKeepOutBounds(draft.start, draft.end);
+      selectEgressItem(addExit(floorPlan.id, { ...bounds, levelId, name: `Exit ${(floorPlan.exits ?? []).length + 1}` }));
+      console.log(`[INFO] Added exit of ${bounds.width} x ${bounds.depth} at ${bounds.x},${bounds.y}`);
+      return;
+    }
+
+    const aisle = { ...draft, width: aisleWidth };
+    if (!isInsideGrid(getAisleArea(aisle))) {
+      console.warn('[WARN] Aisle not added: it would leave the grid');
+      return;
+    }
+    selectEgressItem(addAisle(floorPlan.id, { ...aisle, levelId, name: `Aisle ${(floorPlan.aisles ?? []).length + 1}` }));
+    console.log(`[INFO] Added aisle from ${draft.start.x},${draft.start.y} to ${draft.end.x},${draft.end.y}`);
+  }, []);
+
+  // Grid units covered by one screen pixel at the current zoom
+  const worldUnitsPerPixel = useCallback(() => {
+    const camera = cameraRef.current;
+    const mount = mountRef.current;
+    if (!camera || !mount || mount.clientWidth === 0) return 1;
+    return (camera.right - camera.left) / camera.zoom / mount.clientWidth;
+  }, []);
+
+  // Keep the measurement readings the same size on screen whatever the zoom
+  const scaleMeasureLabels = useCallback(() => {
+    const unitsPerPixel = worldUnitsPerPixel();
+    measureLabelsRef.current.forEach((sprite) => {
+      const { width, height } = sprite.userData.pixelSize;
+      sprite.scale.set(width * unitsPerPixel, height * unitsPerPixel, 1);
+    });
+  }, [worldUnitsPerPixel]);
+
+  // Point under the pointer for the measure tool, snapped to the objects and walls around it
+  const measurePointAt = useCallback((screenX: number, screenY: number) => {
+    const { activeFloorPlanId, activeLevelId, floorPlans, objectLibrary } = useDesignStore.getState();
+    const floorPlan = floorPlans.find(plan => plan.id === activeFloorPlanId);
+    const point = screenToWorld(screenX, screenY);
+    if (!floorPlan || !point) return null;
+
+    const clamp = (value: number) => Math.min(Math.max(value, 0), GRID_SIZE);
+    return snapMeasurePoint(
+      { x: clamp(point.x), y: clamp(point.y) },
+      MEASURE_SNAP_DISTANCE * worldUnitsPerPixel(),
+      floorPlan,
+      objectLibrary,
+      getActiveLevel(floorPlan, activeLevelId).id
+    );
+  }, [screenToWorld, worldUnitsPerPixel]);
+
+  // A click with the measure tool adds a point; clicking the first point of a polygon closes it
+  const handleMeasureClick = useCallback((screenX: number, screenY: number) => {
+    const snapped = measurePointAt(screenX, screenY);
+    if (!snapped) return;
+
+    const { measureMode, measurePoints, addMeasurePoint, finishMeasurement } = useToolStore.getState();
+    const [first] = measurePoints;
+    const closesPolygon = measureMode === 'polygon' && measurePoints.length >= 3 &&
+      Math.hypot(snapped.point.x - first.x, snapped.point.y - first.y) <= MEASURE_SNAP_DISTANCE * worldUnitsPerPixel();
+    if (closesPolygon) {
+      finishMeasurement();
+    } else {
+      addMeasurePoint(snapped.point);
+    }
+  }, [measurePointAt, worldUnitsPerPixel]);
+
   // Create scene, renderer, lights, and setup animation loop (run once on mount)
   useEffect(() => {
     if (!mountRef.current) return;
@@ -403,16 +751,182 @@ const Canvas = () => {
     directionalLight.position.set(1, 1, 1);
     scene.add(directionalLight);
 
+    // Group holding the placed objects, rebuilt whenever the floor plan changes
+    const objectsGroup = new THREE.Group();
+    objectsGroup.name = 'placed-objects';
+    scene.add(objectsGroup);
+    objectsGroupRef.current = objectsGroup;
+
+    // Group holding the walls, rebuilt whenever they or the active level change
+    const wallsGroup = new THREE.Group();
+    wallsGroup.name = 'walls';
+    scene.add(wallsGroup);
+    wallsGroupRef.current = wallsGroup;
+
     // --- Event Listeners for Manual Controls ---
-    const handleMouseDown = (event: MouseEvent) => {
+    // Pointer Events cover mouse, touch and pen. One pointer pans (or drags the ghost /
+    // draws a box selection), two pointers pinch-zoom around their midpoint.
+    const activePointers = activePointersRef.current;
+
+    const getPinch = () => {
+      const [first, second] = Array.from(activePointers.values());
+      return {
+        distance: Math.hypot(second.x - first.x, second.y - first.y),
+        midpoint: { x: (first.x + second.x) / 2, y: (first.y + second.y) / 2 }
+      };
+    };
+
+    // Drop any single-pointer interaction in progress
+    const resetPointerDrag = () => {
+      boxSelectStartRef.current = null;
+      setSelectionBox(null);
+      useToolStore.getState().setWallDraft(null);
+      useToolStore.getState().setKeepOutDraft(null);
+      useToolStore.getState().setEgressDraft(null);
+      if (isDraggingRef.current || ghostGrabOffsetRef.current) {
+        isDraggingRef.current = false;
+        ghostGrabOffsetRef.current = null;
+        mount.style.cursor = 'grab';
+      }
+    };
+
+    const handlePointerDown = (event: PointerEvent) => {
+      mount.setPointerCapture(event.pointerId);
+      // Whatever one press changes in the design, however long it is dragged, undoes in one step
+      if (activePointers.size === 0) useHistoryStore.getState().beginGesture();
+      activePointers.set(event.pointerId, { x: event.clientX, y: event.clientY });
+
+      // A second finger turns the gesture into a pinch; it never selects on release
+      if (activePointers.size === 2) {
+        resetPointerDrag();
+        const { distance, midpoint } = getPinch();
+        pinchRef.current = { distance, midpoint };
+        gestureWasPinchRef.current = true;
+        return;
+      }
+      if (activePointers.size > 2) return;
+
+      gestureWasPinchRef.current = false;
+      mouseDownPositionRef.current = { x: event.clientX, y: event.clientY };
+
+      // The wall tool starts a run at the pressed cell instead of panning
+      if (useToolStore.getState().activeTool === 'wall') {
+        const cell = cellAtPointer(event.clientX, event.clientY);
+        if (cell) useToolStore.getState().setWallDraft({ start: cell, end: cell });
+        return;
+      }
+
+      // The keep-out tool starts a zone at the pressed cell
+      if (useToolStore.getState().activeTool === 'keepOut') {
+        const cell = cellAtPointer(event.clientX, event.clientY);
+        if (cell) useToolStore.getState().setKeepOutDraft({ start: cell, end: cell });
+        return;
+      }
+
+      // The egress tool starts an exit or an aisle at the pressed cell
+      if (useToolStore.getState().activeTool === 'egress') {
+        const cell = cellAtPointer(event.clientX, event.clientY);
+        if (cell) useToolStore.getState().setEgressDraft({ start: cell, end: cell });
+        return;
+      }
+
+      // Shift starts a box selection (or a shift-click) instead of panning; the measure
+      // tool pans on drag and measures on click
+      if (event.shiftKey && useToolStore.getState().activeTool !== 'measure') {
+        boxSelectStartRef.current = { x: event.clientX, y: event.clientY };
+        return;
+      }
+
+      // Pressing on the placement ghost drags it instead of panning
+      if (startGhostDrag(event.clientX, event.clientY)) {
+        mount.style.cursor = 'grabbing';
+        return;
+      }
+
       isDraggingRef.current = true;
       lastMousePositionRef.current = { x: event.clientX, y: event.clientY };
       panDeltaRef.current = { x: 0, y: 0 }; // Reset pan delta on new drag start
       mount.style.cursor = 'grabbing';
     };
 
-    const handleMouseMove = (event: MouseEvent) => {
-      if (!isDraggingRef.current || !cameraRef.current) return;
+    const handlePointerMove = (event: PointerEvent) => {
+      if (activePointers.has(event.pointerId)) {
+        activePointers.set(event.pointerId, { x: event.clientX, y: event.clientY });
+      }
+
+      // Pinch: scale by the change in finger distance and pan with the midpoint
+      const pinch = pinchRef.current;
+      if (pinch) {
+        if (activePointers.size < 2) return;
+        const { distance, midpoint } = getPinch();
+        if (pinch.distance > 0) {
+          pinchZoomRef.current *= distance / pinch.distance;
+        }
+        zoomAnchorRef.current = midpoint;
+        panDeltaRef.current.x += midpoint.x - pinch.midpoint.x;
+        panDeltaRef.current.y += midpoint.y - pinch.midpoint.y;
+        pinchRef.current = { distance, midpoint };
+        return;
+      }
+      // The finger left over after a pinch does nothing until it is lifted
+      if (gestureWasPinchRef.current && activePointers.size > 0) return;
+
+      // A wall run stretches along the row or column of its start cell
+      const { wallDraft, setWallDraft } = useToolStore.getState();
+      if (wallDraft) {
+        const cell = cellAtPointer(event.clientX, event.clientY);
+        const end = cell && straightenWallEnd(wallDraft.start, cell);
+        if (end && (end.x !== wallDraft.end.x || end.y !== wallDraft.end.y)) {
+          setWallDraft({ ...wallDraft, end });
+        }
+        return;
+      }
+
+      // A keep-out zone stretches from its start cell to the cell under the pointer
+      const { keepOutDraft, setKeepOutDraft } = useToolStore.getState();
+      if (keepOutDraft) {
+        const end = cellAtPointer(event.clientX, event.clientY);
+        if (end && (end.x !== keepOutDraft.end.x || end.y !== keepOutDraft.end.y)) {
+          setKeepOutDraft({ ...keepOutDraft, end });
+        }
+        return;
+      }
+
+      // An exit stretches like a keep-out zone, an aisle along a row or column like a wall
+      const { egressDraft, egressMode, setEgressDraft } = useToolStore.getState();
+      if (egressDraft) {
+        const cell = cellAtPointer(event.clientX, event.clientY);
+        const end = cell && (egressMode === 'aisle' ? straightenWallEnd(egressDraft.start, cell) : cell);
+        if (end && (end.x !== egressDraft.end.x || end.y !== egressDraft.end.y)) {
+          setEgressDraft({ ...egressDraft, end });
+        }
+        return;
+      }
+
+      const boxStart = boxSelectStartRef.current;
+      if (boxStart) {
+        const rect = mount.getBoundingClientRect();
+        setSelectionBox({
+          left: Math.min(boxStart.x, event.clientX) - rect.left,
+          top: Math.min(boxStart.y, event.clientY) - rect.top,
+          width: Math.abs(event.clientX - boxStart.x),
+          height: Math.abs(event.clientY - boxStart.y)
+        });
+        return;
+      }
+
+      // The measure tool shows where the next point would snap to
+      if (!isDraggingRef.current && useToolStore.getState().activeTool === 'measure') {
+        useToolStore.getState().setMeasurePointer(measurePointAt(event.clientX, event.clientY));
+        return;
+      }
+
+      // While placing, the ghost follows the grid cell under the cursor
+      if (!isDraggingRef.current) {
+        updatePlacementFromPointer(event.clientX, event.clientY);
+        return;
+      }
+      if (!cameraRef.current) return;
 
       const currentMousePosition = { x: event.clientX, y: event.clientY };
       panDeltaRef.current.x += currentMousePosition.x - lastMousePositionRef.current.x;
@@ -420,10 +934,73 @@ const Canvas = () => {
       lastMousePositionRef.current = currentMousePosition;
     };
 
-    const handleMouseUpOrLeave = () => {
-      if (isDraggingRef.current) {
-        isDraggingRef.current = false;
-        mount.style.cursor = 'grab';
+    const handlePointerCancel = (event: PointerEvent) => {
+      activePointers.delete(event.pointerId);
+      if (activePointers.size < 2) pinchRef.current = null;
+      resetPointerDrag();
+    };
+
+    const handlePointerUp = (event: PointerEvent) => {
+      const boxStart = boxSelectStartRef.current;
+      const wasPanning = isDraggingRef.current;
+      const { wallDraft, keepOutDraft, egressDraft } = useToolStore.getState();
+      handlePointerCancel(event);
+
+      // Lifting fingers after a pinch never pans, selects or draws
+      if (gestureWasPinchRef.current) return;
+      if (wallDraft) {
+        finishWallDraft(wallDraft, event.clientX, event.clientY);
+        return;
+      }
+      if (keepOutDraft) {
+        finishKeepOutDraft(keepOutDraft);
+        return;
+      }
+      if (egressDraft) {
+        finishEgressDraft(egressDraft);
+        return;
+      }
+      if (!boxStart && !wasPanning) return;
+
+      // Selection is only available when no new object is being placed
+      const placement = usePlacementStore.getState();
+      if (placement.items.length > 0 && placement.followsCursor) return;
+
+      const moved = Math.hypot(
+        event.clientX - mouseDownPositionRef.current.x,
+        event.clientY - mouseDownPositionRef.current.y
+      );
+      const tolerance = event.pointerType === 'touch' ? TAP_MOVE_TOLERANCE : CLICK_MOVE_TOLERANCE;
+
+      if (boxStart) {
+        if (moved > tolerance) {
+          // Add everything inside the box to the current selection
+          const boxed = findPlacedObjectsInRect(boxStart.x, boxStart.y, event.clientX, event.clientY);
+          const selection = Array.from(new Set([...placement.selectedInstanceIds, ...boxed]));
+          console.log(`[INFO] Box selected ${boxed.length} object(s)`);
+          placement.selectObjects(selection);
+        } else {
+          // Shift-click toggles the object under the cursor in and out of the selection
+          const instanceId = pickPlacedObject(event.clientX, event.clientY);
+          if (instanceId !== null) placement.toggleSelected(instanceId);
+        }
+        return;
+      }
+
+      // A click or tap without panning selects the placed object under the pointer, or
+      // adds a point with the measure tool
+      if (moved > tolerance) return;
+      if (useToolStore.getState().activeTool === 'measure') {
+        handleMeasureClick(event.clientX, event.clientY);
+        return;
+      }
+
+      const instanceId = pickPlacedObject(event.clientX, event.clientY);
+      if (instanceId !== null) {
+        console.log(`[INFO] Selected placed object ${instanceId}`);
+        placement.selectObjects([instanceId]);
+      } else if (placement.selectedInstanceIds.length > 0) {
+        placement.clearSelection();
       }
     };
 
@@ -435,11 +1012,22 @@ const Canvas = () => {
       mousePosForZoomRef.current = { x: event.clientX, y: event.clientY };
     };
 
+    // The press's undo gesture closes once its last pointer is lifted and handled
+    const handlePointerRelease = (event: PointerEvent) => {
+      const wasPressed = activePointers.size > 0;
+      if (event.type === 'pointerup') {
+        handlePointerUp(event);
+      } else {
+        handlePointerCancel(event);
+      }
+      if (wasPressed && activePointers.size === 0) useHistoryStore.getState().endGesture();
+    };
+
     // Attach event listeners
-    mount.addEventListener('mousedown', handleMouseDown);
-    mount.addEventListener('mousemove', handleMouseMove);
-    mount.addEventListener('mouseup', handleMouseUpOrLeave);
-    mount.addEventListener('mouseleave', handleMouseUpOrLeave);
+    mount.addEventListener('pointerdown', handlePointerDown);
+    mount.addEventListener('pointermove', handlePointerMove);
+    mount.addEventListener('pointerup', handlePointerRelease);
+    mount.addEventListener('pointercancel', handlePointerRelease);
     mount.addEventListener('wheel', handleWheel, { passive: false });
 
     // Set initial cursor
@@ -499,14 +1087,29 @@ const Canvas = () => {
       panDeltaRef.current = { x: 0, y: 0 };
       updateGridWithLabels();
 
-      // Apply accumulated zoom delta
-      if (zoomDeltaRef.current !== 0) {
-        const zoomFactor = Math.pow(0.95, zoomDeltaRef.current * ZOOM_SENSITIVITY);
+      // Apply accumulated wheel and pinch zoom
+      if (zoomDeltaRef.current !== 0 || pinchZoomRef.current !== 1) {
+        const zoomFactor = Math.pow(0.95, zoomDeltaRef.current * ZOOM_SENSITIVITY) * pinchZoomRef.current;
         const newZoom = Math.max(MIN_ZOOM, Math.min(MAX_ZOOM, camera.zoom * zoomFactor));
 
         if (newZoom !== camera.zoom) {
+          // Pinch zoom keeps the ground point under the pinch midpoint fixed on screen
+          const anchor = zoomAnchorRef.current;
+          const anchorBefore = anchor ? screenToWorld(anchor.x, anchor.y) : null;
+
           camera.zoom = newZoom;
           adjustCameraFrustum(camera, newZoom);
+
+          const anchorAfter = anchor ? screenToWorld(anchor.x, anchor.y) : null;
+          if (anchorBefore && anchorAfter) {
+            camera.position.add(anchorBefore.sub(anchorAfter));
+            camera.updateMatrixWorld();
+            if (isIsometric) {
+              isometricViewStateRef.current.position.copy(camera.position);
+            } else {
+              birdsEyeViewStateRef.current.position.copy(camera.position);
+            }
+          }
           updateGridWithLabels();
 
           // Update view state
@@ -518,8 +1121,11 @@ const Canvas = () => {
         }
 
         zoomDeltaRef.current = 0;
+        pinchZoomRef.current = 1;
+        zoomAnchorRef.current = null;
       }
 
+      scaleMeasureLabels();
       renderer.render(scene, camera);
 
       if (animationFrameId.current === null) {
@@ -546,10 +1152,12 @@ const Canvas = () => {
       console.log("[INFO] Cleaning up scene and renderer");
       
       // Remove event listeners
-      mount.removeEventListener('mousedown', handleMouseDown);
-      mount.removeEventListener('mousemove', handleMouseMove);
-      mount.removeEventListener('mouseup', handleMouseUpOrLeave);
-      mount.removeEventListener('mouseleave', handleMouseUpOrLeave);
+      mount.removeEventListener('pointerdown', handlePointerDown);
+      mount.removeEventListener('pointermove', handlePointerMove);
+      mount.removeEventListener('pointerup', handlePointerRelease);
+      mount.removeEventListener('pointercancel', handlePointerRelease);
+      if (activePointers.size > 0) useHistoryStore.getState().endGesture();
+      activePointers.clear();
       mount.removeEventListener('wheel', handleWheel);
       window.removeEventListener('resize', handleResize);
       
@@ -592,6 +1200,487 @@ const Canvas = () => {
     };
   }, []);
 
+  // Rebuild the placed objects whenever the library, active floor plan or level changes.
+  // Only the active level can be picked; in the isometric view the levels directly below
+  // and above it are drawn faintly for context, and other levels are hidden.
+  useEffect(() => {
+    const objectsGroup = objectsGroupRef.current;
+    if (!objectsGroup) return;
+
+    // Drop the previous models; clones share resources with their templates
+    objectsGroup.clear();
+    placedModelsRef.current.clear();
+    objectTemplatesRef.current.forEach(disposeObjectModel);
+    objectTemplatesRef.current = [];
+
+    if (!activeFloorPlan || !activeLevelKey) return;
+
+    const ghostedLevelIds = isIsometric ? getAdjacentLevelIds(activeFloorPlan, activeLevelKey) : [];
+
+    // One template per library object and style, cloned for every placement
+    const templates = new Map<string, THREE.Group>();
+    activeFloorPlan.objects.forEach((placed) => {
+      const isActive = placed.levelId === activeLevelKey;
+      if (!isActive && !ghostedLevelIds.includes(placed.levelId)) return;
+
+      const object = objectLibrary.find(obj => obj.id === placed.objectId);
+      if (!object) {
+        console.warn(`[WARN] Placed object references missing library object ${placed.objectId}`);
+        return;
+      }
+
+      const templateKey = `${object.id}:${isActive ? 'active' : 'ghosted'}`;
+      let template = templates.get(templateKey);
+      if (!template) {
+        template = createObjectModel(object, isActive ? { showClearance: true } : { opacity: 0.2 });
+        templates.set(templateKey, template);
+      }
+
+      const model = template.clone();
+      positionObjectModel(model, object, placed.position, placed.rotation);
+      objectsGroup.add(model);
+      // Ghosted models carry no instance id, so picking passes through them
+      if (!isActive) return;
+      model.userData.instanceId = placed.id;
+      model.visible = !usePlacementStore.getState().selectedInstanceIds.includes(placed.id);
+      placedModelsRef.current.set(placed.id, model);
+    });
+    objectTemplatesRef.current = Array.from(templates.values());
+
+    console.log(`[DEBUG] Rendered ${objectsGroup.children.length} placed objects for floor plan ${activeFloorPlan.name}`);
+  }, [objectLibrary, activeFloorPlan, activeLevelKey, isIsometric]);
+
+  // Rebuild the walls of the active level, plus faint ones on the levels around it in the
+  // isometric view. Only walls of the active level carry an id for picking.
+  useEffect(() => {
+    const wallsGroup = wallsGroupRef.current;
+    if (!wallsGroup || !activeFloorPlan || !activeLevelKey) return;
+
+    const ghostedLevelIds = isIsometric ? getAdjacentLevelIds(activeFloorPlan, activeLevelKey) : [];
+    const elevations = new Map(activeFloorPlan.levels.map(level => [level.id, level.elevation]));
+    (activeFloorPlan.walls ?? []).forEach((wall) => {
+      const isActive = wall.levelId === activeLevelKey;
+      if (!isActive && !ghostedLevelIds.includes(wall.levelId)) return;
+
+      const model = createWallModel(wall, isActive
+        ? { emissive: wall.id === selectedWallId ? 0x3366ff : undefined }
+        : { opacity: 0.2 });
+      model.position.z = elevations.get(wall.levelId) ?? 0;
+      if (isActive) model.userData.wallId = wall.id;
+      wallsGroup.add(model);
+    });
+
+    return () => {
+      wallsGroup.children.forEach(disposeObjectModel);
+      wallsGroup.clear();
+    };
+  }, [activeFloorPlan, activeLevelKey, isIsometric, selectedWallId]);
+
+  // Objects of the active level that drawn walls and zones are checked against, rebuilt
+  // only when the plan, level or library changes rather than on every pointer move
+  const levelObjectIndex = useMemo(
+    () => activeFloorPlan && activeLevelKey ? buildObjectIndex(activeFloorPlan, objectLibrary, activeLevelKey) : null,
+    [activeFloorPlan, objectLibrary, activeLevelKey]
+  );
+
+  // Preview of the wall run being drawn, tinted by whether it can be added
+  useEffect(() => {
+    const scene = sceneRef.current;
+    if (!scene || !wallDraft || !levelObjectIndex || !activeLevel) return;
+
+    const wall = { ...wallDraft, ...wallSettings, levelId: activeLevel.id, openings: [] };
+    const isValid = isWallPlacementValid(levelObjectIndex, wall);
+    const preview = createWallModel({ ...wall, id: 'wall-draft' }, { opacity: 0.6, emissive: isValid ? 0x00ff00 : 0xff0000 });
+    preview.position.z = activeLevel.elevation;
+    scene.add(preview);
+
+    return () => {
+      scene.remove(preview);
+      disposeObjectModel(preview);
+    };
+  }, [wallDraft, wallSettings, levelObjectIndex, activeLevel]);
+
+  // Draw the keep-out zones of the active level as hatched areas with an outline; the one
+  // picked with the keep-out tool is outlined in white
+  useEffect(() => {
+    const scene = sceneRef.current;
+    if (!scene || !activeFloorPlan || !activeLevel) return;
+
+    const group = new THREE.Group();
+    group.name = 'keep-out-zones';
+    group.position.z = activeLevel.elevation;
+    (activeFloorPlan.keepOutZones ?? [])
+      .filter(zone => zone.levelId === activeLevel.id)
+      .forEach((zone) => {
+        const hatch = createHatchedZone(zone.width, zone.depth, KEEP_OUT_COLOR);
+        hatch.position.x = zone.x + zone.width / 2;
+        hatch.position.y = zone.y + zone.depth / 2;
+        group.add(hatch);
+
+        const corners = [
+          [zone.x, zone.y], [zone.x + zone.width, zone.y], [zone.x + zone.width, zone.y + zone.depth], [zone.x, zone.y + zone.depth]
+        ].map(([x, y]) => new THREE.Vector3(x, y, 0.1));
+        const outline = new THREE.LineLoop(
+          new THREE.BufferGeometry().setFromPoints(corners),
+          new THREE.LineBasicMaterial({ color: zone.id === selectedKeepOutId ? 0xffffff : KEEP_OUT_COLOR })
+        );
+        outline.raycast = () => {};
+        group.add(outline);
+      });
+    scene.add(group);
+
+    return () => {
+      scene.remove(group);
+      disposeObjectModel(group);
+      group.traverse((child) => {
+        if (child instanceof THREE.LineLoop) {
+          child.geometry.dispose();
+          (child.material as THREE.Material).dispose();
+        }
+      });
+    };
+  }, [activeFloorPlan, activeLevel, selectedKeepOutId]);
+
+  // Preview of the keep-out zone being drawn, tinted by whether it can be added
+  useEffect(() => {
+    const scene = sceneRef.current;
+    if (!scene || !keepOutDraft || !levelObjectIndex || !activeLevel) return;
+
+    const bounds = getKeepOutBounds(keepOutDraft.start, keepOutDraft.end);
+    const isValid = isKeepOutPlacementValid(levelObjectIndex, bounds);
+    const preview = createHatchedZone(bounds.width, bounds.depth, isValid ? 0x00ff00 : 0xff0000);
+    preview.position.set(bounds.x + bounds.width / 2, bounds.y + bounds.depth / 2, activeLevel.elevation + preview.position.z);
+    scene.add(preview);
+
+    return () => {
+      scene.remove(preview);
+      disposeObjectModel(preview);
+    };
+  }, [keepOutDraft, levelObjectIndex, activeLevel]);
+
+  // Draw the exits and aisles of the active level as tinted areas with an outline; the one
+  // picked with the egress tool is outlined in white
+  useEffect(() => {
+    const scene = sceneRef.current;
+    if (!scene || !activeFloorPlan || !activeLevel) return;
+
+    const group = new THREE.Group();
+    group.name = 'egress';
+    group.position.z = activeLevel.elevation;
+    const addArea = (id: string, area: Footprint, color: string) => {
+      const fill = new THREE.Mesh(
+        new THREE.PlaneGeometry(area.maxX - area.minX, area.maxY - area.minY),
+        new THREE.MeshBasicMaterial({ color, transparent: true, opacity: 0.25, depthWrite: false, side: THREE.DoubleSide })
+      );
+      fill.position.set((area.minX + area.maxX) / 2, (area.minY + area.maxY) / 2, 0.05);
+      fill.raycast = () => {};
+      group.add(fill);
+
+      const corners = [
+        [area.minX, area.minY], [area.maxX, area.minY], [area.maxX, area.maxY], [area.minX, area.maxY]
+      ].map(([x, y]) => new THREE.Vector3(x, y, 0.1));
+      const outline = new THREE.LineLoop(
+        new THREE.BufferGeometry().setFromPoints(corners),
+        new THREE.LineBasicMaterial({ color: id === selectedEgressId ? 0xffffff : color })
+      );
+      outline.raycast = () => {};
+      group.add(outline);
+    };
+    (activeFloorPlan.exits ?? [])
+      .filter(exit => exit.levelId === activeLevel.id)
+      .forEach(exit => addArea(exit.id, getKeepOutArea(exit), EXIT_COLOR));
+    (activeFloorPlan.aisles ?? [])
+      .filter(aisle => aisle.levelId === activeLevel.id)
+      .forEach(aisle => addArea(aisle.id, getAisleArea(aisle), AISLE_COLOR));
+    scene.add(group);
+
+    return () => {
+      scene.remove(group);
+      disposeObjectModel(group);
+      group.traverse((child) => {
+        if (child instanceof THREE.LineLoop) {
+          child.geometry.dispose();
+          (child.material as THREE.Material).dispose();
+        }
+      });
+    };
+  }, [activeFloorPlan, activeLevel, selectedEgressId]);
+
+  // Preview of the exit or aisle being drawn; aisles that would leave the grid show in red
+  useEffect(() => {
+    const scene = sceneRef.current;
+    if (!scene || !egressDraft || !activeLevel) return;
+
+    let area: Footprint;
+    let color = EXIT_COLOR;
+    if (egressMode === 'exit') {
+      area = getKeepOutArea(getKeepOutBounds(egressDraft.start, egressDraft.end));
+    } else {
+      area = getAisleArea({ ...egressDraft, width: aisleWidth });
+      color = isInsideGrid(area) ? AISLE_COLOR : '#ff0000';
+    }
+    const preview = createHatchedZone(area.maxX - area.minX, area.maxY - area.minY, color);
+    preview.position.set((area.minX + area.maxX) / 2, (area.minY + area.maxY) / 2, activeLevel.elevation + preview.position.z);
+    scene.add(preview);
+
+    return () => {
+      scene.remove(preview);
+      disposeObjectModel(preview);
+    };
+  }, [egressDraft, egressMode, aisleWidth, activeLevel]);
+
+  // Result of the egress check while the egress tool is open: the paths found drawn as
+  // lines to the exits, and the access sides of unreachable objects and the obstructed
+  // cells of aisles filled in red
+  useEffect(() => {
+    const scene = sceneRef.current;
+    if (!scene || !egressReport || !activeLevel || egressReport.levelId !== activeLevel.id) return;
+
+    const group = new THREE.Group();
+    group.name = 'egress-report';
+    group.position.z = activeLevel.elevation;
+
+    // All offending cells go into one mesh of two triangles per cell
+    const cells = [
+      ...egressReport.objects.filter(object => !object.reachable).flatMap(object => object.accessCells),
+      ...egressReport.aisles.flatMap(aisle => aisle.obstructedCells)
+    ];
+    if (cells.length > 0) {
+      const vertices = new Float32Array(cells.length * 18);
+      cells.forEach(({ x, y }, i) => {
+        vertices.set([x, y, 0, x + 1, y, 0, x + 1, y + 1, 0, x, y, 0, x + 1, y + 1, 0, x, y + 1, 0], i * 18);
+      });
+      const geometry = new THREE.BufferGeometry();
+      geometry.setAttribute('position', new THREE.BufferAttribute(vertices, 3));
+      const offending = new THREE.Mesh(
+        geometry,
+        new THREE.MeshBasicMaterial({ color: 0xff0000, transparent: true, opacity: 0.6, depthWrite: false, side: THREE.DoubleSide })
+      );
+      offending.position.z = 0.15;
+      offending.raycast = () => {};
+      group.add(offending);
+    }
+
+    // Paths run through the centres of the squares walked
+    const half = egressReport.pathWidth / 2;
+    egressReport.objects
+      .filter(object => object.path.length > 1)
+      .forEach((object) => {
+        const points = object.path.map(({ x, y }) => new THREE.Vector3(x + half, y + half, 0.2));
+        const line = new THREE.Line(
+          new THREE.BufferGeometry().setFromPoints(points),
+          new THREE.LineBasicMaterial({ color: EXIT_COLOR })
+        );
+        line.raycast = () => {};
+        group.add(line);
+      });
+    scene.add(group);
+
+    return () => {
+      scene.remove(group);
+      disposeObjectModel(group);
+      group.traverse((child) => {
+        if (child instanceof THREE.Line) {
+          child.geometry.dispose();
+          (child.material as THREE.Material).dispose();
+        }
+      });
+    };
+  }, [egressReport, activeLevel]);
+
+  // The wall, measure, keep-out and egress tools draw with a crosshair instead of the panning hand
+  useEffect(() => {
+    if (mountRef.current) mountRef.current.style.cursor = activeTool === 'select' ? 'grab' : 'crosshair';
+  }, [activeTool]);
+
+  // Draw the kept measurements of the active level with their readings, plus the last result
+  // and the measurement in progress while measuring. Lines and labels draw over the objects.
+  useEffect(() => {
+    const scene = sceneRef.current;
+    if (!scene || !activeFloorPlan || !activeLevel) return;
+
+    const group = new THREE.Group();
+    group.name = 'measurements';
+    group.position.z = activeLevel.elevation + 0.1;
+    const labels: THREE.Sprite[] = [];
+
+    const addLabel = (text: string, at: OutlinePoint, color: string) => {
+      const canvas = document.createElement('canvas');
+      const context = canvas.getContext('2d');
+      if (!context) return;
+
+      const font = `${MEASURE_LABEL_FONT_SIZE}px Arial`;
+      context.font = font;
+      canvas.width = Math.ceil(context.measureText(text).width) + 12;
+      canvas.height = MEASURE_LABEL_FONT_SIZE + 10;
+      // Resizing the canvas resets the context
+      context.font = font;
+      context.fillStyle = 'rgba(0, 0, 0, 0.7)';
+      context.fillRect(0, 0, canvas.width, canvas.height);
+      context.fillStyle = color;
+      context.textAlign = 'center';
+      context.textBaseline = 'middle';
+      context.fillText(text, canvas.width / 2, canvas.height / 2);
+
+      const material = new THREE.SpriteMaterial({ map: new THREE.CanvasTexture(canvas), depthTest: false, transparent: true });
+      const sprite = new THREE.Sprite(material);
+      sprite.position.set(at.x, at.y, 0);
+      sprite.center.set(0.5, -0.2);
+      sprite.renderOrder = 11;
+      sprite.userData.pixelSize = { width: canvas.width, height: canvas.height };
+      group.add(sprite);
+      labels.push(sprite);
+    };
+
+    const addShape = (points: OutlinePoint[], closed: boolean, color: string) => {
+      const geometry = new THREE.BufferGeometry().setFromPoints(points.map(point => new THREE.Vector3(point.x, point.y, 0)));
+      const material = new THREE.LineBasicMaterial({ color, depthTest: false, transparent: true });
+      const line = closed ? new THREE.LineLoop(geometry, material) : new THREE.Line(geometry, material);
+      line.renderOrder = 10;
+      group.add(line);
+
+      if (closed && points.length >= 3) {
+        const shape = new THREE.Shape(points.map(point => new THREE.Vector2(point.x, point.y)));
+        const fill = new THREE.Mesh(
+          new THREE.ShapeGeometry(shape),
+          new THREE.MeshBasicMaterial({ color, transparent: true, opacity: 0.15, depthTest: false, side: THREE.DoubleSide })
+        );
+        fill.renderOrder = 10;
+        group.add(fill);
+      }
+    };
+
+    // Readings sit at the middle of a distance and the average of an area's corners
+    const addMeasurement = (measurement: ReturnType<typeof toMeasurement>, color: string) => {
+      const { kind, points } = measurement;
+      addShape(points, kind === 'area', color);
+      const at = {
+        x: points.reduce((sum, point) => sum + point.x, 0) / points.length,
+        y: points.reduce((sum, point) => sum + point.y, 0) / points.length
+      };
+      addLabel(describeMeasurement(measurement, unitSettings), at, color);
+    };
+
+    (activeFloorPlan.measurements ?? [])
+      .filter(measurement => measurement.levelId === activeLevel.id)
+      .forEach(measurement => addMeasurement(measurement, '#ffcc00'));
+
+    if (activeTool === 'measure') {
+      if (measureResult && !measureResult.keptId) addMeasurement(measureResult.measurement, '#00ccff');
+
+      // The measurement in progress runs on to the pointer; a polygon reads as a distance
+      // until it has three corners
+      const points = measurePointer ? [...measurePoints, measurePointer.point] : measurePoints;
+      if (measurePoints.length > 0 && points.length >= 2) {
+        const previewMode = measureMode === 'polygon' && points.length < 3 ? 'distance' : measureMode;
+        addMeasurement(toMeasurement(previewMode, measureMode === 'polygon' ? points : points.slice(-2)), '#ffffff');
+      }
+
+      // Marker on the pointer, coloured by what it snapped to
+      if (measurePointer) {
+        const { point, snap } = measurePointer;
+        const marker = new THREE.Points(
+          new THREE.BufferGeometry().setFromPoints([new THREE.Vector3(point.x, point.y, 0)]),
+          new THREE.PointsMaterial({
+            color: snap === 'corner' ? 0x00ff00 : snap === 'edge' ? 0x00ccff : 0xffffff,
+            size: 8,
+            sizeAttenuation: false,
+            depthTest: false
+          })
+        );
+        marker.renderOrder = 12;
+        group.add(marker);
+      }
+    }
+
+    scene.add(group);
+    measureLabelsRef.current = labels;
+    scaleMeasureLabels();
+
+    return () => {
+      scene.remove(group);
+      measureLabelsRef.current = [];
+      group.traverse((child) => {
+        if (child instanceof THREE.Sprite) {
+          child.material.map?.dispose();
+          child.material.dispose();
+        } else if (child instanceof THREE.Line || child instanceof THREE.Mesh || child instanceof THREE.Points) {
+          child.geometry.dispose();
+          (child.material as THREE.Material).dispose();
+        }
+      });
+    };
+  }, [activeFloorPlan, activeLevel, activeTool, measureMode, measurePoints, measurePointer, measureResult, unitSettings, scaleMeasureLabels]);
+
+  // Raise the grid and the cursor plane to the floor of the active level
+  useEffect(() => {
+    activeElevationRef.current = activeElevation;
+    gridRef.current?.position.setZ(activeElevation);
+    labelGroupRef.current?.position.setZ(activeElevation);
+  }, [activeElevation]);
+
+  // Draw the floor plan's underlay, e.g. walls imported from a DXF drawing, just above the ground
+  useEffect(() => {
+    const scene = sceneRef.current;
+    const underlay = activeFloorPlan?.underlay;
+    if (!scene || !underlay || underlay.length === 0) return;
+
+    const vertices = underlay.flatMap(segment => [segment.x1, segment.y1, 0.05, segment.x2, segment.y2, 0.05]);
+    const geometry = new THREE.BufferGeometry();
+    geometry.setAttribute('position', new THREE.Float32BufferAttribute(vertices, 3));
+    const lines = new THREE.LineSegments(geometry, new THREE.LineBasicMaterial({ color: 0x888888 }));
+    lines.name = 'underlay';
+    scene.add(lines);
+
+    return () => {
+      scene.remove(lines);
+      geometry.dispose();
+      (lines.material as THREE.Material).dispose();
+    };
+  }, [activeFloorPlan]);
+
+  // Hide the selected objects while their ghosts are being moved
+  useEffect(() => {
+    placedModelsRef.current.forEach((model, instanceId) => {
+      model.visible = !selectedInstanceIds.includes(instanceId);
+    });
+  }, [selectedInstanceIds]);
+
+  // Build the translucent placement ghost, one model per item, tinted by placement validity
+  useEffect(() => {
+    const scene = sceneRef.current;
+    if (!scene || placementItems.length === 0) return;
+
+    const ghost = new THREE.Group();
+    ghost.name = 'placement-ghost';
+    placementItems.forEach((item) => {
+      const object = objectLibrary.find(obj => obj.id === item.objectId);
+      if (!object) return;
+
+      const model = createObjectModel(object, {
+        opacity: 0.6,
+        emissive: isValidPlacement ? 0x00ff00 : 0xff0000,
+        showClearance: true
+      });
+      positionObjectModel(model, object, { ...item.offset, z: 0 }, item.rotation);
+      ghost.add(model);
+    });
+    scene.add(ghost);
+    ghostRef.current = ghost;
+
+    return () => {
+      scene.remove(ghost);
+      ghost.children.forEach(model => disposeObjectModel(model as THREE.Group));
+      ghostRef.current = null;
+    };
+  }, [placementItems, isValidPlacement, objectLibrary]);
+
+  // Keep the ghost on its snapped grid position
+  useEffect(() => {
+    if (!ghostRef.current) return;
+    ghostRef.current.position.set(placementPosition.x, placementPosition.y, placementPosition.z);
+  }, [placementItems, isValidPlacement, objectLibrary, placementPosition]);
+
   // Helper to calculate the visual distance for isometric view
   const calculateIsometricVisualDistance = useCallback((zoom: number) => {
     // Calculate base distance and adjust by zoom
@@ -776,13 +1865,53 @@ const Canvas = () => {
     console.log("[INFO] Camera recentered to view entire grid.");
   }, [isIsometric, calculateIsometricPosition, setCameraOrientation, adjustCameraFrustum, updateGridWithLabels]);
 
+  // Render the current view off-screen to a PNG. The capture shows the saved design, so
+  // the placement ghost is hidden and objects hidden while being moved are shown.
+  const handleCapture = useCallback(async (options: CaptureOptions) => {
+    const renderer = rendererRef.current;
+    const scene = sceneRef.current;
+    const camera = cameraRef.current;
+    if (!renderer || !scene || !camera) return;
+
+    const toggled: Array<[THREE.Object3D, boolean]> = [];
+    const setVisible = (object: THREE.Object3D | null, visible: boolean) => {
+      if (!object || object.visible === visible) return;
+      toggled.push([object, object.visible]);
+      object.visible = visible;
+    };
+    setVisible(ghostRef.current, false);
+    placedModelsRef.current.forEach(model => setVisible(model, true));
+    if (options.hideGrid) {
+      setVisible(gridRef.current, false);
+      setVisible(labelGroupRef.current, false);
+    }
+
+    let snapshot: Promise<Blob>;
+    try {
+      snapshot = renderSnapshot(renderer, scene, camera, options);
+    } finally {
+      toggled.forEach(([object, visible]) => { object.visible = visible; });
+    }
+
+    downloadFile(await snapshot, 'image/png', `${exportFileStem()}.png`);
+    console.log(`[INFO] Captured ${isIsometric ? 'isometric' : 'birds-eye'} view at ${options.width}x${options.height}`);
+  }, [isIsometric]);
+
   return (
     <div className="relative w-full h-full overflow-hidden">
       <div 
         ref={mountRef} 
-        className="absolute inset-0 w-full h-full" 
+        className="absolute inset-0 w-full h-full touch-none" 
       />
       
+      {/* Rubber band while shift-dragging a box selection */}
+      {selectionBox && (
+        <div
+          className="absolute border border-gray-300 bg-gray-300 bg-opacity-10 pointer-events-none"
+          style={selectionBox}
+        />
+      )}
+      
       <div className="absolute top-4 right-4 flex flex-col space-y-2">
           <button
             onClick={toggleView}
@@ -798,7 +1927,21 @@ const Canvas = () => {
           >
             <Home size={24} />
           </button>
+          <button
+            onClick={() => setCaptureModalOpen(true)}
+            className="bg-gray-800 text-white p-2 rounded-full shadow-lg hover:bg-gray-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-gray-500"
+            title="Capture View as PNG"
+          >
+            <Camera size={24} />
+          </button>
       </div>
+      
+      {captureModalOpen && (
+        <CaptureModal
+          onClose={() => setCaptureModalOpen(false)}
+          onCapture={handleCapture}
+        />
+      )}
     </div>
   );
 };
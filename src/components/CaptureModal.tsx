@@ -0,0 +1,109 @@
+import { useState } from 'react';
+import { X } from 'lucide-react';
+import { SNAPSHOT_RESOLUTIONS } from '../utils/snapshot';
+
+export interface CaptureOptions {
+  width: number;
+  height: number;
+  hideGrid: boolean;
+  transparent: boolean;
+}
+
+interface CaptureModalProps {
+  onClose: () => void;
+  // Renders and downloads the snapshot
+  onCapture: (options: CaptureOptions) => Promise<void>;
+}
+
+const CaptureModal = ({ onClose, onCapture }: CaptureModalProps) => {
+  const [resolutionIndex, setResolutionIndex] = useState(2); // 4K
+  const [hideGrid, setHideGrid] = useState(false);
+  const [transparent, setTransparent] = useState(false);
+  const [isCapturing, setIsCapturing] = useState(false);
+  const [error, setError] = useState('');
+  
+  const handleCapture = async () => {
+    const { width, height } = SNAPSHOT_RESOLUTIONS[resolutionIndex];
+    setError('');
+    setIsCapturing(true);
+    try {
+      await onCapture({ width, height, hideGrid, transparent });
+      onClose();
+    } catch (captureError) {
+      console.error('Snapshot capture failed:', captureError);
+      setError('Failed to capture the view.');
+    } finally {
+      setIsCapturing(false);
+    }
+  };
+  
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-gray-800 rounded-lg shadow-xl p-6 w-full max-w-sm">
+        <div className="flex justify-between items-center mb-4">
+          <h2 className="text-xl font-bold text-white">Capture View</h2>
+          <button
+            onClick={onClose}
+            className="text-gray-400 hover:text-white"
+          >
+            <X size={20} />
+          </button>
+        </div>
+        
+        <div className="mb-4">
+          <label className="block text-gray-300 mb-1">Resolution</label>
+          <select
+            value={resolutionIndex}
+            onChange={(e) => setResolutionIndex(Number(e.target.value))}
+            className="w-full p-2 bg-gray-700 border border-gray-600 rounded text-white"
+          >
+            {SNAPSHOT_RESOLUTIONS.map((resolution, index) => (
+              <option key={resolution.label} value={index}>{resolution.label}</option>
+            ))}
+          </select>
+        </div>
+        
+        <label className="flex items-center text-gray-300 mb-2">
+          <input
+            type="checkbox"
+            checked={hideGrid}
+            onChange={(e) => setHideGrid(e.target.checked)}
+            className="mr-2"
+          />
+          Hide grid and labels
+        </label>
+        <label className="flex items-center text-gray-300 mb-4">
+          <input
+            type="checkbox"
+            checked={transparent}
+            onChange={(e) => setTransparent(e.target.checked)}
+            className="mr-2"
+          />
+          Transparent background
+        </label>
+        
+        {error && (
+          <p className="text-red-500 text-sm mb-2">{error}</p>
+        )}
+        
+        <div className="flex justify-end">
+          <button
+            onClick={onClose}
+            className="py-2 px-4 bg-gray-700 hover:bg-gray-600 rounded text-white mr-2"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleCapture}
+            disabled={isCapturing}
+            className="py-2 px-4 bg-gray-600 hover:bg-gray-500 rounded text-white disabled:opacity-40"
+          >
+            {isCapturing ? 'Capturing...' : 'Capture'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default CaptureModal;
@@ -1,31 +1,81 @@
-import { useState, useEffect, useRef } from 'react';
+import { useState, useEffect, useRef, useMemo } from 'react';
 import { X } from 'lucide-react';
-import { useDesignStore } from '../store/designStore';
+import { useDesignStore, FactoryObject, GridCell, ObjectClearance } from '../store/designStore';
 import ObjectPreview from './ObjectPreview';
+import FootprintEditor, { MAX_PAINTED_SIZE } from './FootprintEditor';
+import { previewObjectEdit, getObjectUsage } from '../utils/objectEdit';
+import { DEFAULT_CATEGORIES, getLibraryCategories, parseTags } from '../utils/librarySearch';
+import { CLEARANCE_SIDES, ClearanceSide, MAX_CLEARANCE, hasClearance } from '../utils/clearance';
 
 interface CreateObjectModalProps {
   onClose: () => void;
+  // Library object to edit instead of creating a new one
+  object?: FactoryObject;
 }
 
-const CreateObjectModal = ({ onClose }: CreateObjectModalProps) => {
-  const [name, setName] = useState('New Object');
-  const [xDimension, setXDimension] = useState(2);
-  const [yDimension, setYDimension] = useState(2);
-  const [zDimension, setZDimension] = useState(2);
-  const [color, setColor] = useState('#aaaaaa'); // Gray default
+const CreateObjectModal = ({ onClose, object }: CreateObjectModalProps) => {
+  const [name, setName] = useState(object?.name ?? 'New Object');
+  const [xDimension, setXDimension] = useState(object?.dimensions.x ?? 2);
+  const [yDimension, setYDimension] = useState(object?.dimensions.y ?? 2);
+  const [zDimension, setZDimension] = useState(object?.dimensions.z ?? 2);
+  const [color, setColor] = useState(object?.color ?? '#aaaaaa'); // Gray default
+  const [category, setCategory] = useState(object?.category ?? '');
+  const [tags, setTags] = useState(object?.tags?.join(', ') ?? '');
+  const [manufacturer, setManufacturer] = useState(object?.manufacturer ?? '');
+  const [model, setModel] = useState(object?.model ?? '');
+  // Painted cells of a shaped object; cells outside the current dimensions are ignored
+  const [shaped, setShaped] = useState(object?.cells !== undefined);
+  const [paintedCells, setPaintedCells] = useState<GridCell[]>(object?.cells ?? []);
+  const [margins, setMargins] = useState<ObjectClearance>(
+    object?.clearance ?? { front: 0, back: 0, left: 0, right: 0, shared: false }
+  );
   
   const addObject = useDesignStore((state) => state.addObject);
+  const updateObject = useDesignStore((state) => state.updateObject);
+  const floorPlans = useDesignStore((state) => state.floorPlans);
+  const objectLibrary = useDesignStore((state) => state.objectLibrary);
+  
+  const shapeCells = useMemo(
+    () => paintedCells.filter(cell => cell.x < xDimension && cell.y < yDimension),
+    [paintedCells, xDimension, yDimension]
+  );
+  // A shape covering its whole bounding box is stored as a plain box
+  const cells = useMemo(
+    () => (shaped && shapeCells.length < xDimension * yDimension
+      ? [...shapeCells].sort((a, b) => a.y - b.y || a.x - b.x)
+      : undefined),
+    [shaped, shapeCells, xDimension, yDimension]
+  );
+  const canPaint = xDimension <= MAX_PAINTED_SIZE && yDimension <= MAX_PAINTED_SIZE;
+  const dimensions = useMemo(() => ({ x: xDimension, y: yDimension, z: zDimension }), [xDimension, yDimension, zDimension]);
+  // Margins of zero on every side are stored as no clearance
+  const clearance = hasClearance({ clearance: margins }) ? margins : undefined;
   
-  // Create a preview object
-  const previewObject = {
+  // Placed instances an edit would break, across all floor plans
+  const conflicts = useMemo(() => {
+    if (!object) return [];
+    return previewObjectEdit(object.id, { dimensions, cells: shaped ? shapeCells : undefined, clearance }, floorPlans, objectLibrary);
+  }, [object, dimensions, shaped, shapeCells, clearance, floorPlans, objectLibrary]);
+  
+  const instanceCount = object
+    ? getObjectUsage(object.id, floorPlans).reduce((count, usage) => count + usage.count, 0)
+    : 0;
+  
+  // Create a preview object, kept while nothing it shows changes so the preview isn't rebuilt
+  const previewObject = useMemo(() => ({
     id: 'preview',
     name,
-    dimensions: {
-      x: xDimension,
-      y: yDimension,
-      z: zDimension
-    },
+    dimensions,
+    cells,
     color
+  }), [name, dimensions, cells, color]);
+  
+  // Start a new shape from the full bounding box
+  const handleShapedChange = (value: boolean) => {
+    if (value && shapeCells.length === 0) {
+      setPaintedCells(Array.from({ length: xDimension * yDimension }, (_, i) => ({ x: i % xDimension, y: Math.floor(i / xDimension) })));
+    }
+    setShaped(value);
   };
   
   // Handle dimension input with validation
@@ -40,18 +90,46 @@ const CreateObjectModal = ({ onClose }: CreateObjectModalProps) => {
     }
   };
   
-  // Create the object
+  const handleMarginChange = (value: string, side: ClearanceSide) => {
+    const parsed = parseInt(value);
+    if (!isNaN(parsed) && parsed >= 0 && parsed <= MAX_CLEARANCE) {
+      setMargins({ ...margins, [side]: parsed });
+    }
+  };
+  
+  // Catalog fields; blank ones are cleared
+  const catalog = {
+    category: category.trim() || undefined,
+    tags: parseTags(tags),
+    manufacturer: manufacturer.trim() || undefined,
+    model: model.trim() || undefined
+  };
+  
+  // Create the object, or save the edit; placed instances reference it by id so they follow
   const handleCreateObject = () => {
-    if (name.trim() === '') return;
+    if (name.trim() === '' || (shaped && shapeCells.length === 0)) return;
+    
+    if (object) {
+      updateObject(object.id, {
+        name,
+        dimensions,
+        cells,
+        color,
+        clearance,
+        ...catalog
+      });
+      console.log(`[INFO] Updated library object ${name}, ${instanceCount} placed instances, ${conflicts.length} conflicts`);
+      onClose();
+      return;
+    }
     
     addObject({
       name,
-      dimensions: {
-        x: xDimension,
-        y: yDimension,
-        z: zDimension
-      },
-      color
+      dimensions,
+      ...(cells && { cells }),
+      color,
+      ...(clearance && { clearance }),
+      ...catalog
     });
     
     onClose();
@@ -75,10 +153,10 @@ const CreateObjectModal = ({ onClose }: CreateObjectModalProps) => {
     <div className="fixed inset-0 bg-black bg-opacity-50 z-30 flex items-center justify-center p-4">
       <div 
         ref={modalRef}
-        className="bg-gray-800 rounded-lg shadow-lg max-w-md w-full p-6"
+        className="bg-gray-800 rounded-lg shadow-lg max-w-md w-full p-6 max-h-full overflow-y-auto"
       >
         <div className="flex justify-between items-center mb-4">
-          <h2 className="text-xl font-bold text-white">Create New Object</h2>
+          <h2 className="text-xl font-bold text-white">{object ? 'Edit Object' : 'Create New Object'}</h2>
           <button
             onClick={onClose}
             className="text-gray-400 hover:text-white"
@@ -112,9 +190,9 @@ const CreateObjectModal = ({ onClose }: CreateObjectModalProps) => {
             <input
               type="number"
               value={xDimension}
-              onChange={(e) => handleDimensionChange(e.target.value, setXDimension)}
+              onChange={(e) => handleDimensionChange(e.target.value, setXDimension, shaped ? MAX_PAINTED_SIZE : 500)}
               min={1}
-              max={500}
+              max={shaped ? MAX_PAINTED_SIZE : 500}
               className="w-full p-2 bg-gray-700 border border-gray-600 rounded text-white"
             />
           </div>
@@ -123,9 +201,9 @@ const CreateObjectModal = ({ onClose }: CreateObjectModalProps) => {
             <input
               type="number"
               value={yDimension}
-              onChange={(e) => handleDimensionChange(e.target.value, setYDimension)}
+              onChange={(e) => handleDimensionChange(e.target.value, setYDimension, shaped ? MAX_PAINTED_SIZE : 500)}
               min={1}
-              max={500}
+              max={shaped ? MAX_PAINTED_SIZE : 500}
               className="w-full p-2 bg-gray-700 border border-gray-600 rounded text-white"
             />
           </div>
@@ -142,6 +220,68 @@ const CreateObjectModal = ({ onClose }: CreateObjectModalProps) => {
           </div>
         </div>
         
+        {/* Footprint shape */}
+        <div className="mb-4">
+          <label className="flex items-center text-gray-300 mb-2">
+            <input
+              type="checkbox"
+              checked={shaped}
+              onChange={(e) => handleShapedChange(e.target.checked)}
+              disabled={!shaped && !canPaint}
+              className="mr-2"
+            />
+            Custom footprint shape
+            {!shaped && !canPaint && (
+              <span className="text-gray-500 text-xs ml-2">up to {MAX_PAINTED_SIZE} x {MAX_PAINTED_SIZE}</span>
+            )}
+          </label>
+          {shaped && !canPaint && (
+            <p className="text-gray-400 text-sm">
+              Shapes larger than {MAX_PAINTED_SIZE} x {MAX_PAINTED_SIZE} cells keep their imported cells
+            </p>
+          )}
+          {shaped && canPaint && (
+            <FootprintEditor
+              width={xDimension}
+              depth={yDimension}
+              cells={shapeCells}
+              onChange={setPaintedCells}
+            />
+          )}
+        </div>
+        
+        {/* Clearance */}
+        <div className="mb-4">
+          <label className="block text-gray-300 mb-1">Clearance</label>
+          <p className="text-gray-400 text-xs mb-2">
+            Space kept free on each side for operators, doors and maintenance. The front faces -Y before rotating.
+          </p>
+          <div className="grid grid-cols-4 gap-2 mb-2">
+            {CLEARANCE_SIDES.map(side => (
+              <div key={side}>
+                <label className="block text-gray-400 text-xs mb-1 capitalize">{side}</label>
+                <input
+                  type="number"
+                  value={margins[side]}
+                  onChange={(e) => handleMarginChange(e.target.value, side)}
+                  min={0}
+                  max={MAX_CLEARANCE}
+                  className="w-full p-2 bg-gray-700 border border-gray-600 rounded text-white"
+                />
+              </div>
+            ))}
+          </div>
+          <label className="flex items-center text-gray-300">
+            <input
+              type="checkbox"
+              checked={margins.shared}
+              onChange={(e) => setMargins({ ...margins, shared: e.target.checked })}
+              className="mr-2"
+            />
+            May overlap other shared clearance
+          </label>
+        </div>
+        
         {/* Color picker */}
         <div className="mb-6">
           <label className="block text-gray-300 mb-1">Color</label>
@@ -163,6 +303,81 @@ const CreateObjectModal = ({ onClose }: CreateObjectModalProps) => {
           </div>
         </div>
         
+        {/* Catalog details */}
+        <div className="grid grid-cols-2 gap-3 mb-4">
+          <div>
+            <label className="block text-gray-300 mb-1">Category</label>
+            <input
+              type="text"
+              value={category}
+              onChange={(e) => setCategory(e.target.value)}
+              list="object-categories"
+              className="w-full p-2 bg-gray-700 border border-gray-600 rounded text-white"
+              placeholder="e.g. CNC"
+              maxLength={30}
+            />
+            <datalist id="object-categories">
+              {Array.from(new Set([...DEFAULT_CATEGORIES, ...getLibraryCategories(objectLibrary)]))
+                .filter(Boolean)
+                .map(option => <option key={option} value={option} />)}
+            </datalist>
+          </div>
+          <div>
+            <label className="block text-gray-300 mb-1">Tags</label>
+            <input
+              type="text"
+              value={tags}
+              onChange={(e) => setTags(e.target.value)}
+              className="w-full p-2 bg-gray-700 border border-gray-600 rounded text-white"
+              placeholder="Comma separated"
+            />
+          </div>
+          <div>
+            <label className="block text-gray-300 mb-1">Manufacturer</label>
+            <input
+              type="text"
+              value={manufacturer}
+              onChange={(e) => setManufacturer(e.target.value)}
+              className="w-full p-2 bg-gray-700 border border-gray-600 rounded text-white"
+              maxLength={50}
+            />
+          </div>
+          <div>
+            <label className="block text-gray-300 mb-1">Model</label>
+            <input
+              type="text"
+              value={model}
+              onChange={(e) => setModel(e.target.value)}
+              className="w-full p-2 bg-gray-700 border border-gray-600 rounded text-white"
+              maxLength={50}
+            />
+          </div>
+        </div>
+        
+        {/* Effect of the edit on placed instances */}
+        {object && (
+          <div className="mb-4 text-sm">
+            <p className="text-gray-400">
+              {instanceCount} placed {instanceCount === 1 ? 'instance uses' : 'instances use'} this object and will be updated
+            </p>
+            {conflicts.length > 0 && (
+              <div className="mt-2 bg-gray-900 rounded p-3 max-h-40 overflow-y-auto">
+                <p className="text-red-400 mb-1">{conflicts.length} placed instances would conflict:</p>
+                <ul className="list-disc pl-5 text-gray-300">
+                  {conflicts.map(conflict => (
+                    <li key={`${conflict.floorPlanId}-${conflict.instanceId}`}>
+                      {conflict.floorPlanName}: {conflict.label || object.name}
+                      {conflict.reason === 'outside-grid'
+                        ? ' would leave the grid'
+                        : ` would overlap ${conflict.collidesWith.join(', ')}`}
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+          </div>
+        )}
+        
         {/* Action buttons */}
         <div className="flex justify-end">
           <button
@@ -174,9 +389,9 @@ const CreateObjectModal = ({ onClose }: CreateObjectModalProps) => {
           <button
             onClick={handleCreateObject}
             className="py-2 px-4 bg-gray-600 hover:bg-gray-500 rounded text-white"
-            disabled={name.trim() === ''}
+            disabled={name.trim() === '' || (shaped && shapeCells.length === 0)}
           >
-            Create Object
+            {object ? (conflicts.length > 0 ? 'Save Anyway' : 'Save Changes') : 'Create Object'}
           </button>
         </div>
       </div>
@@ -0,0 +1,124 @@
+import { useState, useMemo } from 'react';
+import { X } from 'lucide-react';
+import { useDesignStore, FactoryObject } from '../store/designStore';
+import { getObjectUsage, previewObjectEdit } from '../utils/objectEdit';
+
+interface DeleteObjectModalProps {
+  object: FactoryObject;
+  onClose: () => void;
+}
+
+const DeleteObjectModal = ({ object, onClose }: DeleteObjectModalProps) => {
+  const objectLibrary = useDesignStore((state) => state.objectLibrary);
+  const floorPlans = useDesignStore((state) => state.floorPlans);
+  const deleteObject = useDesignStore((state) => state.deleteObject);
+  
+  const candidates = objectLibrary.filter(obj => obj.id !== object.id);
+  const [substituteId, setSubstituteId] = useState(candidates[0]?.id ?? '');
+  const substitute = candidates.find(obj => obj.id === substituteId);
+  
+  const usage = getObjectUsage(object.id, floorPlans);
+  const instanceCount = usage.reduce((count, entry) => count + entry.count, 0);
+  
+  // A substitute takes over each instance's position and rotation, so it behaves like resizing the object
+  const substituteConflicts = useMemo(
+    () => (substitute ? previewObjectEdit(object.id, substitute, floorPlans, objectLibrary) : []),
+    [object.id, substitute, floorPlans, objectLibrary]
+  );
+  
+  const handleRemoveInstances = () => {
+    deleteObject(object.id);
+    console.log(`[INFO] Deleted library object ${object.name} and ${instanceCount} placed instances`);
+    onClose();
+  };
+  
+  const handleSubstitute = () => {
+    if (!substitute) return;
+    deleteObject(object.id, substitute.id);
+    console.log(`[INFO] Deleted library object ${object.name}, ${instanceCount} placed instances now use ${substitute.name}, ${substituteConflicts.length} conflicts`);
+    onClose();
+  };
+  
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-gray-800 rounded-lg shadow-xl p-6 w-full max-w-md">
+        <div className="flex justify-between items-center mb-4">
+          <h2 className="text-xl font-bold text-white">Delete {object.name}</h2>
+          <button
+            onClick={onClose}
+            className="text-gray-400 hover:text-white"
+          >
+            <X size={20} />
+          </button>
+        </div>
+        
+        <div className="bg-gray-900 rounded p-3 mb-4 text-sm text-gray-300 max-h-40 overflow-y-auto">
+          <p className="text-white mb-1">{instanceCount} placed instances use this object:</p>
+          <ul className="list-disc pl-5">
+            {usage.map(entry => (
+              <li key={entry.floorPlanId}>{entry.floorPlanName}: {entry.count}</li>
+            ))}
+          </ul>
+        </div>
+        
+        {/* Substitute another library object */}
+        {candidates.length > 0 && (
+          <div className="mb-4 text-sm">
+            <label className="block text-gray-300 mb-1">Substitute with</label>
+            <select
+              value={substituteId}
+              onChange={(e) => setSubstituteId(e.target.value)}
+              className="w-full p-2 bg-gray-700 border border-gray-600 rounded text-white"
+            >
+              {candidates.map(obj => (
+                <option key={obj.id} value={obj.id}>
+                  {obj.name} ({obj.dimensions.x} x {obj.dimensions.y} x {obj.dimensions.z})
+                </option>
+              ))}
+            </select>
+            {substituteConflicts.length > 0 && (
+              <div className="mt-2 bg-gray-900 rounded p-3 max-h-40 overflow-y-auto">
+                <p className="text-red-400 mb-1">{substituteConflicts.length} substituted instances would conflict:</p>
+                <ul className="list-disc pl-5 text-gray-300">
+                  {substituteConflicts.map(conflict => (
+                    <li key={`${conflict.floorPlanId}-${conflict.instanceId}`}>
+                      {conflict.floorPlanName}: {conflict.label || object.name}
+                      {conflict.reason === 'outside-grid'
+                        ? ' would leave the grid'
+                        : ` would overlap ${conflict.collidesWith.join(', ')}`}
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+          </div>
+        )}
+        
+        <div className="flex justify-end">
+          <button
+            onClick={onClose}
+            className="py-2 px-4 bg-gray-700 hover:bg-gray-600 rounded text-white mr-2"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleRemoveInstances}
+            className="py-2 px-4 bg-gray-700 hover:bg-gray-600 rounded text-white mr-2"
+          >
+            Remove Instances
+          </button>
+          {substitute && (
+            <button
+              onClick={handleSubstitute}
+              className="py-2 px-4 bg-gray-600 hover:bg-gray-500 rounded text-white"
+            >
+              {substituteConflicts.length > 0 ? 'Substitute Anyway' : 'Substitute'}
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default DeleteObjectModal;
@@ -0,0 +1,240 @@
+import { useEffect, useMemo } from 'react';
+import { X, Trash } from 'lucide-react';
+import { useDesignStore, Aisle } from '../store/designStore';
+import { EgressMode, useToolStore } from '../store/toolStore';
+import { getActiveLevel } from '../utils/levels';
+import { MAX_AISLE_WIDTH, MAX_EGRESS_PATH_WIDTH, getAisleArea, validateEgress } from '../utils/egress';
+import { isInsideGrid } from '../utils/footprint';
+
+const MODES: Array<{ mode: EgressMode; label: string; hint: string }> = [
+  { mode: 'exit', label: 'Exit', hint: 'Drag to mark an exit, such as a door or a loading bay.' },
+  { mode: 'aisle', label: 'Aisle', hint: 'Drag along a row or column to lay out an aisle that must stay clear.' }
+];
+
+// Exits and aisles of the active level, and a live check that every placed object can reach
+// an exit and every aisle keeps its width. Problems are highlighted on the Canvas.
+const EgressToolPanel = () => {
+  const egressMode = useToolStore((state) => state.egressMode);
+  const selectedEgressId = useToolStore((state) => state.selectedEgressId);
+  const aisleWidth = useToolStore((state) => state.aisleWidth);
+  const egressPathWidth = useToolStore((state) => state.egressPathWidth);
+  const setEgressMode = useToolStore((state) => state.setEgressMode);
+  const selectEgressItem = useToolStore((state) => state.selectEgressItem);
+  const setAisleWidth = useToolStore((state) => state.setAisleWidth);
+  const setEgressPathWidth = useToolStore((state) => state.setEgressPathWidth);
+  const setEgressReport = useToolStore((state) => state.setEgressReport);
+  const setActiveTool = useToolStore((state) => state.setActiveTool);
+  
+  const activeFloorPlan = useDesignStore((state) => {
+    const activeId = state.activeFloorPlanId;
+    return activeId ? state.floorPlans.find(plan => plan.id === activeId) : null;
+  });
+  const activeLevelId = useDesignStore((state) => state.activeLevelId);
+  const objectLibrary = useDesignStore((state) => state.objectLibrary);
+  const updateExit = useDesignStore((state) => state.updateExit);
+  const deleteExit = useDesignStore((state) => state.deleteExit);
+  const updateAisle = useDesignStore((state) => state.updateAisle);
+  const deleteAisle = useDesignStore((state) => state.deleteAisle);
+  
+  const activeLevel = activeFloorPlan ? getActiveLevel(activeFloorPlan, activeLevelId) : null;
+  const exits = (activeFloorPlan?.exits ?? []).filter(exit => exit.levelId === activeLevel?.id);
+  const aisles = (activeFloorPlan?.aisles ?? []).filter(aisle => aisle.levelId === activeLevel?.id);
+  // The picked exit or aisle can disappear through undo
+  const selectedExit = exits.find(exit => exit.id === selectedEgressId) ?? null;
+  const selectedAisle = aisles.find(aisle => aisle.id === selectedEgressId) ?? null;
+  
+  // Check again whenever the plan changes, and hand the result to the Canvas to draw
+  const levelId = activeLevel?.id;
+  const report = useMemo(
+    () => activeFloorPlan && levelId ? validateEgress(activeFloorPlan, objectLibrary, levelId, egressPathWidth) : null,
+    [activeFloorPlan, levelId, objectLibrary, egressPathWidth]
+  );
+  useEffect(() => {
+    setEgressReport(report);
+  }, [report, setEgressReport]);
+  
+  const unreachable = report?.objects.filter(object => !object.reachable) ?? [];
+  const narrowed = report?.aisles.filter(aisle => aisle.clearWidth < aisle.width) ?? [];
+  
+  const parseWidth = (value: string, max: number) => {
+    const width = parseInt(value);
+    return isNaN(width) || width < 1 || width > max ? null : width;
+  };
+  
+  const handleNameChange = (item: { id: string; name: string }, value: string) => {
+    const name = value.trim();
+    if (!activeFloorPlan || !name || name === item.name) return;
+    if (selectedExit) {
+      updateExit(activeFloorPlan.id, item.id, { name });
+    } else {
+      updateAisle(activeFloorPlan.id, item.id, { name });
+    }
+  };
+  
+  // Widen or narrow an aisle about its run, as long as it stays on the grid
+  const handleAisleWidthChange = (aisle: Aisle, value: string) => {
+    const width = parseWidth(value, MAX_AISLE_WIDTH);
+    if (!activeFloorPlan || width === null || width === aisle.width) return;
+    
+    if (!isInsideGrid(getAisleArea({ ...aisle, width }))) {
+      console.warn(`[WARN] Aisle ${aisle.name} not widened: it would leave the grid`);
+      return;
+    }
+    updateAisle(activeFloorPlan.id, aisle.id, { width });
+  };
+  
+  const handleDelete = (item: { id: string; name: string }) => {
+    if (!activeFloorPlan) return;
+    if (selectedExit) {
+      deleteExit(activeFloorPlan.id, item.id);
+    } else {
+      deleteAisle(activeFloorPlan.id, item.id);
+    }
+    selectEgressItem(null);
+    console.log(`[INFO] Deleted ${item.name}`);
+  };
+  
+  const inputClass = 'p-1 bg-gray-900 border border-gray-600 rounded text-sm';
+  const selectedItem = selectedExit ?? selectedAisle;
+  
+  return (
+    <div className="absolute bottom-4 left-4 w-80 p-3 bg-gray-800 rounded-lg shadow-lg text-sm">
+      <div className="flex justify-between items-center mb-2">
+        <span className="font-bold">Exits and Aisles</span>
+        <button
+          onClick={() => setActiveTool('select')}
+          className="text-gray-400 hover:text-white"
+          title="Stop Checking Egress"
+        >
+          <X size={18} />
+        </button>
+      </div>
+      
+      <div className="flex mb-2">
+        {MODES.map(({ mode, label }) => (
+          <button
+            key={mode}
+            onClick={() => setEgressMode(mode)}
+            className={`flex-1 py-1 first:rounded-l last:rounded-r ${egressMode === mode ? 'bg-gray-500' : 'bg-gray-700 hover:bg-gray-600'}`}
+          >
+            {label}
+          </button>
+        ))}
+      </div>
+      <p className="text-gray-400 text-xs mb-2">
+        {MODES.find(({ mode }) => mode === egressMode)?.hint} Click an exit or aisle to edit it.
+      </p>
+      
+      <div className="flex items-center space-x-2 mb-2">
+        {egressMode === 'aisle' && (
+          <>
+            <label className="text-gray-300">Aisle width</label>
+            <input
+              key={`aisle-width-${aisleWidth}`}
+              type="number"
+              defaultValue={aisleWidth}
+              min={1}
+              max={MAX_AISLE_WIDTH}
+              onBlur={(e) => {
+                const width = parseWidth(e.target.value, MAX_AISLE_WIDTH);
+                if (width !== null) setAisleWidth(width);
+              }}
+              onKeyDown={(e) => e.key === 'Enter' && e.currentTarget.blur()}
+              className={`w-14 ${inputClass}`}
+            />
+          </>
+        )}
+        <label className="text-gray-300">Path width</label>
+        <input
+          key={`path-width-${egressPathWidth}`}
+          type="number"
+          defaultValue={egressPathWidth}
+          min={1}
+          max={MAX_EGRESS_PATH_WIDTH}
+          onBlur={(e) => {
+            const width = parseWidth(e.target.value, MAX_EGRESS_PATH_WIDTH);
+            if (width !== null) setEgressPathWidth(width);
+          }}
+          onKeyDown={(e) => e.key === 'Enter' && e.currentTarget.blur()}
+          className={`w-14 ${inputClass}`}
+        />
+      </div>
+      
+      {/* Egress check */}
+      {report && (
+        <div className="mb-2 p-2 bg-gray-900 rounded">
+          {report.hasExits ? (
+            <p className={unreachable.length > 0 ? 'text-red-400' : 'text-green-400'}>
+              {report.objects.length - unreachable.length} of {report.objects.length} objects reach an exit
+            </p>
+          ) : (
+            <p className="text-yellow-400">Mark at least one exit on this level to check paths</p>
+          )}
+          {(unreachable.length > 0 || narrowed.length > 0) && (
+            <ul className="max-h-24 overflow-y-auto mt-1 text-xs text-red-300">
+              {unreachable.map(object => (
+                <li key={object.instanceId}>{object.name} can't reach an exit</li>
+              ))}
+              {narrowed.map(aisle => (
+                <li key={aisle.aisleId}>{aisle.name} narrowed to {aisle.clearWidth} of {aisle.width}</li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+      
+      <p className="text-gray-400 text-xs mb-2">
+        {exits.length} exits and {aisles.length} aisles on {activeLevel?.name}
+      </p>
+      
+      {/* Picked exit or aisle */}
+      {selectedItem && (
+        <div className="border-t border-gray-700 pt-2">
+          <div className="flex justify-between items-center mb-2">
+            <input
+              key={`name-${selectedItem.id}-${selectedItem.name}`}
+              type="text"
+              defaultValue={selectedItem.name}
+              onBlur={(e) => handleNameChange(selectedItem, e.target.value)}
+              onKeyDown={(e) => e.key === 'Enter' && e.currentTarget.blur()}
+              className={`flex-1 mr-2 ${inputClass}`}
+            />
+            <button
+              onClick={() => handleDelete(selectedItem)}
+              className="p-1 text-gray-400 hover:text-red-400"
+              title={selectedExit ? 'Delete Exit' : 'Delete Aisle'}
+            >
+              <Trash size={16} />
+            </button>
+          </div>
+          
+          {selectedExit && (
+            <p className="text-gray-500 text-xs">
+              {selectedExit.width} x {selectedExit.depth} at {selectedExit.x}, {selectedExit.y}
+            </p>
+          )}
+          {selectedAisle && (
+            <div className="flex items-center space-x-2">
+              <label className="text-gray-300">Width</label>
+              <input
+                key={`width-${selectedAisle.id}-${selectedAisle.width}`}
+                type="number"
+                defaultValue={selectedAisle.width}
+                min={1}
+                max={MAX_AISLE_WIDTH}
+                onBlur={(e) => handleAisleWidthChange(selectedAisle, e.target.value)}
+                onKeyDown={(e) => e.key === 'Enter' && e.currentTarget.blur()}
+                className={`w-16 ${inputClass}`}
+              />
+              <span className="text-gray-500 text-xs">
+                From {selectedAisle.start.x}, {selectedAisle.start.y} to {selectedAisle.end.x}, {selectedAisle.end.y}
+              </span>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default EgressToolPanel;
@@ -1,44 +1,226 @@
-import { useState } from 'react';
-import { Menu, Upload, PackageOpen } from 'lucide-react';
+import { useState, useEffect, useCallback } from 'react';
+import { Menu, Upload, PackageOpen, Undo2, Redo2, ClipboardPaste, Layers, BrickWall, Ruler, Ban, DoorOpen } from 'lucide-react';
 import Canvas from './Canvas';
 import LeftPanel from './LeftPanel';
 import ImportModal from './ImportModal';
 import ObjectLibrary from './ObjectLibrary';
 import ObjectPlacement from './ObjectPlacement';
-import { useDesignStore } from '../store/designStore';
+import ArrayModal from './ArrayModal';
+import LevelsModal from './LevelsModal';
+import WallToolPanel from './WallToolPanel';
+import MeasureToolPanel from './MeasureToolPanel';
+import KeepOutToolPanel from './KeepOutToolPanel';
+import EgressToolPanel from './EgressToolPanel';
+import { useDesignStore, PlacedObjectMetadata } from '../store/designStore';
+import { usePlacementStore, PlacementItem } from '../store/placementStore';
+import { useHistoryStore } from '../store/historyStore';
+import { CanvasTool, useToolStore } from '../store/toolStore';
+import { indexObjects, itemsFromPlacedObjects, ResolvedPlacement } from '../utils/placementGroup';
+import { getActiveLevel, sortLevels } from '../utils/levels';
 
 const FactoryDesigner = () => {
   const [leftPanelOpen, setLeftPanelOpen] = useState(false);
   const [importModalOpen, setImportModalOpen] = useState(false);
   const [objectLibraryOpen, setObjectLibraryOpen] = useState(false);
-  const [placingObjectId, setPlacingObjectId] = useState<string | null>(null);
+  const [arrayModalOpen, setArrayModalOpen] = useState(false);
+  const [levelsModalOpen, setLevelsModalOpen] = useState(false);
+  // New objects being placed, from the library or the clipboard. The key restarts the
+  // placement controls for every new session.
+  const [placing, setPlacing] = useState<{ key: string; items: PlacementItem[] } | null>(null);
   
   const activeFloorPlanId = useDesignStore((state) => state.activeFloorPlanId);
+  const activeLevelId = useDesignStore((state) => state.activeLevelId);
+  const setActiveLevel = useDesignStore((state) => state.setActiveLevel);
   const floorPlans = useDesignStore((state) => state.floorPlans);
+  const objectLibrary = useDesignStore((state) => state.objectLibrary);
+  const recentObjectIds = useDesignStore((state) => state.recentObjectIds);
+  const markObjectUsed = useDesignStore((state) => state.markObjectUsed);
+  
+  // Placed objects selected on the canvas
+  const selectedInstanceIds = usePlacementStore((state) => state.selectedInstanceIds);
+  const clearSelection = usePlacementStore((state) => state.clearSelection);
+  const hasClipboard = usePlacementStore((state) => state.clipboard.length > 0);
+  
+  // Canvas tool; walls are drawn or distances measured instead of objects being selected
+  const activeTool = useToolStore((state) => state.activeTool);
+  const setActiveTool = useToolStore((state) => state.setActiveTool);
+  
+  // Undo/redo availability
+  const canUndo = useHistoryStore((state) => state.past.length > 0);
+  const canRedo = useHistoryStore((state) => state.future.length > 0);
   
   // Find the active floor plan
   const activeFloorPlan = floorPlans.find(plan => plan.id === activeFloorPlanId);
+  const activeLevel = activeFloorPlan ? getActiveLevel(activeFloorPlan, activeLevelId) : null;
+  const selectedObjects = activeFloorPlan?.objects.filter(placed => selectedInstanceIds.includes(placed.id)) ?? [];
+  const selection = itemsFromPlacedObjects(selectedObjects, indexObjects(objectLibrary));
+  // Only a single selected object has its label and serial number editable
+  const singleSelected = selectedObjects.length === 1 ? selectedObjects[0] : null;
+  const recentObjects = recentObjectIds.flatMap(id => objectLibrary.find(obj => obj.id === id) ?? []);
+  
+  // Selections belong to one level of a floor plan, so drop them when switching plans or levels
+  const activeLevelKey = activeLevel?.id;
+  useEffect(() => {
+    clearSelection();
+    useToolStore.getState().selectWall(null);
+    useToolStore.getState().cancelMeasurement();
+    useToolStore.getState().selectKeepOut(null);
+    useToolStore.getState().selectEgressItem(null);
+  }, [activeFloorPlanId, activeLevelKey, clearSelection]);
+  
+  // Switch a Canvas tool on or off, dropping any object selection or placement
+  const handleToggleTool = (tool: CanvasTool) => {
+    clearSelection();
+    setPlacing(null);
+    setActiveTool(activeTool === tool ? 'select' : tool);
+  };
+  
+  // Undo/redo, dropping any pending move of the selected object
+  const handleUndo = () => {
+    clearSelection();
+    useDesignStore.getState().undo();
+  };
+  
+  const handleRedo = () => {
+    clearSelection();
+    useDesignStore.getState().redo();
+  };
+  
+  // Copy the selected objects, keeping their layout relative to each other
+  const handleCopy = useCallback(() => {
+    const { activeFloorPlanId, floorPlans, objectLibrary } = useDesignStore.getState();
+    const { selectedInstanceIds, copyToClipboard } = usePlacementStore.getState();
+    const floorPlan = floorPlans.find(plan => plan.id === activeFloorPlanId);
+    const selected = floorPlan?.objects.filter(placed => selectedInstanceIds.includes(placed.id)) ?? [];
+    if (selected.length === 0) return false;
+    
+    copyToClipboard(itemsFromPlacedObjects(selected, indexObjects(objectLibrary)).items);
+    console.log(`[INFO] Copied ${selected.length} object(s)`);
+    return true;
+  }, []);
+  
+  // Copy the selected objects and remove them from the floor plan
+  const handleCut = useCallback(() => {
+    const { activeFloorPlanId, removeObjectsFromFloorPlan } = useDesignStore.getState();
+    if (!activeFloorPlanId || !handleCopy()) return;
+    
+    const { selectedInstanceIds } = usePlacementStore.getState();
+    removeObjectsFromFloorPlan(activeFloorPlanId, selectedInstanceIds);
+    console.log(`[INFO] Cut ${selectedInstanceIds.length} object(s)`);
+    clearSelection();
+  }, [handleCopy, clearSelection]);
+  
+  // Start placing the clipboard contents; they follow the cursor like a new library object
+  const handlePaste = useCallback(() => {
+    const { activeFloorPlanId, objectLibrary } = useDesignStore.getState();
+    // Skip objects whose library entry was deleted since they were copied
+    const items = usePlacementStore.getState().clipboard.filter(item => objectLibrary.some(obj => obj.id === item.objectId));
+    if (!activeFloorPlanId || items.length === 0) return;
+    
+    clearSelection();
+    useToolStore.getState().setActiveTool('select');
+    setPlacing({ key: `paste-${Date.now()}`, items });
+  }, [clearSelection]);
+  
+  // Keyboard shortcuts: Ctrl+Z to undo, Ctrl+Shift+Z (or Ctrl+Y) to redo,
+  // Ctrl+C / Ctrl+X / Ctrl+V to copy, cut and paste placed objects
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      const target = e.target as HTMLElement;
+      if (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA') return;
+      if (!(e.ctrlKey || e.metaKey)) return;
+      
+      const key = e.key.toLowerCase();
+      if (key === 'z') {
+        e.preventDefault();
+        clearSelection();
+        if (e.shiftKey) {
+          useDesignStore.getState().redo();
+        } else {
+          useDesignStore.getState().undo();
+        }
+      } else if (key === 'y') {
+        e.preventDefault();
+        clearSelection();
+        useDesignStore.getState().redo();
+      } else if (key === 'c') {
+        handleCopy();
+      } else if (key === 'x') {
+        handleCut();
+      } else if (key === 'v') {
+        e.preventDefault();
+        handlePaste();
+      }
+    };
+    
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [clearSelection, handleCopy, handleCut, handlePaste]);
   
   // Handle importing an object from the library
   const handleImportObject = (objectId: string) => {
-    setPlacingObjectId(objectId);
+    markObjectUsed(objectId);
+    clearSelection();
+    setActiveTool('select');
+    setPlacing({ key: objectId, items: [{ objectId, offset: { x: 0, y: 0 }, rotation: 0 }] });
     setObjectLibraryOpen(false);
   };
   
   // Handle canceling object placement
   const handleCancelPlacement = () => {
-    setPlacingObjectId(null);
+    setPlacing(null);
+  };
+  
+  // Handle completing object placement; every placed object becomes a new instance on the active level
+  const handleCompletePlacement = (placements: ResolvedPlacement[]) => {
+    if (activeFloorPlanId && activeLevel) {
+      useDesignStore.getState().addPlacedObjects(
+        activeFloorPlanId,
+        placements.map(({ objectId, position, rotation }) => ({
+          objectId,
+          levelId: activeLevel.id,
+          position: { ...position, z: activeLevel.elevation },
+          rotation
+        }))
+      );
+    }
+    setPlacing(null);
+  };
+  
+  // Handle closing the array modal after copies were placed
+  const handleCompleteArray = () => {
+    setArrayModalOpen(false);
+    clearSelection();
+  };
+  
+  // Handle confirming moved or rotated objects; the whole selection is updated at once
+  const handleCompleteMove = (placements: ResolvedPlacement[]) => {
+    if (activeFloorPlanId) {
+      const updates = placements.flatMap(({ instanceId, position, rotation }) =>
+        instanceId ? [{ id: instanceId, position, rotation }] : []
+      );
+      useDesignStore.getState().updatePlacedObjects(activeFloorPlanId, updates);
+      console.log(`[INFO] Moved ${updates.length} placed object(s)`);
+    }
+    clearSelection();
   };
   
-  // Handle completing object placement
-  const handleCompletePlacement = (position: { x: number; y: number; z: number }, rotation: number) => {
-    if (placingObjectId) {
-      const importObject = useDesignStore.getState().importObject;
-      importObject(placingObjectId, position, rotation);
-      setPlacingObjectId(null);
+  // Handle editing the label and serial number of the selected object
+  const handleMetadataChange = (metadata: PlacedObjectMetadata) => {
+    if (activeFloorPlanId && singleSelected) {
+      useDesignStore.getState().updatePlacedObject(activeFloorPlanId, singleSelected.id, { metadata });
     }
   };
   
+  // Handle deleting the selected objects from the floor plan
+  const handleDeleteSelected = () => {
+    if (activeFloorPlanId && selectedObjects.length > 0) {
+      useDesignStore.getState().removeObjectsFromFloorPlan(activeFloorPlanId, selectedObjects.map(placed => placed.id));
+      console.log(`[INFO] Deleted ${selectedObjects.length} placed object(s)`);
+    }
+    clearSelection();
+  };
+  
   return (
     <div className="w-full h-screen flex flex-col bg-gray-900 text-white">
       <header className="bg-gray-800 p-4 shadow-md flex justify-between items-center">
@@ -54,9 +236,84 @@ const FactoryDesigner = () => {
         </div>
         
         <div className="flex items-center">
+          <button
+            onClick={handleUndo}
+            disabled={!canUndo}
+            className="p-2 rounded-full hover:bg-gray-700 disabled:opacity-40 disabled:hover:bg-transparent"
+            title="Undo (Ctrl+Z)"
+          >
+            <Undo2 size={20} />
+          </button>
+          <button
+            onClick={handleRedo}
+            disabled={!canRedo}
+            className="p-2 rounded-full hover:bg-gray-700 disabled:opacity-40 disabled:hover:bg-transparent"
+            title="Redo (Ctrl+Shift+Z)"
+          >
+            <Redo2 size={20} />
+          </button>
+          <button
+            onClick={handlePaste}
+            disabled={!hasClipboard || !activeFloorPlan}
+            className="p-2 rounded-full hover:bg-gray-700 mr-4 disabled:opacity-40 disabled:hover:bg-transparent"
+            title="Paste (Ctrl+V)"
+          >
+            <ClipboardPaste size={20} />
+          </button>
           <span className="mr-4">
             {activeFloorPlan ? activeFloorPlan.name : 'No Floor Plan Selected'}
           </span>
+          {activeFloorPlan && activeLevel && (
+            <>
+              <select
+                value={activeLevel.id}
+                onChange={(e) => setActiveLevel(e.target.value)}
+                className="p-1 bg-gray-700 border border-gray-600 rounded text-white text-sm mr-1"
+                title="Active Level"
+              >
+                {sortLevels(activeFloorPlan.levels).map(level => (
+                  <option key={level.id} value={level.id}>
+                    {level.name} ({level.elevation})
+                  </option>
+                ))}
+              </select>
+              <button
+                onClick={() => setLevelsModalOpen(true)}
+                className="p-2 rounded-full hover:bg-gray-700 mr-2"
+                title="Edit Levels"
+              >
+                <Layers size={20} />
+              </button>
+              <button
+                onClick={() => handleToggleTool('wall')}
+                className={`p-2 rounded-full mr-2 ${activeTool === 'wall' ? 'bg-gray-600' : 'hover:bg-gray-700'}`}
+                title={activeTool === 'wall' ? 'Stop Drawing Walls' : 'Draw Walls'}
+              >
+                <BrickWall size={20} />
+              </button>
+              <button
+                onClick={() => handleToggleTool('measure')}
+                className={`p-2 rounded-full mr-2 ${activeTool === 'measure' ? 'bg-gray-600' : 'hover:bg-gray-700'}`}
+                title={activeTool === 'measure' ? 'Stop Measuring' : 'Measure'}
+              >
+                <Ruler size={20} />
+              </button>
+              <button
+                onClick={() => handleToggleTool('keepOut')}
+                className={`p-2 rounded-full mr-2 ${activeTool === 'keepOut' ? 'bg-gray-600' : 'hover:bg-gray-700'}`}
+                title={activeTool === 'keepOut' ? 'Stop Editing Keep-out Zones' : 'Keep-out Zones'}
+              >
+                <Ban size={20} />
+              </button>
+              <button
+                onClick={() => handleToggleTool('egress')}
+                className={`p-2 rounded-full mr-4 ${activeTool === 'egress' ? 'bg-gray-600' : 'hover:bg-gray-700'}`}
+                title={activeTool === 'egress' ? 'Stop Checking Egress' : 'Exits and Aisles'}
+              >
+                <DoorOpen size={20} />
+              </button>
+            </>
+          )}
           <button
             onClick={() => setImportModalOpen(true)}
             className="p-2 rounded-full hover:bg-gray-700 mr-2"
@@ -71,14 +328,61 @@ const FactoryDesigner = () => {
         <Canvas />
         
         {/* Object placement overlay */}
-        {placingObjectId && (
+        {placing && (
           <ObjectPlacement 
-            objectId={placingObjectId}
+            key={placing.key}
+            items={placing.items}
             onCancel={handleCancelPlacement}
             onComplete={handleCompletePlacement}
           />
         )}
         
+        {/* Selected objects move/rotate/delete overlay, restarted whenever the selection changes */}
+        {!placing && selection.items.length > 0 && (
+          <ObjectPlacement
+            key={selection.items.map(item => item.instanceId).join(',')}
+            items={selection.items}
+            initialPosition={selection.position}
+            metadata={singleSelected?.metadata}
+            onCancel={clearSelection}
+            onComplete={handleCompleteMove}
+            onDelete={handleDeleteSelected}
+            onCopy={handleCopy}
+            onCut={handleCut}
+            onArray={() => setArrayModalOpen(true)}
+            onMetadataChange={singleSelected ? handleMetadataChange : undefined}
+          />
+        )}
+        
+        {/* Wall tool settings and the picked wall */}
+        {activeFloorPlan && activeTool === 'wall' && <WallToolPanel />}
+        
+        {/* Measure tool readings and kept measurements */}
+        {activeFloorPlan && activeTool === 'measure' && <MeasureToolPanel />}
+        
+        {/* Keep-out zones of the active level */}
+        {activeFloorPlan && activeTool === 'keepOut' && <KeepOutToolPanel />}
+        
+        {/* Exits, aisles and the egress check of the active level */}
+        {activeFloorPlan && activeTool === 'egress' && <EgressToolPanel />}
+        
+        {/* Recently used objects, for placing again without opening the library */}
+        {activeFloorPlan && recentObjects.length > 0 && (
+          <div className="absolute top-4 left-4 flex flex-wrap gap-2 max-w-[60%]">
+            {recentObjects.map(object => (
+              <button
+                key={object.id}
+                onClick={() => handleImportObject(object.id)}
+                className={`flex items-center py-1 px-2 rounded text-white text-sm shadow-lg ${placing?.key === object.id ? 'bg-gray-600' : 'bg-gray-800 hover:bg-gray-700'}`}
+                title={`Place ${object.name} (${object.dimensions.x} x ${object.dimensions.y} x ${object.dimensions.z})`}
+              >
+                <span className="w-3 h-3 rounded-sm mr-2" style={{ backgroundColor: object.color }} />
+                {object.name}
+              </button>
+            ))}
+          </div>
+        )}
+        
         {/* Object library button (bottom right) */}
         <button
           onClick={() => setObjectLibraryOpen(true)}
@@ -101,6 +405,24 @@ const FactoryDesigner = () => {
         onClose={() => setImportModalOpen(false)} 
       />
       
+      {/* Array placement of the selected objects */}
+      {arrayModalOpen && selection.items.length > 0 && (
+        <ArrayModal
+          items={selection.items}
+          position={selection.position}
+          onClose={() => setArrayModalOpen(false)}
+          onComplete={handleCompleteArray}
+        />
+      )}
+      
+      {/* Levels of the active floor plan */}
+      {levelsModalOpen && activeFloorPlan && (
+        <LevelsModal
+          floorPlan={activeFloorPlan}
+          onClose={() => setLevelsModalOpen(false)}
+        />
+      )}
+      
       {/* Object library */}
       <ObjectLibrary
         isOpen={objectLibraryOpen}
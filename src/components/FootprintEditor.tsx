@@ -0,0 +1,73 @@
+import { useState, useEffect } from 'react';
+import { GridCell } from '../store/designStore';
+
+// Largest bounding box, in cells along either side, that can be painted by hand
+export const MAX_PAINTED_SIZE = 40;
+// Space the grid of cells may take up in pixels
+const EDITOR_SIZE = 240;
+
+interface FootprintEditorProps {
+  width: number;
+  depth: number;
+  cells: GridCell[];
+  onChange: (cells: GridCell[]) => void;
+}
+
+/**
+ * Paint the cells an object covers within its bounding box. Dragging fills or clears
+ * cells depending on the state of the first cell touched. Rows are drawn with Y growing
+ * upwards, matching the birds-eye view of the Canvas.
+ */
+const FootprintEditor = ({ width, depth, cells, onChange }: FootprintEditorProps) => {
+  // Fill value applied while dragging, null when not painting
+  const [paintValue, setPaintValue] = useState<boolean | null>(null);
+  
+  const filled = new Set(cells.map(cell => `${cell.x},${cell.y}`));
+  const cellSize = Math.max(6, Math.floor(EDITOR_SIZE / Math.max(width, depth)));
+  
+  // Stop painting wherever the pointer is released
+  useEffect(() => {
+    const handlePointerUp = () => setPaintValue(null);
+    window.addEventListener('pointerup', handlePointerUp);
+    return () => window.removeEventListener('pointerup', handlePointerUp);
+  }, []);
+  
+  const paint = (x: number, y: number, value: boolean) => {
+    if (filled.has(`${x},${y}`) === value) return;
+    onChange(value ? [...cells, { x, y }] : cells.filter(cell => cell.x !== x || cell.y !== y));
+  };
+  
+  const handlePointerDown = (e: React.PointerEvent, x: number, y: number) => {
+    e.preventDefault();
+    // Touch pointers are captured by the element they start on; release it so neighbours get pointerenter
+    e.currentTarget.releasePointerCapture(e.pointerId);
+    const value = !filled.has(`${x},${y}`);
+    setPaintValue(value);
+    paint(x, y, value);
+  };
+  
+  const rows = Array.from({ length: depth }, (_, row) => depth - 1 - row);
+  const columns = Array.from({ length: width }, (_, column) => column);
+  
+  return (
+    <div className="flex flex-col items-center">
+      <div
+        className="grid gap-px bg-gray-600 border border-gray-600 touch-none select-none"
+        style={{ gridTemplateColumns: `repeat(${width}, ${cellSize}px)` }}
+      >
+        {rows.map(y => columns.map(x => (
+          <div
+            key={`${x},${y}`}
+            onPointerDown={(e) => handlePointerDown(e, x, y)}
+            onPointerEnter={() => paintValue !== null && paint(x, y, paintValue)}
+            className={`cursor-pointer ${filled.has(`${x},${y}`) ? 'bg-gray-300' : 'bg-gray-800'}`}
+            style={{ width: cellSize, height: cellSize }}
+          />
+        )))}
+      </div>
+      <p className="text-gray-400 text-xs mt-1">{cells.length} of {width * depth} cells, Y grows upwards</p>
+    </div>
+  );
+};
+
+export default FootprintEditor;
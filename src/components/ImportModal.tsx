@@ -1,6 +1,17 @@
-import { useState, useRef } from 'react';
+import { useState, useRef, useMemo } from 'react';
 import { X, Upload } from 'lucide-react';
 import { useDesignStore } from '../store/designStore';
+import { parseFloorPlanDocument, formatSchemaError } from '../utils/floorPlanSchema';
+import { planFloorPlanImport, FloorPlanImportPlan } from '../utils/floorPlanImport';
+import { parseDxf, dxfToFloorPlanDocument, DxfParseResult } from '../utils/dxf';
+
+// Common drawing units, as drawing units per grid unit
+const DXF_SCALE_PRESETS = [
+  { label: '1 drawing unit = 1 grid unit', scale: 1 },
+  { label: 'Millimetres to metres', scale: 1000 },
+  { label: 'Centimetres to metres', scale: 100 },
+  { label: 'Inches to feet', scale: 12 }
+];
 
 interface ImportModalProps {
   isOpen: boolean;
@@ -11,9 +22,37 @@ const ImportModal = ({ isOpen, onClose }: ImportModalProps) => {
   const [dragActive, setDragActive] = useState(false);
   const [fileName, setFileName] = useState('');
   const [error, setError] = useState('');
+  const [validationErrors, setValidationErrors] = useState<string[]>([]);
+  const [jsonPlan, setJsonPlan] = useState<FloorPlanImportPlan | null>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
   
-  const importFloorPlanFromJSON = useDesignStore((state) => state.importFloorPlanFromJSON);
+  // DXF drawings are converted with user-chosen options, so the plan is derived from them
+  const [dxfDrawing, setDxfDrawing] = useState<DxfParseResult | null>(null);
+  const [dxfScale, setDxfScale] = useState('1');
+  const [detectObjects, setDetectObjects] = useState(true);
+  const [objectHeight, setObjectHeight] = useState(1);
+  
+  const applyFloorPlanImport = useDesignStore((state) => state.applyFloorPlanImport);
+  const objectLibrary = useDesignStore((state) => state.objectLibrary);
+  
+  // Conversion runs during render, so a failure is reported like a parse error instead of
+  // being thrown out of the modal
+  const { dxfPlan, dxfError } = useMemo(() => {
+    const scale = parseFloat(dxfScale);
+    if (!dxfDrawing || !Number.isFinite(scale) || scale <= 0) return { dxfPlan: null, dxfError: '' };
+    
+    const name = fileName.replace(/\.dxf$/i, '') || 'Imported drawing';
+    try {
+      const document = dxfToFloorPlanDocument(dxfDrawing, name, { scale, detectObjects, objectHeight });
+      return { dxfPlan: planFloorPlanImport(document, objectLibrary), dxfError: '' };
+    } catch (conversionError) {
+      console.error('DXF conversion failed:', conversionError);
+      return { dxfPlan: null, dxfError: `This drawing could not be converted: ${(conversionError as Error).message}` };
+    }
+  }, [dxfDrawing, dxfScale, detectObjects, objectHeight, fileName, objectLibrary]);
+  
+  const importPlan = jsonPlan ?? dxfPlan;
+  const shownError = error || dxfError;
   
   const handleDrag = (e: React.DragEvent) => {
     e.preventDefault();
@@ -46,31 +85,78 @@ const ImportModal = ({ isOpen, onClose }: ImportModalProps) => {
   
   const handleFiles = (files: FileList) => {
     setError('');
+    setValidationErrors([]);
+    setJsonPlan(null);
+    setDxfDrawing(null);
     const file = files[0];
+    const isDxf = file.name.toLowerCase().endsWith('.dxf');
     
-    if (file.type !== 'application/json') {
-      setError('Please upload a JSON file');
+    if (!isDxf && file.type !== 'application/json' && !file.name.toLowerCase().endsWith('.json')) {
+      setError('Please upload a JSON or DXF file');
       return;
     }
     
     setFileName(file.name);
     
+    if (isDxf) {
+      const reader = new FileReader();
+      reader.onload = (event) => {
+        if (!event.target?.result) return;
+        try {
+          const drawing = parseDxf(event.target.result.toString());
+          console.log(`[INFO] Read ${drawing.shapes.length} shapes from ${file.name}, ignored ${drawing.ignoredEntities} entities`);
+          setDxfDrawing(drawing);
+        } catch (dxfError) {
+          console.error('DXF parsing failed:', dxfError);
+          setError(`This file is not a valid DXF drawing: ${(dxfError as Error).message}`);
+        }
+      };
+      reader.onerror = () => {
+        setError('Failed to read the file.');
+      };
+      reader.readAsText(file);
+      return;
+    }
+    
     const reader = new FileReader();
     reader.onload = (event) => {
-      try {
-        if (event.target?.result) {
-          const jsonContent = event.target.result.toString();
-          importFloorPlanFromJSON(jsonContent);
-          onClose();
-        }
-      } catch (err) {
-        setError('Failed to import floor plan. Invalid JSON format.');
+      if (!event.target?.result) return;
+      
+      // Validate and build the pre-import report; nothing is changed until confirmed
+      const result = parseFloorPlanDocument(event.target.result.toString());
+      if (!result.ok) {
+        console.error('Floor plan validation failed:', result.errors);
+        setError('This file is not a valid floor plan:');
+        setValidationErrors(result.errors.map(formatSchemaError));
+        return;
       }
+      
+      const plan = planFloorPlanImport(result.document, useDesignStore.getState().objectLibrary);
+      console.log(`[INFO] Prepared import of ${plan.floorPlanName} from schema version ${result.sourceVersion}`);
+      setJsonPlan(plan);
+    };
+    reader.onerror = () => {
+      setError('Failed to read the file.');
     };
     
     reader.readAsText(file);
   };
   
+  const handleClose = () => {
+    setFileName('');
+    setError('');
+    setValidationErrors([]);
+    setJsonPlan(null);
+    setDxfDrawing(null);
+    onClose();
+  };
+  
+  const handleConfirmImport = () => {
+    if (!importPlan) return;
+    applyFloorPlanImport(importPlan);
+    handleClose();
+  };
+  
   const openFileSelector = () => {
     fileInputRef.current?.click();
   };
@@ -83,7 +169,7 @@ const ImportModal = ({ isOpen, onClose }: ImportModalProps) => {
         <div className="flex justify-between items-center mb-4">
           <h2 className="text-xl font-bold text-white">Import Floor Plan</h2>
           <button
-            onClick={onClose}
+            onClick={handleClose}
             className="text-gray-400 hover:text-white"
           >
             <X size={20} />
@@ -100,7 +186,7 @@ const ImportModal = ({ isOpen, onClose }: ImportModalProps) => {
         >
           <Upload className="mx-auto text-gray-400 mb-2" size={32} />
           <p className="text-gray-300 mb-2">
-            {fileName ? fileName : 'Drag and drop your JSON file here'}
+            {fileName ? fileName : 'Drag and drop your JSON or DXF file here'}
           </p>
           <p className="text-gray-400 text-sm mb-4">or</p>
           <button
@@ -113,22 +199,148 @@ const ImportModal = ({ isOpen, onClose }: ImportModalProps) => {
             ref={fileInputRef}
             type="file"
             className="hidden"
-            accept=".json"
+            accept=".json,.dxf"
             onChange={handleChange}
           />
         </div>
         
-        {error && (
-          <p className="text-red-500 text-sm mb-4">{error}</p>
+        {shownError && (
+          <p className="text-red-500 text-sm mb-2">{shownError}</p>
+        )}
+        
+        {validationErrors.length > 0 && (
+          <ul className="text-red-400 text-xs mb-4 max-h-32 overflow-y-auto list-disc pl-5">
+            {validationErrors.map((message, index) => (
+              <li key={index}>{message}</li>
+            ))}
+          </ul>
+        )}
+        
+        {/* DXF conversion options */}
+        {dxfDrawing && (
+          <div className="bg-gray-900 rounded p-3 mb-4 text-sm text-gray-300">
+            <p className="mb-2">
+              {dxfDrawing.shapes.length} lines and polylines found
+              {dxfDrawing.ignoredEntities > 0 && `, ${dxfDrawing.ignoredEntities} other entities ignored`}
+            </p>
+            <label className="block mb-1">Drawing units per grid unit</label>
+            <div className="flex mb-2">
+              <input
+                type="number"
+                value={dxfScale}
+                onChange={(e) => setDxfScale(e.target.value)}
+                min={0}
+                className="w-24 p-1 bg-gray-700 border border-gray-600 rounded text-white mr-2"
+              />
+              <select
+                value=""
+                onChange={(e) => e.target.value && setDxfScale(e.target.value)}
+                className="flex-1 p-1 bg-gray-700 border border-gray-600 rounded text-white"
+              >
+                <option value="">Presets...</option>
+                {DXF_SCALE_PRESETS.map(preset => (
+                  <option key={preset.scale} value={preset.scale}>{preset.label}</option>
+                ))}
+              </select>
+            </div>
+            <label className="flex items-center mb-2">
+              <input
+                type="checkbox"
+                checked={detectObjects}
+                onChange={(e) => setDetectObjects(e.target.checked)}
+                className="mr-2"
+              />
+              Place rectangles as objects (others become underlay)
+            </label>
+            {detectObjects && (
+              <label className="flex items-center">
+                <span className="mr-2">Object height</span>
+                <input
+                  type="number"
+                  value={objectHeight}
+                  onChange={(e) => {
+                    const parsed = parseInt(e.target.value);
+                    if (!isNaN(parsed) && parsed > 0 && parsed <= 100) setObjectHeight(parsed);
+                  }}
+                  min={1}
+                  max={100}
+                  className="w-20 p-1 bg-gray-700 border border-gray-600 rounded text-white"
+                />
+              </label>
+            )}
+          </div>
+        )}
+        
+        {/* Pre-import report */}
+        {importPlan && (
+          <div className="bg-gray-900 rounded p-3 mb-4 text-sm text-gray-300 max-h-64 overflow-y-auto">
+            <p className="text-white font-bold mb-2">{importPlan.floorPlanName}</p>
+            <p>{importPlan.placements.length} objects will be placed</p>
+            {importPlan.underlay.length > 0 && (
+              <p>{importPlan.underlay.length} underlay line segments</p>
+            )}
+            {importPlan.measurements.length > 0 && (
+              <p>{importPlan.measurements.length} measurement annotations</p>
+            )}
+            {importPlan.keepOutZones.length > 0 && (
+              <p>{importPlan.keepOutZones.length} keep-out zones</p>
+            )}
+            {(importPlan.exits.length > 0 || importPlan.aisles.length > 0) && (
+              <p>{importPlan.exits.length} exits and {importPlan.aisles.length} aisles</p>
+            )}
+            <p>
+              {importPlan.createdObjects.length} new library objects
+              {importPlan.createdObjects.length > 0 && `: ${importPlan.createdObjects.map(obj => obj.name).join(', ')}`}
+            </p>
+            <p>
+              {importPlan.reusedObjects.length} existing library objects reused
+              {importPlan.reusedObjects.length > 0 && `: ${importPlan.reusedObjects.map(match => match.existing.name).join(', ')}`}
+            </p>
+            
+            {importPlan.nameConflicts.length > 0 && (
+              <div className="mt-2">
+                <p className="text-white">Name conflicts (added alongside the existing object):</p>
+                <ul className="list-disc pl-5">
+                  {importPlan.nameConflicts.map(({ imported, existing }) => (
+                    <li key={imported.id}>
+                      {imported.name}: {imported.dimensions.x} x {imported.dimensions.y} x {imported.dimensions.z} in file, 
+                      {' '}{existing.dimensions.x} x {existing.dimensions.y} x {existing.dimensions.z} in library
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+            
+            {importPlan.skippedPlacements.length > 0 && (
+              <div className="mt-2">
+                <p className="text-white">Placements that will be skipped:</p>
+                <ul className="list-disc pl-5">
+                  {importPlan.skippedPlacements.map((skipped) => (
+                    <li key={skipped.index}>
+                      #{skipped.index + 1} {skipped.objectName} ({skipped.reason === 'collision' ? 'collides with another object' : 'outside the grid'})
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+          </div>
         )}
         
         <div className="flex justify-end">
           <button
-            onClick={onClose}
+            onClick={handleClose}
             className="py-2 px-4 bg-gray-700 hover:bg-gray-600 rounded text-white mr-2"
           >
             Cancel
           </button>
+          {importPlan && (
+            <button
+              onClick={handleConfirmImport}
+              className="py-2 px-4 bg-gray-600 hover:bg-gray-500 rounded text-white"
+            >
+              Import
+            </button>
+          )}
         </div>
       </div>
     </div>
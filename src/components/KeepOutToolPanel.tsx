@@ -0,0 +1,140 @@
+import { X, Trash } from 'lucide-react';
+import { useDesignStore, KeepOutZone } from '../store/designStore';
+import { useToolStore } from '../store/toolStore';
+import { getActiveLevel } from '../utils/levels';
+import { buildObjectIndex, isKeepOutPlacementValid } from '../utils/collision';
+import { GRID_SIZE } from '../utils/footprint';
+
+// Keep-out zones of the active level and editing of the one picked with the keep-out tool.
+// Zones are drawn by dragging on the Canvas and can't cover objects or their clearance.
+const KeepOutToolPanel = () => {
+  const selectedKeepOutId = useToolStore((state) => state.selectedKeepOutId);
+  const selectKeepOut = useToolStore((state) => state.selectKeepOut);
+  const setActiveTool = useToolStore((state) => state.setActiveTool);
+  
+  const activeFloorPlan = useDesignStore((state) => {
+    const activeId = state.activeFloorPlanId;
+    return activeId ? state.floorPlans.find(plan => plan.id === activeId) : null;
+  });
+  const activeLevelId = useDesignStore((state) => state.activeLevelId);
+  const objectLibrary = useDesignStore((state) => state.objectLibrary);
+  const updateKeepOutZone = useDesignStore((state) => state.updateKeepOutZone);
+  const deleteKeepOutZone = useDesignStore((state) => state.deleteKeepOutZone);
+  
+  const activeLevel = activeFloorPlan ? getActiveLevel(activeFloorPlan, activeLevelId) : null;
+  const zones = (activeFloorPlan?.keepOutZones ?? []).filter(zone => zone.levelId === activeLevel?.id);
+  // The picked zone can disappear through undo
+  const selectedZone = zones.find(zone => zone.id === selectedKeepOutId) ?? null;
+  
+  const handleNameChange = (zone: KeepOutZone, value: string) => {
+    const name = value.trim();
+    if (!activeFloorPlan || !name || name === zone.name) return;
+    updateKeepOutZone(activeFloorPlan.id, zone.id, { name });
+  };
+  
+  // Resize from the min corner, as long as the zone stays on the grid and clear of objects
+  const handleSizeChange = (zone: KeepOutZone, field: 'width' | 'depth', value: string) => {
+    const size = parseInt(value);
+    if (!activeFloorPlan || isNaN(size) || size < 1 || size === zone[field]) return;
+    
+    const resized = { ...zone, [field]: size };
+    if (resized.x + resized.width > GRID_SIZE || resized.y + resized.depth > GRID_SIZE ||
+      !isKeepOutPlacementValid(buildObjectIndex(activeFloorPlan, objectLibrary, zone.levelId), resized)) {
+      console.warn(`[WARN] Keep-out zone ${zone.name} not resized: it would overlap an object or leave the grid`);
+      return;
+    }
+    updateKeepOutZone(activeFloorPlan.id, zone.id, { [field]: size });
+  };
+  
+  const handleDelete = (zone: KeepOutZone) => {
+    if (!activeFloorPlan) return;
+    deleteKeepOutZone(activeFloorPlan.id, zone.id);
+    selectKeepOut(null);
+    console.log(`[INFO] Deleted keep-out zone ${zone.name}`);
+  };
+  
+  const inputClass = 'p-1 bg-gray-900 border border-gray-600 rounded text-sm';
+  
+  return (
+    <div className="absolute bottom-4 left-4 w-72 p-3 bg-gray-800 rounded-lg shadow-lg text-sm">
+      <div className="flex justify-between items-center mb-2">
+        <span className="font-bold">Keep-out Zones</span>
+        <button
+          onClick={() => setActiveTool('select')}
+          className="text-gray-400 hover:text-white"
+          title="Stop Editing Keep-out Zones"
+        >
+          <X size={18} />
+        </button>
+      </div>
+      <p className="text-gray-400 text-xs mb-2">
+        Drag to mark an area nothing may be placed in, such as an electrical panel or a drain. Click a zone to edit it.
+      </p>
+      
+      {/* Zones on the active level */}
+      {zones.length > 0 && (
+        <ul className="max-h-32 overflow-y-auto mb-2">
+          {zones.map(zone => (
+            <li key={zone.id}>
+              <button
+                onClick={() => selectKeepOut(zone.id)}
+                className={`w-full text-left px-2 py-1 rounded ${zone.id === selectedKeepOutId ? 'bg-gray-600' : 'hover:bg-gray-700'}`}
+              >
+                {zone.name} <span className="text-gray-400">{zone.width} x {zone.depth}</span>
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+      
+      {/* Picked zone */}
+      {selectedZone && (
+        <div className="border-t border-gray-700 pt-2">
+          <div className="flex justify-between items-center mb-2">
+            <input
+              key={`name-${selectedZone.id}-${selectedZone.name}`}
+              type="text"
+              defaultValue={selectedZone.name}
+              onBlur={(e) => handleNameChange(selectedZone, e.target.value)}
+              onKeyDown={(e) => e.key === 'Enter' && e.currentTarget.blur()}
+              className={`flex-1 mr-2 ${inputClass}`}
+            />
+            <button
+              onClick={() => handleDelete(selectedZone)}
+              className="p-1 text-gray-400 hover:text-red-400"
+              title="Delete Keep-out Zone"
+            >
+              <Trash size={16} />
+            </button>
+          </div>
+          
+          <div className="flex items-center space-x-2">
+            <label className="text-gray-300">Width</label>
+            <input
+              key={`width-${selectedZone.id}-${selectedZone.width}`}
+              type="number"
+              defaultValue={selectedZone.width}
+              min={1}
+              onBlur={(e) => handleSizeChange(selectedZone, 'width', e.target.value)}
+              onKeyDown={(e) => e.key === 'Enter' && e.currentTarget.blur()}
+              className={`w-16 ${inputClass}`}
+            />
+            <label className="text-gray-300">Depth</label>
+            <input
+              key={`depth-${selectedZone.id}-${selectedZone.depth}`}
+              type="number"
+              defaultValue={selectedZone.depth}
+              min={1}
+              onBlur={(e) => handleSizeChange(selectedZone, 'depth', e.target.value)}
+              onKeyDown={(e) => e.key === 'Enter' && e.currentTarget.blur()}
+              className={`w-16 ${inputClass}`}
+            />
+          </div>
+          <p className="text-gray-500 text-xs mt-1">At {selectedZone.x}, {selectedZone.y}</p>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default KeepOutToolPanel;
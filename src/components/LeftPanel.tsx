@@ -1,6 +1,11 @@
 import { useState } from 'react';
 import { PlusIcon, PencilIcon, DownloadIcon, X } from 'lucide-react';
 import { useDesignStore, FloorPlan } from '../store/designStore';
+import { downloadFile, exportFileStem } from '../utils/download';
+import { buildFloorPlanGlb } from '../utils/glbExport';
+import { buildBillOfMaterials, toCsv } from '../utils/billOfMaterials';
+import { buildXlsx } from '../utils/xlsx';
+import { getActiveLevel, sortLevels } from '../utils/levels';
 
 interface LeftPanelProps {
   isOpen: boolean;
@@ -12,13 +17,18 @@ const LeftPanel = ({ isOpen, onClose }: LeftPanelProps) => {
   const [newFloorPlanName, setNewFloorPlanName] = useState('');
   const [isEditingName, setIsEditingName] = useState<string | null>(null);
   const [editedName, setEditedName] = useState('');
+  const [exportMenuFor, setExportMenuFor] = useState<string | null>(null);
+  const [exportLevelId, setExportLevelId] = useState<string | null>(null);
   
   const floorPlans = useDesignStore((state) => state.floorPlans);
   const activeFloorPlanId = useDesignStore((state) => state.activeFloorPlanId);
+  const activeLevelId = useDesignStore((state) => state.activeLevelId);
   const addFloorPlan = useDesignStore((state) => state.addFloorPlan);
   const setActiveFloorPlan = useDesignStore((state) => state.setActiveFloorPlan);
   const updateFloorPlan = useDesignStore((state) => state.updateFloorPlan);
   const exportFloorPlan = useDesignStore((state) => state.exportFloorPlan);
+  const exportFloorPlanSvg = useDesignStore((state) => state.exportFloorPlanSvg);
+  const exportFloorPlanDxf = useDesignStore((state) => state.exportFloorPlanDxf);
   
   const handleAddFloorPlan = () => {
     if (newFloorPlanName.trim()) {
@@ -43,22 +53,76 @@ const LeftPanel = ({ isOpen, onClose }: LeftPanelProps) => {
   
   const handleExport = (id: string) => {
     const jsonData = exportFloorPlan(id);
+    downloadFile(jsonData, 'application/json', `${exportFileStem()}.json`);
+  };
+  
+  // Level drawn by the 2D exports, which show one storey at a time; the level being
+  // edited unless another one is picked in the export menu
+  const getExportLevel = (plan: FloorPlan) =>
+    plan.levels.find(level => level.id === exportLevelId) ?? getActiveLevel(plan, activeLevelId);
+  
+  const handleExportSvg = (id: string) => {
+    const floorPlan = floorPlans.find(plan => plan.id === id);
+    if (!floorPlan) return;
     
-    // Create a blob and trigger download
-    const blob = new Blob([jsonData], { type: 'application/json' });
-    const url = URL.createObjectURL(blob);
+    const svgData = exportFloorPlanSvg(id, getExportLevel(floorPlan).id);
+    downloadFile(svgData, 'image/svg+xml', `${exportFileStem()}.svg`);
+  };
+  
+  const handleExportDxf = (id: string) => {
+    const floorPlan = floorPlans.find(plan => plan.id === id);
+    if (!floorPlan) return;
     
-    const a = document.createElement('a');
-    a.href = url;
-    a.download = `floorplan-${new Date().toISOString().slice(0, 10)}.json`;
-    document.body.appendChild(a);
-    a.click();
+    const dxfData = exportFloorPlanDxf(id, getExportLevel(floorPlan).id);
+    downloadFile(dxfData, 'application/dxf', `${exportFileStem()}.dxf`);
+  };
+  
+  const handleExportGlb = async (id: string, includeGrid: boolean) => {
+    const { floorPlans, objectLibrary } = useDesignStore.getState();
+    const floorPlan = floorPlans.find(plan => plan.id === id);
+    if (!floorPlan) return;
     
-    // Clean up
-    document.body.removeChild(a);
-    URL.revokeObjectURL(url);
+    try {
+      const glbData = await buildFloorPlanGlb(floorPlan, objectLibrary, { includeGrid });
+      downloadFile(glbData, 'model/gltf-binary', `${exportFileStem()}.glb`);
+    } catch (error) {
+      console.error('GLB export failed:', error);
+    }
   };
   
+  // Placement schedule and per-object summary, as CSV files or one workbook
+  const handleExportBom = (id: string, format: 'schedule-csv' | 'summary-csv' | 'xlsx') => {
+    const { floorPlans, objectLibrary } = useDesignStore.getState();
+    const floorPlan = floorPlans.find(plan => plan.id === id);
+    if (!floorPlan) return;
+    
+    const { schedule, summary } = buildBillOfMaterials(floorPlan, objectLibrary);
+    if (format === 'schedule-csv') {
+      downloadFile(toCsv(schedule), 'text/csv', `${exportFileStem()}-schedule.csv`);
+    } else if (format === 'summary-csv') {
+      downloadFile(toCsv(summary), 'text/csv', `${exportFileStem()}-summary.csv`);
+    } else {
+      const workbook = buildXlsx([
+        { name: 'Placement Schedule', rows: schedule },
+        { name: 'Summary', rows: summary }
+      ]);
+      downloadFile(workbook, 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet', `${exportFileStem()}-bom.xlsx`);
+    }
+    console.log(`[INFO] Exported bill of materials for ${floorPlan.name} with ${schedule.length - 1} placements`);
+  };
+  
+  // Formats offered in a floor plan's export menu
+  const exportFormats = [
+    { label: 'JSON', title: 'Floor plan file for re-importing', run: handleExport },
+    { label: 'SVG', title: 'Dimensioned 2D drawing of one level', run: handleExportSvg },
+    { label: 'DXF', title: 'CAD drawing of one level', run: handleExportDxf },
+    { label: 'GLB', title: '3D scene', run: (id: string) => handleExportGlb(id, false) },
+    { label: 'GLB + grid', title: '3D scene with the ground plane', run: (id: string) => handleExportGlb(id, true) },
+    { label: 'BOM XLSX', title: 'Placement schedule and summary workbook', run: (id: string) => handleExportBom(id, 'xlsx') },
+    { label: 'Schedule CSV', title: 'One row per placed object', run: (id: string) => handleExportBom(id, 'schedule-csv') },
+    { label: 'Summary CSV', title: 'Counts and areas per object type', run: (id: string) => handleExportBom(id, 'summary-csv') }
+  ];
+  
   return (
     <div 
       className={`fixed top-0 left-0 h-full bg-gray-800 text-white shadow-lg transition-transform duration-300 transform z-10 
@@ -122,7 +186,7 @@ const LeftPanel = ({ isOpen, onClose }: LeftPanelProps) => {
           {floorPlans.map((plan) => (
             <div 
               key={plan.id}
-              className={`p-3 rounded flex items-center justify-between ${
+              className={`p-3 rounded flex flex-wrap items-center justify-between ${
                 activeFloorPlanId === plan.id ? 'bg-gray-900' : 'bg-gray-700 hover:bg-gray-600'
               }`}
               onClick={() => setActiveFloorPlan(plan.id)}
@@ -155,7 +219,8 @@ const LeftPanel = ({ isOpen, onClose }: LeftPanelProps) => {
                 <button
                   onClick={(e) => {
                     e.stopPropagation();
-                    handleExport(plan.id);
+                    setExportMenuFor(exportMenuFor === plan.id ? null : plan.id);
+                    setExportLevelId(null);
                   }}
                   className="p-1 rounded hover:bg-gray-600"
                   title="Export"
@@ -163,6 +228,43 @@ const LeftPanel = ({ isOpen, onClose }: LeftPanelProps) => {
                   <DownloadIcon size={16} />
                 </button>
               </div>
+              
+              {/* Export formats */}
+              {exportMenuFor === plan.id && (
+                <div className="w-full flex flex-wrap gap-1 mt-2">
+                  {plan.levels.length > 1 && (
+                    <label
+                      className="w-full flex items-center text-xs text-gray-300"
+                      onClick={(e) => e.stopPropagation()}
+                    >
+                      SVG and DXF level
+                      <select
+                        value={getExportLevel(plan).id}
+                        onChange={(e) => setExportLevelId(e.target.value)}
+                        className="ml-2 p-1 bg-gray-800 border border-gray-600 rounded"
+                      >
+                        {sortLevels(plan.levels).map(level => (
+                          <option key={level.id} value={level.id}>{level.name}</option>
+                        ))}
+                      </select>
+                    </label>
+                  )}
+                  {exportFormats.map(format => (
+                    <button
+                      key={format.label}
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        format.run(plan.id);
+                        setExportMenuFor(null);
+                      }}
+                      className="py-1 px-2 text-xs bg-gray-600 hover:bg-gray-500 rounded"
+                      title={format.title}
+                    >
+                      {format.label}
+                    </button>
+                  ))}
+                </div>
+              )}
             </div>
           ))}
         </div>
@@ -0,0 +1,187 @@
+import { useState } from 'react';
+import { X, Trash, PlusIcon } from 'lucide-react';
+import { useDesignStore, FloorPlan } from '../store/designStore';
+import { sortLevels } from '../utils/levels';
+
+interface LevelsModalProps {
+  floorPlan: FloorPlan;
+  onClose: () => void;
+}
+
+// Highest elevation a level can be given, in grid units
+const MAX_ELEVATION = 500;
+
+// Add, rename, raise or remove the levels of a floor plan. Edits are saved when a field
+// loses focus, so typing doesn't create an undo step per keystroke.
+const LevelsModal = ({ floorPlan, onClose }: LevelsModalProps) => {
+  const [newName, setNewName] = useState('');
+  const [newElevation, setNewElevation] = useState(0);
+  // Level whose deletion is waiting for confirmation because objects stand on it
+  const [confirmingDelete, setConfirmingDelete] = useState<string | null>(null);
+  
+  const addLevel = useDesignStore((state) => state.addLevel);
+  const updateLevel = useDesignStore((state) => state.updateLevel);
+  const deleteLevel = useDesignStore((state) => state.deleteLevel);
+  
+  const levels = sortLevels(floorPlan.levels);
+  const objectCount = (levelId: string) => floorPlan.objects.filter(placed => placed.levelId === levelId).length;
+  
+  const parseElevation = (value: string) => {
+    const parsed = parseInt(value);
+    return !isNaN(parsed) && parsed >= 0 && parsed <= MAX_ELEVATION ? parsed : null;
+  };
+  
+  const handleNameCommit = (levelId: string, current: string, value: string) => {
+    if (value.trim() && value.trim() !== current) {
+      updateLevel(floorPlan.id, levelId, { name: value.trim() });
+    }
+  };
+  
+  const handleElevationCommit = (levelId: string, current: number, value: string) => {
+    const elevation = parseElevation(value);
+    if (elevation !== null && elevation !== current) {
+      updateLevel(floorPlan.id, levelId, { elevation });
+      console.log(`[INFO] Moved level ${levelId} to elevation ${elevation}`);
+    }
+  };
+  
+  const handleDelete = (levelId: string) => {
+    if (objectCount(levelId) > 0 && confirmingDelete !== levelId) {
+      setConfirmingDelete(levelId);
+      return;
+    }
+    deleteLevel(floorPlan.id, levelId);
+    setConfirmingDelete(null);
+    console.log(`[INFO] Deleted level ${levelId} from floor plan ${floorPlan.name}`);
+  };
+  
+  const handleAdd = () => {
+    if (!newName.trim()) return;
+    addLevel(floorPlan.id, newName.trim(), newElevation);
+    console.log(`[INFO] Added level ${newName.trim()} at elevation ${newElevation}`);
+    setNewName('');
+  };
+  
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-gray-800 rounded-lg shadow-xl p-6 w-full max-w-md">
+        <div className="flex justify-between items-center mb-4">
+          <h2 className="text-xl font-bold text-white">Levels of {floorPlan.name}</h2>
+          <button
+            onClick={onClose}
+            className="text-gray-400 hover:text-white"
+          >
+            <X size={20} />
+          </button>
+        </div>
+        
+        <div className="flex text-xs text-gray-400 mb-1">
+          <span className="flex-1">Name</span>
+          <span className="w-20 ml-2">Elevation</span>
+          <span className="w-20 ml-2">Objects</span>
+          <span className="w-8" />
+        </div>
+        
+        <ul className="mb-4 max-h-64 overflow-y-auto">
+          {levels.map(level => (
+            <li key={level.id} className="mb-2">
+              <div className="flex items-center">
+                {/* Keyed by the saved value so the field resets if an edit is rejected or undone */}
+                <input
+                  key={`name-${level.name}`}
+                  type="text"
+                  defaultValue={level.name}
+                  onBlur={(e) => handleNameCommit(level.id, level.name, e.target.value)}
+                  onKeyDown={(e) => e.key === 'Enter' && e.currentTarget.blur()}
+                  className="flex-1 min-w-0 p-1 bg-gray-700 border border-gray-600 rounded text-white text-sm"
+                  maxLength={50}
+                />
+                <input
+                  key={`elevation-${level.elevation}`}
+                  type="number"
+                  defaultValue={level.elevation}
+                  min={0}
+                  max={MAX_ELEVATION}
+                  onBlur={(e) => handleElevationCommit(level.id, level.elevation, e.target.value)}
+                  onKeyDown={(e) => e.key === 'Enter' && e.currentTarget.blur()}
+                  className="w-20 ml-2 p-1 bg-gray-700 border border-gray-600 rounded text-white text-sm"
+                />
+                <span className="w-20 ml-2 text-sm text-gray-300">{objectCount(level.id)}</span>
+                <button
+                  onClick={() => handleDelete(level.id)}
+                  disabled={levels.length === 1}
+                  className="w-8 p-1 text-gray-400 hover:text-red-400 disabled:opacity-40 disabled:hover:text-gray-400"
+                  title={levels.length === 1 ? 'A floor plan needs at least one level' : 'Delete Level'}
+                >
+                  <Trash size={16} />
+                </button>
+              </div>
+              {confirmingDelete === level.id && (
+                <div className="flex items-center justify-between mt-1 text-sm text-red-400">
+                  <span>Delete {level.name} and its {objectCount(level.id)} objects?</span>
+                  <span>
+                    <button
+                      onClick={() => setConfirmingDelete(null)}
+                      className="py-1 px-2 bg-gray-700 hover:bg-gray-600 rounded text-white mr-2"
+                    >
+                      Keep
+                    </button>
+                    <button
+                      onClick={() => handleDelete(level.id)}
+                      className="py-1 px-2 bg-red-700 hover:bg-red-600 rounded text-white"
+                    >
+                      Delete
+                    </button>
+                  </span>
+                </div>
+              )}
+            </li>
+          ))}
+        </ul>
+        
+        {/* New level */}
+        <div className="flex items-center mb-4">
+          <input
+            type="text"
+            value={newName}
+            onChange={(e) => setNewName(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && handleAdd()}
+            className="flex-1 min-w-0 p-1 bg-gray-700 border border-gray-600 rounded text-white text-sm"
+            placeholder="New level, e.g. Mezzanine"
+            maxLength={50}
+          />
+          <input
+            type="number"
+            value={newElevation}
+            min={0}
+            max={MAX_ELEVATION}
+            onChange={(e) => {
+              const elevation = parseElevation(e.target.value);
+              if (elevation !== null) setNewElevation(elevation);
+            }}
+            className="w-20 ml-2 p-1 bg-gray-700 border border-gray-600 rounded text-white text-sm"
+          />
+          <button
+            onClick={handleAdd}
+            disabled={!newName.trim()}
+            className="ml-2 p-1 bg-gray-600 hover:bg-gray-500 rounded text-white disabled:opacity-40"
+            title="Add Level"
+          >
+            <PlusIcon size={20} />
+          </button>
+        </div>
+        
+        <div className="flex justify-end">
+          <button
+            onClick={onClose}
+            className="py-2 px-4 bg-gray-600 hover:bg-gray-500 rounded text-white"
+          >
+            Done
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default LevelsModal;
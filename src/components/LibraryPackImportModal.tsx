@@ -0,0 +1,177 @@
+import { useState, useRef } from 'react';
+import { X, Upload } from 'lucide-react';
+import { useDesignStore } from '../store/designStore';
+import { formatSchemaError } from '../utils/floorPlanSchema';
+import {
+  parseLibraryPack,
+  planLibraryPackImport,
+  defaultResolution,
+  PackEntry,
+  PackConflictResolution
+} from '../utils/libraryPack';
+
+interface LibraryPackImportModalProps {
+  onClose: () => void;
+}
+
+const LibraryPackImportModal = ({ onClose }: LibraryPackImportModalProps) => {
+  const [fileName, setFileName] = useState('');
+  const [error, setError] = useState('');
+  const [validationErrors, setValidationErrors] = useState<string[]>([]);
+  const [packName, setPackName] = useState('');
+  const [entries, setEntries] = useState<PackEntry[]>([]);
+  const [resolutions, setResolutions] = useState<PackConflictResolution[]>([]);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  
+  const applyLibraryPackImport = useDesignStore((state) => state.applyLibraryPackImport);
+  
+  const handleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    
+    setError('');
+    setValidationErrors([]);
+    setEntries([]);
+    setFileName(file.name);
+    
+    const reader = new FileReader();
+    reader.onload = (event) => {
+      if (!event.target?.result) return;
+      
+      // Conflicts are worked out now; nothing is changed until confirmed
+      const result = parseLibraryPack(event.target.result.toString());
+      if (!result.ok) {
+        console.error('Library pack validation failed:', result.errors);
+        setError('This file is not a valid library pack:');
+        setValidationErrors(result.errors.map(formatSchemaError));
+        return;
+      }
+      
+      const planned = planLibraryPackImport(result.pack, useDesignStore.getState().objectLibrary);
+      setPackName(result.pack.name);
+      setEntries(planned);
+      setResolutions(planned.map(defaultResolution));
+    };
+    reader.onerror = () => {
+      setError('Failed to read the file.');
+    };
+    reader.readAsText(file);
+  };
+  
+  const setResolution = (index: number, resolution: PackConflictResolution) => {
+    setResolutions(current => current.map((value, i) => (i === index ? resolution : value)));
+  };
+  
+  const handleConfirmImport = () => {
+    applyLibraryPackImport(entries, resolutions);
+    onClose();
+  };
+  
+  const newEntries = entries.filter(entry => !entry.existing);
+  const conflictIndexes = entries.flatMap((entry, index) => (entry.existing ? [index] : []));
+  
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-gray-800 rounded-lg shadow-xl p-6 w-full max-w-lg">
+        <div className="flex justify-between items-center mb-4">
+          <h2 className="text-xl font-bold text-white">Import Library Pack</h2>
+          <button
+            onClick={onClose}
+            className="text-gray-400 hover:text-white"
+          >
+            <X size={20} />
+          </button>
+        </div>
+        
+        <div className="border-2 border-dashed border-gray-600 rounded-lg p-6 text-center mb-4">
+          <Upload className="mx-auto text-gray-400 mb-2" size={32} />
+          <p className="text-gray-300 mb-4">{fileName || 'Choose a library pack JSON file'}</p>
+          <button
+            onClick={() => fileInputRef.current?.click()}
+            className="py-2 px-4 bg-gray-600 hover:bg-gray-500 rounded text-white"
+          >
+            Browse Files
+          </button>
+          <input
+            ref={fileInputRef}
+            type="file"
+            className="hidden"
+            accept=".json"
+            onChange={handleChange}
+          />
+        </div>
+        
+        {error && (
+          <p className="text-red-500 text-sm mb-2">{error}</p>
+        )}
+        
+        {validationErrors.length > 0 && (
+          <ul className="text-red-400 text-xs mb-4 max-h-32 overflow-y-auto list-disc pl-5">
+            {validationErrors.map((message, index) => (
+              <li key={index}>{message}</li>
+            ))}
+          </ul>
+        )}
+        
+        {/* Pre-import report with a choice per conflicting object */}
+        {entries.length > 0 && (
+          <div className="bg-gray-900 rounded p-3 mb-4 text-sm text-gray-300 max-h-80 overflow-y-auto">
+            <p className="text-white font-bold mb-2">{packName || 'Library pack'}</p>
+            <p>
+              {newEntries.length} new objects
+              {newEntries.length > 0 && `: ${newEntries.map(entry => entry.imported.name).join(', ')}`}
+            </p>
+            
+            {conflictIndexes.length > 0 && (
+              <div className="mt-2">
+                <p className="text-white mb-1">Objects already in the library:</p>
+                {conflictIndexes.map((index) => {
+                  const { imported, existing, identical, renamedName } = entries[index];
+                  return (
+                    <div key={imported.id} className="border-t border-gray-700 py-2">
+                      <p className="text-white">{imported.name}</p>
+                      <p className="text-xs text-gray-400 mb-1">
+                        {identical
+                          ? 'Identical to the library object'
+                          : `${imported.dimensions.x} x ${imported.dimensions.y} x ${imported.dimensions.z} ${imported.color} in pack, ` +
+                            `${existing!.dimensions.x} x ${existing!.dimensions.y} x ${existing!.dimensions.z} ${existing!.color} in library`}
+                      </p>
+                      <select
+                        value={resolutions[index]}
+                        onChange={(e) => setResolution(index, e.target.value as PackConflictResolution)}
+                        className="w-full p-1 bg-gray-700 border border-gray-600 rounded text-white"
+                      >
+                        <option value="skip">Skip, keep the library object</option>
+                        <option value="rename">Add as "{renamedName}"</option>
+                        <option value="replace">Replace the library object (placed instances change too)</option>
+                      </select>
+                    </div>
+                  );
+                })}
+              </div>
+            )}
+          </div>
+        )}
+        
+        <div className="flex justify-end">
+          <button
+            onClick={onClose}
+            className="py-2 px-4 bg-gray-700 hover:bg-gray-600 rounded text-white mr-2"
+          >
+            Cancel
+          </button>
+          {entries.length > 0 && (
+            <button
+              onClick={handleConfirmImport}
+              className="py-2 px-4 bg-gray-600 hover:bg-gray-500 rounded text-white"
+            >
+              Import
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default LibraryPackImportModal;
@@ -0,0 +1,204 @@
+import { useEffect } from 'react';
+import { X, Trash, Pin } from 'lucide-react';
+import { useDesignStore } from '../store/designStore';
+import { useToolStore } from '../store/toolStore';
+import { getActiveLevel } from '../utils/levels';
+import { MeasureMode, describeMeasurement } from '../utils/measure';
+import { LENGTH_UNITS, LengthUnit } from '../utils/units';
+
+const MODES: Array<{ mode: MeasureMode; label: string; hint: string }> = [
+  { mode: 'distance', label: 'Distance', hint: 'Click two points to measure the distance between them.' },
+  { mode: 'rectangle', label: 'Rectangle', hint: 'Click two opposite corners to measure an area.' },
+  { mode: 'polygon', label: 'Polygon', hint: 'Click each corner, then click the first corner again or press Enter.' }
+];
+
+// Settings and readings of the measure tool, and the measurements kept on the active level.
+// Points snap to the corners and edges of objects and walls near the pointer.
+const MeasureToolPanel = () => {
+  const measureMode = useToolStore((state) => state.measureMode);
+  const measurePoints = useToolStore((state) => state.measurePoints);
+  const measureResult = useToolStore((state) => state.measureResult);
+  const keepMeasurements = useToolStore((state) => state.keepMeasurements);
+  const setMeasureMode = useToolStore((state) => state.setMeasureMode);
+  const finishMeasurement = useToolStore((state) => state.finishMeasurement);
+  const cancelMeasurement = useToolStore((state) => state.cancelMeasurement);
+  const keepMeasurement = useToolStore((state) => state.keepMeasurement);
+  const setKeepMeasurements = useToolStore((state) => state.setKeepMeasurements);
+  const setActiveTool = useToolStore((state) => state.setActiveTool);
+  
+  const activeFloorPlan = useDesignStore((state) => {
+    const activeId = state.activeFloorPlanId;
+    return activeId ? state.floorPlans.find(plan => plan.id === activeId) : null;
+  });
+  const activeLevelId = useDesignStore((state) => state.activeLevelId);
+  const unitSettings = useDesignStore((state) => state.unitSettings);
+  const setUnitSettings = useDesignStore((state) => state.setUnitSettings);
+  const deleteMeasurement = useDesignStore((state) => state.deleteMeasurement);
+  
+  const activeLevel = activeFloorPlan ? getActiveLevel(activeFloorPlan, activeLevelId) : null;
+  const keptMeasurements = (activeFloorPlan?.measurements ?? []).filter(measurement => measurement.levelId === activeLevel?.id);
+  const canClosePolygon = measureMode === 'polygon' && measurePoints.length >= 3;
+  
+  // Enter closes a polygon and Escape drops the measurement in progress
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      const target = e.target as HTMLElement;
+      if (target.tagName === 'INPUT' || target.tagName === 'SELECT') return;
+      
+      if (e.key === 'Enter' && canClosePolygon) {
+        finishMeasurement();
+      } else if (e.key === 'Escape') {
+        cancelMeasurement();
+      }
+    };
+    
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [canClosePolygon, finishMeasurement, cancelMeasurement]);
+  
+  const handleGridUnitLengthChange = (value: string) => {
+    const parsed = parseFloat(value);
+    if (!isNaN(parsed) && parsed > 0) {
+      setUnitSettings({ gridUnitLength: parsed });
+    }
+  };
+  
+  const handleDeleteMeasurement = (measurementId: string) => {
+    if (!activeFloorPlan) return;
+    deleteMeasurement(activeFloorPlan.id, measurementId);
+    console.log(`[INFO] Deleted measurement ${measurementId}`);
+  };
+  
+  const inputClass = 'p-1 bg-gray-900 border border-gray-600 rounded text-sm';
+  
+  return (
+    <div className="absolute bottom-4 left-4 w-80 p-3 bg-gray-800 rounded-lg shadow-lg text-sm">
+      <div className="flex justify-between items-center mb-2">
+        <span className="font-bold">Measure</span>
+        <button
+          onClick={() => setActiveTool('select')}
+          className="text-gray-400 hover:text-white"
+          title="Stop Measuring"
+        >
+          <X size={18} />
+        </button>
+      </div>
+      
+      <div className="flex mb-2">
+        {MODES.map(({ mode, label }) => (
+          <button
+            key={mode}
+            onClick={() => setMeasureMode(mode)}
+            className={`flex-1 py-1 first:rounded-l last:rounded-r ${measureMode === mode ? 'bg-gray-500' : 'bg-gray-700 hover:bg-gray-600'}`}
+          >
+            {label}
+          </button>
+        ))}
+      </div>
+      <p className="text-gray-400 text-xs mb-2">
+        {MODES.find(({ mode }) => mode === measureMode)?.hint} Points snap to object and wall corners and edges.
+      </p>
+      
+      {/* Polygon in progress */}
+      {measureMode === 'polygon' && measurePoints.length > 0 && (
+        <div className="flex justify-between items-center mb-2">
+          <span className="text-gray-300">{measurePoints.length} corners</span>
+          <span>
+            <button
+              onClick={cancelMeasurement}
+              className="py-1 px-2 bg-gray-700 hover:bg-gray-600 rounded mr-2"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={finishMeasurement}
+              disabled={!canClosePolygon}
+              className="py-1 px-2 bg-gray-600 hover:bg-gray-500 rounded disabled:opacity-40"
+            >
+              Close Polygon
+            </button>
+          </span>
+        </div>
+      )}
+      
+      {/* Last result */}
+      {measureResult && (
+        <div className="flex justify-between items-center mb-2 p-2 bg-gray-900 rounded">
+          <span className="font-bold">{describeMeasurement(measureResult.measurement, unitSettings)}</span>
+          {!measureResult.keptId && (
+            <button
+              onClick={keepMeasurement}
+              className="p-1 text-gray-400 hover:text-white"
+              title="Keep as Annotation"
+            >
+              <Pin size={16} />
+            </button>
+          )}
+        </div>
+      )}
+      
+      <label className="flex items-center mb-2 text-gray-300">
+        <input
+          type="checkbox"
+          checked={keepMeasurements}
+          onChange={(e) => setKeepMeasurements(e.target.checked)}
+          className="mr-2"
+        />
+        Keep measurements as annotations
+      </label>
+      
+      {/* Units */}
+      <div className="flex items-center space-x-2 mb-2">
+        <label className="text-gray-300">Units</label>
+        <select
+          value={unitSettings.unit}
+          onChange={(e) => setUnitSettings({ unit: e.target.value as LengthUnit })}
+          className={inputClass}
+        >
+          {(Object.keys(LENGTH_UNITS) as LengthUnit[]).map(unit => (
+            <option key={unit} value={unit}>{LENGTH_UNITS[unit].label}</option>
+          ))}
+        </select>
+        {unitSettings.unit !== 'grid' && (
+          <>
+            <label className="text-gray-300">1 unit =</label>
+            <input
+              key={`grid-unit-${unitSettings.gridUnitLength}`}
+              type="number"
+              defaultValue={unitSettings.gridUnitLength}
+              min={0}
+              step="any"
+              onBlur={(e) => handleGridUnitLengthChange(e.target.value)}
+              onKeyDown={(e) => e.key === 'Enter' && e.currentTarget.blur()}
+              className={`w-16 ${inputClass}`}
+            />
+            <span className="text-gray-300">m</span>
+          </>
+        )}
+      </div>
+      
+      {/* Annotations on the active level */}
+      {keptMeasurements.length > 0 && (
+        <div className="border-t border-gray-700 pt-2">
+          <p className="text-gray-300 mb-1">Kept on {activeLevel?.name}</p>
+          <ul className="max-h-32 overflow-y-auto">
+            {keptMeasurements.map(measurement => (
+              <li key={measurement.id} className="flex justify-between items-center">
+                <span>{describeMeasurement(measurement, unitSettings)}</span>
+                <button
+                  onClick={() => handleDeleteMeasurement(measurement.id)}
+                  className="p-1 text-gray-400 hover:text-red-400"
+                  title="Delete Measurement"
+                >
+                  <Trash size={14} />
+                </button>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default MeasureToolPanel;
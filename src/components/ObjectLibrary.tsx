@@ -1,8 +1,12 @@
 import { useState } from 'react';
-import { X, Plus, Copy, Trash } from 'lucide-react';
+import { X, Plus, Copy, Trash, Download, Upload, Pencil, Search } from 'lucide-react';
 import { useDesignStore, FactoryObject } from '../store/designStore';
 import ObjectPreview from './ObjectPreview';
 import CreateObjectModal from './CreateObjectModal';
+import LibraryPackImportModal from './LibraryPackImportModal';
+import DeleteObjectModal from './DeleteObjectModal';
+import { downloadFile, exportFileStem } from '../utils/download';
+import { filterLibrary, getLibraryCategories, LibrarySort, UNCATEGORIZED } from '../utils/librarySearch';
 
 interface ObjectLibraryProps {
   isOpen: boolean;
@@ -12,10 +16,49 @@ interface ObjectLibraryProps {
 
 const ObjectLibrary = ({ isOpen, onClose, onImportObject }: ObjectLibraryProps) => {
   const [showCreateModal, setShowCreateModal] = useState(false);
+  const [showPackImport, setShowPackImport] = useState(false);
+  const [editingObject, setEditingObject] = useState<FactoryObject | null>(null);
+  const [deletingObject, setDeletingObject] = useState<FactoryObject | null>(null);
+  // Objects picked for a library pack; none picked exports the whole library
+  const [packSelection, setPackSelection] = useState<string[]>([]);
+  const [query, setQuery] = useState('');
+  // Category to show, null for all
+  const [category, setCategory] = useState<string | null>(null);
+  const [sort, setSort] = useState<LibrarySort>('name');
   
   const objectLibrary = useDesignStore((state) => state.objectLibrary);
   const duplicateObject = useDesignStore((state) => state.duplicateObject);
   const deleteObject = useDesignStore((state) => state.deleteObject);
+  const exportLibraryPack = useDesignStore((state) => state.exportLibraryPack);
+  const floorPlans = useDesignStore((state) => state.floorPlans);
+  const recentObjectIds = useDesignStore((state) => state.recentObjectIds);
+  
+  const categories = getLibraryCategories(objectLibrary);
+  const visibleObjects = filterLibrary(objectLibrary, { query, category, sort }, recentObjectIds);
+  
+  // Ignore picks of objects deleted since
+  const selectedIds = packSelection.filter(id => objectLibrary.some(obj => obj.id === id));
+  
+  const togglePackSelection = (id: string) => {
+    setPackSelection(current => (current.includes(id) ? current.filter(other => other !== id) : [...current, id]));
+  };
+  
+  // Objects still placed somewhere need a decision about their instances first
+  const handleDelete = (object: FactoryObject) => {
+    const inUse = floorPlans.some(plan => plan.objects.some(placed => placed.objectId === object.id));
+    if (inUse) {
+      setDeletingObject(object);
+    } else {
+      deleteObject(object.id);
+    }
+  };
+  
+  const handleExportPack = () => {
+    const ids = selectedIds.length > 0 ? selectedIds : objectLibrary.map(obj => obj.id);
+    const pack = exportLibraryPack('Object library', ids);
+    downloadFile(pack, 'application/json', `${exportFileStem('library')}.json`);
+    console.log(`[INFO] Exported library pack with ${ids.length} objects`);
+  };
   
   if (!isOpen) return null;
   
@@ -24,12 +67,64 @@ const ObjectLibrary = ({ isOpen, onClose, onImportObject }: ObjectLibraryProps)
       <div className="container mx-auto px-4 py-6">
         <div className="flex justify-between items-center mb-6">
           <h2 className="text-xl font-bold text-white">Object Library</h2>
-          <button 
-            onClick={onClose}
-            className="p-2 rounded-full bg-gray-800 hover:bg-gray-700 text-white"
+          <div className="flex items-center space-x-2">
+            <button
+              onClick={() => setShowPackImport(true)}
+              className="flex items-center py-2 px-3 rounded bg-gray-800 hover:bg-gray-700 text-white text-sm"
+              title="Add objects from a library pack file"
+            >
+              <Upload size={16} className="mr-2" />
+              Import Pack
+            </button>
+            <button
+              onClick={handleExportPack}
+              className="flex items-center py-2 px-3 rounded bg-gray-800 hover:bg-gray-700 text-white text-sm"
+              title="Save objects as a library pack to share"
+            >
+              <Download size={16} className="mr-2" />
+              {selectedIds.length > 0 ? `Export Selected (${selectedIds.length})` : 'Export All'}
+            </button>
+            <button 
+              onClick={onClose}
+              className="p-2 rounded-full bg-gray-800 hover:bg-gray-700 text-white"
+            >
+              <X size={24} />
+            </button>
+          </div>
+        </div>
+        
+        {/* Search, category filters and sorting */}
+        <div className="flex flex-wrap items-center gap-2 mb-4">
+          <div className="relative flex-1 min-w-[12rem]">
+            <Search size={16} className="absolute left-2 top-1/2 transform -translate-y-1/2 text-gray-400" />
+            <input
+              type="text"
+              value={query}
+              onChange={(e) => setQuery(e.target.value)}
+              className="w-full py-2 pl-8 pr-2 bg-gray-800 border border-gray-700 rounded text-white"
+              placeholder="Search name, category, tags, manufacturer or model"
+            />
+          </div>
+          <select
+            value={sort}
+            onChange={(e) => setSort(e.target.value as LibrarySort)}
+            className="p-2 bg-gray-800 border border-gray-700 rounded text-white"
           >
-            <X size={24} />
-          </button>
+            <option value="name">Sort by name</option>
+            <option value="footprint">Sort by footprint</option>
+            <option value="recent">Sort by recent use</option>
+          </select>
+        </div>
+        <div className="flex flex-wrap gap-2 mb-6">
+          {[null, ...categories].map(option => (
+            <button
+              key={option ?? 'all'}
+              onClick={() => setCategory(option)}
+              className={`py-1 px-3 rounded-full text-sm text-white ${category === option ? 'bg-gray-600' : 'bg-gray-800 hover:bg-gray-700'}`}
+            >
+              {option === null ? 'All' : option === UNCATEGORIZED ? 'Uncategorized' : option}
+            </button>
+          ))}
         </div>
         
         <div className="grid grid-cols-1 sm:grid-cols-2 md:grid-cols-3 lg:grid-cols-4 gap-4">
@@ -43,12 +138,26 @@ const ObjectLibrary = ({ isOpen, onClose, onImportObject }: ObjectLibraryProps)
           </div>
           
           {/* Object cards */}
-          {objectLibrary.map((object) => (
+          {visibleObjects.map((object) => (
             <div key={object.id} className="bg-gray-800 rounded-lg p-4 flex flex-col h-64">
-              <div className="text-white font-bold mb-1 truncate">{object.name}</div>
-              <div className="text-gray-400 text-sm mb-2">
+              <div className="flex items-center mb-1">
+                <div className="flex-1 text-white font-bold truncate">{object.name}</div>
+                <input
+                  type="checkbox"
+                  checked={selectedIds.includes(object.id)}
+                  onChange={() => togglePackSelection(object.id)}
+                  title="Include in library pack export"
+                  className="ml-2"
+                />
+              </div>
+              <div className="text-gray-400 text-sm">
                 {object.dimensions.x} x {object.dimensions.y} x {object.dimensions.z}
               </div>
+              <div className="text-gray-500 text-xs mb-2 truncate" title={object.tags?.join(', ')}>
+                {[object.category, [object.manufacturer, object.model].filter(Boolean).join(' '), ...(object.tags ?? [])]
+                  .filter(Boolean)
+                  .join(' · ') || '\u00a0'}
+              </div>
               
               <div className="flex-1 relative mb-3">
                 <ObjectPreview object={object} />
@@ -61,6 +170,13 @@ const ObjectLibrary = ({ isOpen, onClose, onImportObject }: ObjectLibraryProps)
                 >
                   Import
                 </button>
+                <button
+                  className="py-1 px-2 bg-gray-700 hover:bg-gray-600 rounded text-white text-sm"
+                  onClick={() => setEditingObject(object)}
+                  title="Edit object"
+                >
+                  <Pencil size={16} />
+                </button>
                 <button
                   className="py-1 px-2 bg-gray-700 hover:bg-gray-600 rounded text-white text-sm"
                   onClick={() => duplicateObject(object.id)}
@@ -69,7 +185,7 @@ const ObjectLibrary = ({ isOpen, onClose, onImportObject }: ObjectLibraryProps)
                 </button>
                 <button
                   className="py-1 px-2 bg-gray-700 hover:bg-gray-600 rounded text-white text-sm"
-                  onClick={() => deleteObject(object.id)}
+                  onClick={() => handleDelete(object)}
                 >
                   <Trash size={16} />
                 </button>
@@ -85,6 +201,27 @@ const ObjectLibrary = ({ isOpen, onClose, onImportObject }: ObjectLibraryProps)
           onClose={() => setShowCreateModal(false)} 
         />
       )}
+      
+      {/* Edit object modal */}
+      {editingObject && (
+        <CreateObjectModal
+          object={editingObject}
+          onClose={() => setEditingObject(null)}
+        />
+      )}
+      
+      {/* Delete an object that is in use */}
+      {deletingObject && (
+        <DeleteObjectModal
+          object={deletingObject}
+          onClose={() => setDeletingObject(null)}
+        />
+      )}
+      
+      {/* Library pack import */}
+      {showPackImport && (
+        <LibraryPackImportModal onClose={() => setShowPackImport(false)} />
+      )}
     </div>
   );
 };
@@ -1,98 +1,183 @@
-import { useState, useEffect } from 'react';
-import { RotateCw, Check, X } from 'lucide-react';
-import { useDesignStore } from '../store/designStore';
+import { useState, useEffect, useMemo } from 'react';
+import { RotateCw, Check, X, Trash, Copy, Scissors, Grid3x3 } from 'lucide-react';
+import { useDesignStore, PlacedObjectMetadata } from '../store/designStore';
+import { usePlacementStore, GridPosition, PlacementItem } from '../store/placementStore';
+import { GRID_SIZE, snapToGrid } from '../utils/footprint';
+import { buildFloorPlanIndex, getObjectCollisionShape, isPlacementValid } from '../utils/collision';
+import { getActiveLevel } from '../utils/levels';
+import {
+  getPlacementSize,
+  indexObjects,
+  resolvePlacementItems,
+  rotatePlacementItems,
+  ResolvedPlacement
+} from '../utils/placementGroup';
 
 interface ObjectPlacementProps {
-  objectId: string;
+  // Objects to place; read once on mount, so give the component a new key to restart
+  items: PlacementItem[];
+  // Where already placed objects currently sit; omitted for new placements
+  initialPosition?: GridPosition;
   onCancel: () => void;
-  onComplete: (position: { x: number; y: number; z: number }, rotation: number) => void;
+  onComplete: (placements: ResolvedPlacement[]) => void;
+  onDelete?: () => void;
+  // Clipboard and array commands, offered for objects that are already placed
+  onCopy?: () => void;
+  onCut?: () => void;
+  onArray?: () => void;
+  // Label and serial number of a single placed object, editable while it is selected
+  metadata?: PlacedObjectMetadata;
+  onMetadataChange?: (metadata: PlacedObjectMetadata) => void;
 }
 
-const ObjectPlacement = ({ objectId, onCancel, onComplete }: ObjectPlacementProps) => {
-  const [position, setPosition] = useState({ x: 0, y: 0, z: 0 });
-  const [rotation, setRotation] = useState(0);
-  const [isValidPlacement, setIsValidPlacement] = useState(true);
+// Placement controls. The Canvas moves the ghost objects with the cursor through the
+// placement store; this component validates the position and confirms or cancels it.
+// The same controls reposition, rotate and delete objects that are already placed,
+// including whole multi-selections which move and rotate as one unit.
+const ObjectPlacement = ({
+  items,
+  initialPosition,
+  onCancel,
+  onComplete,
+  onDelete,
+  onCopy,
+  onCut,
+  onArray,
+  metadata,
+  onMetadataChange
+}: ObjectPlacementProps) => {
+  const [session] = useState(() => ({ items, initialPosition }));
+  const [label, setLabel] = useState(metadata?.label ?? '');
+  const [serialNumber, setSerialNumber] = useState(metadata?.serialNumber ?? '');
+  
+  const position = usePlacementStore((state) => state.position);
+  const currentItems = usePlacementStore((state) => state.items);
+  const isValidPlacement = usePlacementStore((state) => state.isValid);
   
   const objectLibrary = useDesignStore((state) => state.objectLibrary);
   const activeFloorPlan = useDesignStore((state) => {
     const activeId = state.activeFloorPlanId;
     return activeId ? state.floorPlans.find(plan => plan.id === activeId) : null;
   });
+  const activeLevelId = useDesignStore((state) => state.activeLevelId);
+  const levelId = activeFloorPlan ? getActiveLevel(activeFloorPlan, activeLevelId).id : null;
   
-  // Find the object from library
-  const object = objectLibrary.find(obj => obj.id === objectId);
+  const objectsById = useMemo(() => indexObjects(objectLibrary), [objectLibrary]);
+  const firstObject = objectsById.get(session.items[0]?.objectId);
   
-  // Listen for mouse/touch movements to position the object
+  // Start a placement preview and clear it when we're done. New objects start at the
+  // grid center of the active level and follow the cursor; placed objects start where they
+  // are and are dragged.
   useEffect(() => {
-    if (!object) return;
-    
-    // Initialize at grid center
-    setPosition({ x: Math.floor(2500), y: 0, z: Math.floor(2500) });
+    if (session.items.length === 0) return;
     
-    const handleMouseMove = (e: MouseEvent) => {
-      // In a real implementation, this would convert screen coordinates to grid coordinates
-      // For now we'll just use a simplified approach
-      const gridX = Math.floor(e.clientX / 20) * 20; // Snap to grid
-      const gridZ = Math.floor(e.clientY / 20) * 20; // Snap to grid
-      
-      setPosition({ x: gridX, y: 0, z: gridZ });
-      
-      // Check for collisions with existing objects
-      // This is a simplified check - real implementation would be more complex
-      const hasCollision = checkCollision(gridX, 0, gridZ, object, rotation);
-      setIsValidPlacement(!hasCollision);
-    };
+    const { startPlacement, endPlacement } = usePlacementStore.getState();
+    if (session.initialPosition) {
+      startPlacement(session.items, session.initialPosition, false);
+      console.log(`[INFO] Started moving ${session.items.length} object(s) from ${session.initialPosition.x},${session.initialPosition.y}`);
+    } else {
+      const { objectLibrary, floorPlans, activeFloorPlanId, activeLevelId } = useDesignStore.getState();
+      const floorPlan = floorPlans.find(plan => plan.id === activeFloorPlanId);
+      const elevation = floorPlan ? getActiveLevel(floorPlan, activeLevelId).elevation : 0;
+      const size = getPlacementSize(session.items, indexObjects(objectLibrary));
+      startPlacement(session.items, { ...snapToGrid({ x: GRID_SIZE / 2, y: GRID_SIZE / 2 }, size), z: elevation });
+      console.log(`[INFO] Started placement of ${session.items.length} object(s)`);
+    }
     
-    window.addEventListener('mousemove', handleMouseMove);
-    return () => window.removeEventListener('mousemove', handleMouseMove);
-  }, [object, rotation]);
+    return () => endPlacement();
+  }, [session]);
   
-  // Function to check if placement is valid (no collisions)
-  const checkCollision = (x: number, y: number, z: number, object: any, rotation: number) => {
-    if (!activeFloorPlan || !object) return false;
+  // Spatial index of the active level, rebuilt only when the plan, level or library changes
+  const placementIndex = useMemo(
+    () => activeFloorPlan && levelId ? buildFloorPlanIndex(activeFloorPlan, objectLibrary, levelId) : null,
+    [activeFloorPlan, objectLibrary, levelId]
+  );
+  
+  // Re-check validity whenever the ghost moves or rotates. The items being moved are
+  // ignored, so a group never collides with itself.
+  useEffect(() => {
+    if (!placementIndex || currentItems.length === 0) return;
     
-    // This is a placeholder - real implementation would do actual collision detection
-    // based on object dimensions and rotation
-    return false; // For now, always allow placement
-  };
+    const movingIds = currentItems.flatMap(item => item.instanceId ? [item.instanceId] : []);
+    const isValid = resolvePlacementItems(currentItems, position).every((placement) => {
+      const object = objectsById.get(placement.objectId);
+      if (!object) return false;
+      return isPlacementValid(placementIndex, getObjectCollisionShape(object, placement.position, placement.rotation), movingIds);
+    });
+    usePlacementStore.getState().setValid(isValid);
+  }, [objectsById, placementIndex, currentItems, position]);
   
-  // Rotate the object 90 degrees
+  // Rotate the whole session 90 degrees around its center
   const handleRotate = () => {
-    setRotation((prev) => (prev + 90) % 360);
+    const { items: rotated, shift } = rotatePlacementItems(currentItems, objectsById);
+    const size = getPlacementSize(rotated, objectsById);
+    const center = {
+      x: position.x + shift.x + size.width / 2,
+      y: position.y + shift.y + size.depth / 2
+    };
+    usePlacementStore.getState().setItems(rotated, { ...snapToGrid(center, size), z: position.z });
+  };
+  
+  // Save edited metadata, leaving out empty fields
+  const handleMetadataCommit = () => {
+    if (!onMetadataChange) return;
+    if (label === (metadata?.label ?? '') && serialNumber === (metadata?.serialNumber ?? '')) return;
+    
+    onMetadataChange({
+      ...(label.trim() && { label: label.trim() }),
+      ...(serialNumber.trim() && { serialNumber: serialNumber.trim() })
+    });
   };
   
   // Complete placement
   const handleComplete = () => {
-    if (isValidPlacement && object) {
-      onComplete(position, rotation);
+    if (isValidPlacement && currentItems.length > 0) {
+      console.log(`[INFO] Placing ${currentItems.length} object(s) at ${position.x},${position.y}`);
+      onComplete(resolvePlacementItems(currentItems, position));
     }
   };
   
-  if (!object) return null;
+  if (!firstObject) return null;
   
   return (
     <div className="absolute inset-0 pointer-events-none">
-      {/* Overlay showing object position */}
-      <div 
-        className={`absolute transition-colors duration-200 ${
-          isValidPlacement ? 'bg-green-500 bg-opacity-30' : 'bg-red-500 bg-opacity-30'
-        }`}
-        style={{
-          width: `${object.dimensions.x * 20}px`,
-          height: `${object.dimensions.y * 20}px`,
-          left: `${position.x}px`,
-          top: `${position.z}px`,
-          transform: `rotate(${rotation}deg)`,
-          transformOrigin: 'center',
-        }}
-      >
-        {/* Object visualization here */}
-      </div>
+      {/* Instance details for a single placed object */}
+      {onMetadataChange && (
+        <div className="fixed bottom-20 left-1/2 transform -translate-x-1/2 flex items-center space-x-2 p-2 bg-gray-800 rounded-lg shadow-lg pointer-events-auto">
+          <span className="text-sm font-bold px-1">{firstObject.name}</span>
+          <input
+            type="text"
+            value={label}
+            onChange={(e) => setLabel(e.target.value)}
+            onBlur={handleMetadataCommit}
+            onKeyDown={(e) => e.key === 'Enter' && handleMetadataCommit()}
+            className="w-32 p-1 bg-gray-900 border border-gray-600 rounded text-sm"
+            placeholder="Label"
+            maxLength={50}
+          />
+          <input
+            type="text"
+            value={serialNumber}
+            onChange={(e) => setSerialNumber(e.target.value)}
+            onBlur={handleMetadataCommit}
+            onKeyDown={(e) => e.key === 'Enter' && handleMetadataCommit()}
+            className="w-32 p-1 bg-gray-900 border border-gray-600 rounded text-sm"
+            placeholder="Serial number"
+            maxLength={50}
+          />
+        </div>
+      )}
       
       {/* Controls - these should have pointer-events-auto to be clickable */}
-      <div 
+      <div
         className="fixed bottom-4 left-1/2 transform -translate-x-1/2 flex items-center space-x-4 pointer-events-auto"
       >
+        {session.items.length > 1 && (
+          <span className="px-3 py-1 bg-gray-800 rounded-full text-sm shadow-lg">
+            {session.items.length} selected
+          </span>
+        )}
+        
         <button
           onClick={handleRotate}
           className="p-3 bg-gray-800 text-white rounded-full shadow-lg"
@@ -101,6 +186,46 @@ const ObjectPlacement = ({ objectId, onCancel, onComplete }: ObjectPlacementProp
           <RotateCw size={24} />
         </button>
         
+        {onCopy && (
+          <button
+            onClick={onCopy}
+            className="p-3 bg-gray-800 text-white rounded-full shadow-lg"
+            title="Copy (Ctrl+C)"
+          >
+            <Copy size={24} />
+          </button>
+        )}
+        
+        {onCut && (
+          <button
+            onClick={onCut}
+            className="p-3 bg-gray-800 text-white rounded-full shadow-lg"
+            title="Cut (Ctrl+X)"
+          >
+            <Scissors size={24} />
+          </button>
+        )}
+        
+        {onArray && (
+          <button
+            onClick={onArray}
+            className="p-3 bg-gray-800 text-white rounded-full shadow-lg"
+            title="Array Placement"
+          >
+            <Grid3x3 size={24} />
+          </button>
+        )}
+        
+        {onDelete && (
+          <button
+            onClick={onDelete}
+            className="p-3 bg-gray-800 text-white rounded-full shadow-lg"
+            title="Delete Object"
+          >
+            <Trash size={24} />
+          </button>
+        )}
+        
         <button
           onClick={onCancel}
           className="p-3 bg-red-600 text-white rounded-full shadow-lg"
@@ -124,4 +249,4 @@ const ObjectPlacement = ({ objectId, onCancel, onComplete }: ObjectPlacementProp
   );
 };
 
-export default ObjectPlacement; 
\ No newline at end of file
+export default ObjectPlacement;
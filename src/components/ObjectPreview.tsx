@@ -2,6 +2,7 @@ import { useEffect, useRef } from 'react';
 import * as THREE from 'three';
 import { OrbitControls } from 'three/examples/jsm/controls/OrbitControls';
 import { FactoryObject } from '../store/designStore';
+import { createObjectModel, disposeObjectModel } from '../utils/objectModel';
 
 interface ObjectPreviewProps {
   object: FactoryObject;
@@ -25,6 +26,7 @@ const ObjectPreview = ({ object }: ObjectPreviewProps) => {
     // Position camera based on object size for best view
     const maxDim = Math.max(object.dimensions.x, object.dimensions.y, object.dimensions.z);
     const distance = maxDim * 1.5;
+    camera.up.set(0, 0, 1); // Models are Z-up like the main canvas
     camera.position.set(distance, distance, distance);
     camera.lookAt(0, 0, 0);
     
@@ -38,44 +40,12 @@ const ObjectPreview = ({ object }: ObjectPreviewProps) => {
     scene.add(ambientLight);
     
     const directionalLight = new THREE.DirectionalLight(0xffffff, 0.6);
-    directionalLight.position.set(5, 10, 7.5);
+    directionalLight.position.set(5, 7.5, 10);
     scene.add(directionalLight);
     
-    // Create object model as per PRD
-    const { x, y, z } = object.dimensions;
-    
-    // Base with 0.5 units thickness
-    const baseGeometry = new THREE.BoxGeometry(x, 0.5, y);
-    const baseMaterial = new THREE.MeshStandardMaterial({ 
-      color: object.color,
-      roughness: 0.7
-    });
-    const base = new THREE.Mesh(baseGeometry, baseMaterial);
-    base.position.y = 0.25; // Half of base height
-    scene.add(base);
-    
-    // Top block 0.2 units smaller on each side
-    const topWidth = Math.max(x - 0.2, 0.1);
-    const topDepth = Math.max(y - 0.2, 0.1);
-    const topHeight = Math.max(z - 0.5, 0.1); // Remaining height
-    
-    const topGeometry = new THREE.BoxGeometry(topWidth, topHeight, topDepth);
-    const topMaterial = new THREE.MeshStandardMaterial({ 
-      color: object.color,
-      roughness: 0.5
-    });
-    const top = new THREE.Mesh(topGeometry, topMaterial);
-    top.position.y = 0.5 + topHeight / 2; // Base + half of top height
-    scene.add(top);
-    
-    // Center object at origin
-    const group = new THREE.Group();
-    group.add(base);
-    group.add(top);
-    scene.add(group);
-    
-    // Reposition to center
-    group.position.set(0, 0, 0);
+    // Create object model as per PRD, shared with the main canvas
+    const model = createObjectModel(object);
+    scene.add(model);
     
     // Add controls
     const controls = new OrbitControls(camera, renderer.domElement);
@@ -84,8 +54,9 @@ const ObjectPreview = ({ object }: ObjectPreviewProps) => {
     controls.autoRotateSpeed = 3; // Rotation speed
     
     // Render loop
+    let frameId = 0;
     const animate = () => {
-      requestAnimationFrame(animate);
+      frameId = requestAnimationFrame(animate);
       controls.update();
       renderer.render(scene, camera);
     };
@@ -105,8 +76,10 @@ const ObjectPreview = ({ object }: ObjectPreviewProps) => {
     
     // Cleanup
     return () => {
+      cancelAnimationFrame(frameId);
       window.removeEventListener('resize', handleResize);
       mountRef.current?.removeChild(renderer.domElement);
+      disposeObjectModel(model);
       renderer.dispose();
     };
   }, [object]); // Re-initialize when object changes
@@ -0,0 +1,180 @@
+import { useState } from 'react';
+import { X, Trash, PlusIcon } from 'lucide-react';
+import { useDesignStore } from '../store/designStore';
+import { useToolStore } from '../store/toolStore';
+import { generateId } from '../utils/ids';
+import { MAX_WALL_HEIGHT, MAX_WALL_THICKNESS, checkWallOpening, getWallLength } from '../utils/walls';
+
+// Settings for the wall tool and editing of the wall picked with it. Walls are drawn by
+// dragging on the Canvas; openings are cut by distance from the wall's start edge.
+const WallToolPanel = () => {
+  const [openingOffset, setOpeningOffset] = useState(0);
+  const [openingWidth, setOpeningWidth] = useState(3);
+  
+  const wallSettings = useToolStore((state) => state.wallSettings);
+  const setWallSettings = useToolStore((state) => state.setWallSettings);
+  const selectedWallId = useToolStore((state) => state.selectedWallId);
+  const selectWall = useToolStore((state) => state.selectWall);
+  const setActiveTool = useToolStore((state) => state.setActiveTool);
+  
+  const activeFloorPlan = useDesignStore((state) => {
+    const activeId = state.activeFloorPlanId;
+    return activeId ? state.floorPlans.find(plan => plan.id === activeId) : null;
+  });
+  const updateWall = useDesignStore((state) => state.updateWall);
+  const deleteWall = useDesignStore((state) => state.deleteWall);
+  
+  // The picked wall can disappear through undo
+  const selectedWall = activeFloorPlan?.walls?.find(wall => wall.id === selectedWallId) ?? null;
+  const openingProblem = selectedWall ? checkWallOpening(selectedWall, { offset: openingOffset, width: openingWidth }) : null;
+  
+  // Handle numeric input with validation
+  const handleNumberChange = (value: string, minValue: number, maxValue: number, apply: (value: number) => void) => {
+    const parsed = parseInt(value);
+    if (!isNaN(parsed) && parsed >= minValue && parsed <= maxValue) {
+      apply(parsed);
+    }
+  };
+  
+  const handleAddOpening = () => {
+    if (!activeFloorPlan || !selectedWall || openingProblem) return;
+    updateWall(activeFloorPlan.id, selectedWall.id, {
+      openings: [...selectedWall.openings, { id: generateId('opening'), offset: openingOffset, width: openingWidth }]
+    });
+    console.log(`[INFO] Cut a ${openingWidth} wide opening into wall ${selectedWall.id}`);
+  };
+  
+  const handleRemoveOpening = (openingId: string) => {
+    if (!activeFloorPlan || !selectedWall) return;
+    updateWall(activeFloorPlan.id, selectedWall.id, {
+      openings: selectedWall.openings.filter(opening => opening.id !== openingId)
+    });
+  };
+  
+  const handleDeleteWall = () => {
+    if (!activeFloorPlan || !selectedWall) return;
+    deleteWall(activeFloorPlan.id, selectedWall.id);
+    selectWall(null);
+    console.log(`[INFO] Deleted wall ${selectedWall.id}`);
+  };
+  
+  const inputClass = 'w-16 p-1 bg-gray-900 border border-gray-600 rounded text-sm';
+  
+  return (
+    <div className="absolute bottom-4 left-4 w-72 p-3 bg-gray-800 rounded-lg shadow-lg text-sm">
+      <div className="flex justify-between items-center mb-2">
+        <span className="font-bold">Draw Walls</span>
+        <button
+          onClick={() => setActiveTool('select')}
+          className="text-gray-400 hover:text-white"
+          title="Stop Drawing Walls"
+        >
+          <X size={18} />
+        </button>
+      </div>
+      <p className="text-gray-400 text-xs mb-2">Drag along a row or column to draw a wall. Click a wall to edit it.</p>
+      
+      <div className="flex items-center space-x-2 mb-2">
+        <label className="text-gray-300">Thickness</label>
+        <input
+          type="number"
+          value={wallSettings.thickness}
+          min={1}
+          max={MAX_WALL_THICKNESS}
+          onChange={(e) => handleNumberChange(e.target.value, 1, MAX_WALL_THICKNESS, thickness => setWallSettings({ thickness }))}
+          className={inputClass}
+        />
+        <label className="text-gray-300">Height</label>
+        <input
+          type="number"
+          value={wallSettings.height}
+          min={1}
+          max={MAX_WALL_HEIGHT}
+          onChange={(e) => handleNumberChange(e.target.value, 1, MAX_WALL_HEIGHT, height => setWallSettings({ height }))}
+          className={inputClass}
+        />
+      </div>
+      
+      {/* Picked wall */}
+      {activeFloorPlan && selectedWall && (
+        <div className="border-t border-gray-700 pt-2">
+          <div className="flex justify-between items-center mb-2">
+            <span>
+              Wall {getWallLength(selectedWall)} long, {selectedWall.thickness} thick
+            </span>
+            <button
+              onClick={handleDeleteWall}
+              className="p-1 text-gray-400 hover:text-red-400"
+              title="Delete Wall"
+            >
+              <Trash size={16} />
+            </button>
+          </div>
+          
+          <div className="flex items-center space-x-2 mb-2">
+            <label className="text-gray-300">Height</label>
+            <input
+              key={`height-${selectedWall.id}-${selectedWall.height}`}
+              type="number"
+              defaultValue={selectedWall.height}
+              min={1}
+              max={MAX_WALL_HEIGHT}
+              onBlur={(e) => handleNumberChange(e.target.value, 1, MAX_WALL_HEIGHT, (height) => {
+                if (height !== selectedWall.height) updateWall(activeFloorPlan.id, selectedWall.id, { height });
+              })}
+              onKeyDown={(e) => e.key === 'Enter' && e.currentTarget.blur()}
+              className={inputClass}
+            />
+          </div>
+          
+          <p className="text-gray-300 mb-1">Openings</p>
+          {selectedWall.openings.length === 0 && <p className="text-gray-500 text-xs mb-1">None</p>}
+          <ul className="mb-2">
+            {[...selectedWall.openings].sort((a, b) => a.offset - b.offset).map(opening => (
+              <li key={opening.id} className="flex justify-between items-center">
+                <span>{opening.width} wide at {opening.offset}</span>
+                <button
+                  onClick={() => handleRemoveOpening(opening.id)}
+                  className="p-1 text-gray-400 hover:text-red-400"
+                  title="Remove Opening"
+                >
+                  <X size={14} />
+                </button>
+              </li>
+            ))}
+          </ul>
+          
+          <div className="flex items-center space-x-2">
+            <label className="text-gray-300">At</label>
+            <input
+              type="number"
+              value={openingOffset}
+              min={0}
+              onChange={(e) => handleNumberChange(e.target.value, 0, Infinity, setOpeningOffset)}
+              className={inputClass}
+            />
+            <label className="text-gray-300">Width</label>
+            <input
+              type="number"
+              value={openingWidth}
+              min={1}
+              onChange={(e) => handleNumberChange(e.target.value, 1, Infinity, setOpeningWidth)}
+              className={inputClass}
+            />
+            <button
+              onClick={handleAddOpening}
+              disabled={openingProblem !== null}
+              className="p-1 bg-gray-600 hover:bg-gray-500 rounded disabled:opacity-40"
+              title="Add Opening"
+            >
+              <PlusIcon size={16} />
+            </button>
+          </div>
+          {openingProblem && <p className="text-red-400 text-xs mt-1">Opening {openingProblem}</p>}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default WallToolPanel;
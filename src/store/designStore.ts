@@ -1,5 +1,30 @@
 import { create } from 'zustand';
 import { persist } from 'zustand/middleware';
+import { useHistoryStore, takeSnapshot, withHistory } from './historyStore';
+import { generateId } from '../utils/ids';
+import {
+  ExportedAisle,
+  ExportedClearance,
+  ExportedExit,
+  ExportedKeepOutZone,
+  ExportedLevel,
+  ExportedMeasurement,
+  ExportedObject,
+  ExportedPlacement,
+  ExportedSegment,
+  ExportedWall,
+  ExportedWallOpening,
+  FloorPlanDocument,
+  FLOOR_PLAN_SCHEMA_VERSION,
+  formatSchemaError,
+  parseFloorPlanDocument
+} from '../utils/floorPlanSchema';
+import { FloorPlanImportPlan, planFloorPlanImport } from '../utils/floorPlanImport';
+import { buildFloorPlanSvg } from '../utils/svgExport';
+import { buildFloorPlanDxf } from '../utils/dxf';
+import { PackConflictResolution, PackEntry, buildLibraryPack, packObjectDefinition } from '../utils/libraryPack';
+import { DEFAULT_LEVEL_NAME, createLevel, getActiveLevel } from '../utils/levels';
+import { DEFAULT_UNIT_SETTINGS, UnitSettings } from '../utils/units';
 
 // Types for our application
 export interface ObjectDimensions {
@@ -8,23 +33,88 @@ export interface ObjectDimensions {
   z: number;
 }
 
+// Grid cell of an object's footprint, relative to the minimum corner of its unrotated bounding box
+export interface GridCell {
+  x: number;
+  y: number;
+}
+
 export interface FactoryObject {
   id: string;
   name: string;
+  // Bounding box; the object fills all of it unless `cells` is set
   dimensions: ObjectDimensions;
+  // Cells covered by an L-, U- or otherwise shaped object, each inside `dimensions`
+  cells?: GridCell[];
   color: string;
+  // Space kept free around the object for operators, door swing and maintenance
+  clearance?: ObjectClearance;
   position?: { x: number; y: number; z: number };
   rotation?: number;
+  // Catalog details used to find objects in the library
+  category?: string;
+  tags?: string[];
+  manufacturer?: string;
+  model?: string;
 }
 
+// Margins around an object's bounding box that other objects can't stand in. Clearances
+// marked shared may overlap each other, e.g. one aisle serving two machines.
+export type ObjectClearance = ExportedClearance;
+
+// Optional descriptive data attached to a placed instance
+export interface PlacedObjectMetadata {
+  label?: string;
+  serialNumber?: string;
+}
+
+export interface PlacedObject {
+  // Persistent instance id, unique within its floor plan
+  id: string;
+  objectId: string;
+  // Level the object stands on; its position's z is that level's elevation
+  levelId: string;
+  position: { x: number; y: number; z: number };
+  rotation: number;
+  metadata?: PlacedObjectMetadata;
+}
+
+// Reference line in grid units, drawn under the objects but never collided with
+export type UnderlaySegment = ExportedSegment;
+
+// Straight wall run on a level, drawn with the wall tool. Walls collide with objects
+// but may overlap each other, which is how corners and junctions are joined.
+export type Wall = ExportedWall;
+// Door or other gap cut through the full thickness and height of a wall
+export type WallOpening = ExportedWallOpening;
+
+// Storey of a floor plan, e.g. the ground floor, a mezzanine or an upper floor.
+// Elevation is the height of its floor above the ground in grid units.
+export type FloorLevel = ExportedLevel;
+
+// Distance or area measured on a level and kept on the plan as an annotation
+export type Measurement = ExportedMeasurement;
+
+// Free-standing area on a level that nothing may be placed in, such as an electrical panel or a drain
+export type KeepOutZone = ExportedKeepOutZone;
+
+// Doorway on a level that people leave through in an emergency
+export type Exit = ExportedExit;
+// Walkway on a level that has to stay clear to its full width
+export type Aisle = ExportedAisle;
+
 export interface FloorPlan {
   id: string;
   name: string;
-  objects: Array<{
-    objectId: string;
-    position: { x: number; y: number; z: number };
-    rotation: number;
-  }>;
+  // Never empty; objects only collide with others on the same level
+  levels: FloorLevel[];
+  objects: PlacedObject[];
+  underlay?: UnderlaySegment[];
+  walls?: Wall[];
+  measurements?: Measurement[];
+  keepOutZones?: KeepOutZone[];
+  exits?: Exit[];
+  aisles?: Aisle[];
 }
 
 interface DesignState {
@@ -34,29 +124,144 @@ interface DesignState {
   floorPlans: FloorPlan[];
   // Currently active floorplan ID
   activeFloorPlanId: string | null;
+  // Level being edited on the active floor plan; see `getActiveLevel`
+  activeLevelId: string | null;
+  // Library objects most recently chosen for placement, most recent first
+  recentObjectIds: string[];
+  // Units measurements are shown in
+  unitSettings: UnitSettings;
   
   // Actions
   addObject: (object: Omit<FactoryObject, 'id'>) => void;
   updateObject: (id: string, updates: Partial<FactoryObject>) => void;
-  deleteObject: (id: string) => void;
+  deleteObject: (id: string, substituteId?: string) => void;
   duplicateObject: (id: string) => void;
+  markObjectUsed: (id: string) => void;
+  exportLibraryPack: (name: string, objectIds: string[]) => string;
+  applyLibraryPackImport: (entries: PackEntry[], resolutions: PackConflictResolution[]) => void;
   
   addFloorPlan: (name: string) => void;
   updateFloorPlan: (id: string, updates: Partial<FloorPlan>) => void;
   deleteFloorPlan: (id: string) => void;
   setActiveFloorPlan: (id: string) => void;
   
-  importObject: (objectId: string, position: { x: number; y: number; z: number }, rotation: number) => void;
-  removeObjectFromFloorPlan: (floorPlanId: string, placedObjectIndex: number) => void;
+  addLevel: (floorPlanId: string, name: string, elevation: number) => string;
+  updateLevel: (floorPlanId: string, levelId: string, updates: Partial<Omit<FloorLevel, 'id'>>) => void;
+  deleteLevel: (floorPlanId: string, levelId: string) => void;
+  setActiveLevel: (id: string) => void;
+  
+  addWall: (floorPlanId: string, wall: Omit<Wall, 'id' | 'openings'>) => string;
+  updateWall: (floorPlanId: string, wallId: string, updates: Partial<Omit<Wall, 'id' | 'levelId'>>) => void;
+  deleteWall: (floorPlanId: string, wallId: string) => void;
+  
+  addMeasurement: (floorPlanId: string, measurement: Omit<Measurement, 'id'>) => string;
+  deleteMeasurement: (floorPlanId: string, measurementId: string) => void;
+  setUnitSettings: (settings: Partial<UnitSettings>) => void;
+  
+  addKeepOutZone: (floorPlanId: string, zone: Omit<KeepOutZone, 'id'>) => string;
+  updateKeepOutZone: (floorPlanId: string, zoneId: string, updates: Partial<Omit<KeepOutZone, 'id' | 'levelId'>>) => void;
+  deleteKeepOutZone: (floorPlanId: string, zoneId: string) => void;
+  
+  addExit: (floorPlanId: string, exit: Omit<Exit, 'id'>) => string;
+  updateExit: (floorPlanId: string, exitId: string, updates: Partial<Omit<Exit, 'id' | 'levelId'>>) => void;
+  deleteExit: (floorPlanId: string, exitId: string) => void;
+  addAisle: (floorPlanId: string, aisle: Omit<Aisle, 'id'>) => string;
+  updateAisle: (floorPlanId: string, aisleId: string, updates: Partial<Omit<Aisle, 'id' | 'levelId'>>) => void;
+  deleteAisle: (floorPlanId: string, aisleId: string) => void;
+  
+  importObject: (objectId: string, position: { x: number; y: number; z: number }, rotation: number) => string | null;
+  addPlacedObjects: (floorPlanId: string, placements: Omit<PlacedObject, 'id'>[]) => string[];
+  removeObjectFromFloorPlan: (floorPlanId: string, instanceId: string) => void;
+  updatePlacedObject: (floorPlanId: string, instanceId: string, updates: Partial<Omit<PlacedObject, 'id' | 'objectId'>>) => void;
+  removeObjectsFromFloorPlan: (floorPlanId: string, instanceIds: string[]) => void;
+  updatePlacedObjects: (floorPlanId: string, updates: Array<Pick<PlacedObject, 'id'> & Partial<Omit<PlacedObject, 'id' | 'objectId'>>>) => void;
+  
+  undo: () => void;
+  redo: () => void;
   
   exportFloorPlan: (id: string) => string;
-  importFloorPlanFromJSON: (jsonData: string) => void;
+  exportFloorPlanSvg: (id: string, levelId: string) => string;
+  exportFloorPlanDxf: (id: string, levelId: string) => string;
+  applyFloorPlanImport: (plan: FloorPlanImportPlan) => string;
+  importFloorPlanFromJSON: (jsonData: string) => FloorPlanImportPlan;
 }
 
+// Number of objects kept in the recently used list
+const MAX_RECENT_OBJECTS = 8;
+
+// Version of the persisted state layout:
+//   0 - placed objects without ids
+//   1 - placed objects carry a persistent instance id
+//   2 - floor plans have levels and placed objects the id of their level
+const PERSISTED_STATE_VERSION = 2;
+
+// Bring state saved by older versions of the app up to the current layout
+const migratePersistedState = (persistedState: unknown, version: number) => {
+  const state = persistedState as {
+    floorPlans?: Array<{ levels?: FloorLevel[]; objects: Array<Omit<PlacedObject, 'id' | 'levelId'> & { id?: string; levelId?: string }> }>
+  };
+  
+  if (version < 1 && state.floorPlans) {
+    state.floorPlans.forEach(plan => {
+      plan.objects = plan.objects.map(placed => {
+        // The earliest saves stored the ground position in x/z with y as the vertical axis,
+        // like the earliest floor plan exports
+        const { position } = placed;
+        const isYUp = position.y === 0 && position.z !== 0;
+        return {
+          ...placed,
+          id: placed.id ?? generateId('instance'),
+          position: isYUp ? { x: position.x, y: position.z, z: 0 } : position
+        };
+      });
+    });
+    console.log('[INFO] Migrated saved floor plans to include instance ids and ground positions in x/y');
+  }
+  
+  if (version < 2 && state.floorPlans) {
+    state.floorPlans.forEach(plan => {
+      const level = createLevel(DEFAULT_LEVEL_NAME, 0);
+      plan.levels = [level];
+      // Objects stand at the level's elevation, like everything placed on a level since
+      plan.objects = plan.objects.map(placed => ({
+        ...placed,
+        levelId: level.id,
+        position: { ...placed.position, z: level.elevation }
+      }));
+    });
+    console.log('[INFO] Migrated saved floor plans to a single ground level');
+  }
+  
+  return state as DesignState;
+};
+
+// Saved data from before deletes kept references intact can hold placements of objects
+// that are no longer in the library. Each missing object is restored as a small red
+// placeholder under its old id, inside the original footprint so it cannot collide, and
+// can then be substituted or deleted from the library like any other object.
+const repairDanglingReferences = (state: DesignState) => {
+  const libraryIds = new Set(state.objectLibrary.map(obj => obj.id));
+  const missingIds = new Set<string>();
+  state.floorPlans.forEach(plan => plan.objects.forEach((placed) => {
+    if (!libraryIds.has(placed.objectId)) missingIds.add(placed.objectId);
+  }));
+  
+  if (missingIds.size === 0) return state;
+  
+  console.warn(`[WARN] Restored ${missingIds.size} missing library objects referenced by placed objects`);
+  const placeholders: FactoryObject[] = Array.from(missingIds).map((id, index) => ({
+    id,
+    name: `Missing Object ${index + 1}`,
+    dimensions: { x: 1, y: 1, z: 1 },
+    color: '#ff0000'
+  }));
+  return { ...state, objectLibrary: [...state.objectLibrary, ...placeholders] };
+};
+
 // Create the zustand store with persistence
 export const useDesignStore = create<DesignState>()(
   persist(
-    (set, get) => ({
+    withHistory((set, get, api) => ({
       // Initial state
       objectLibrary: [
         // Default objects as specified in PRD
@@ -65,22 +270,27 @@ export const useDesignStore = create<DesignState>()(
           name: 'Mill',
           dimensions: { x: 4, y: 4, z: 8 },
           color: '#aaaaaa',
+          category: 'CNC',
         },
         {
           id: 'default-wall',
           name: 'Wall',
           dimensions: { x: 2, y: 1, z: 1 },
           color: '#9b9b9b',
+          category: 'Structure',
         },
       ],
       floorPlans: [],
       activeFloorPlanId: null,
+      activeLevelId: null,
+      recentObjectIds: [],
+      unitSettings: DEFAULT_UNIT_SETTINGS,
 
       // Actions for objects
       addObject: (object) => set((state) => ({
         objectLibrary: [...state.objectLibrary, { 
           ...object, 
-          id: `object-${Date.now()}-${Math.random().toString(36).substr(2, 9)}` 
+          id: generateId('object') 
         }]
       })),
       
@@ -90,8 +300,21 @@ export const useDesignStore = create<DesignState>()(
         )
       })),
       
-      deleteObject: (id) => set((state) => ({
-        objectLibrary: state.objectLibrary.filter(obj => obj.id !== id)
+      // Placed instances of the object are removed, or switched to the substitute, in the
+      // same update so no floor plan is left referencing a missing object
+      deleteObject: (id, substituteId) => set((state) => ({
+        objectLibrary: state.objectLibrary.filter(obj => obj.id !== id),
+        recentObjectIds: state.recentObjectIds.filter(other => other !== id),
+        floorPlans: state.floorPlans.map(plan => 
+          plan.objects.some(placed => placed.objectId === id)
+            ? {
+                ...plan,
+                objects: substituteId
+                  ? plan.objects.map(placed => (placed.objectId === id ? { ...placed, objectId: substituteId } : placed))
+                  : plan.objects.filter(placed => placed.objectId !== id)
+              }
+            : plan
+        )
       })),
       
       duplicateObject: (id) => {
@@ -99,7 +322,7 @@ export const useDesignStore = create<DesignState>()(
         if (object) {
           const duplicatedObject = { 
             ...object, 
-            id: `object-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+            id: generateId('object'),
             name: `${object.name} (Copy)`
           };
           set((state) => ({
@@ -108,17 +331,61 @@ export const useDesignStore = create<DesignState>()(
         }
       },
 
+      // Recent use isn't part of the design, so it is left out of undo history
+      markObjectUsed: (id) => set((state) => ({
+        recentObjectIds: [id, ...state.recentObjectIds.filter(other => other !== id)].slice(0, MAX_RECENT_OBJECTS)
+      })),
+      
+      // Library packs share objects without a floor plan
+      exportLibraryPack: (name, objectIds) => {
+        const objects = get().objectLibrary.filter(obj => objectIds.includes(obj.id));
+        return JSON.stringify(buildLibraryPack(name, objects), null, 2);
+      },
+      
+      // Entries without a name conflict are always added; resolutions apply to the others.
+      // Replacing keeps the library id, so placed instances pick up the new definition.
+      applyLibraryPackImport: (entries, resolutions) => {
+        const added: FactoryObject[] = [];
+        const replaced = new Map<string, Omit<FactoryObject, 'id' | 'name'>>();
+        
+        entries.forEach(({ imported, existing, renamedName }, index) => {
+          const resolution = existing ? resolutions[index] : 'rename';
+          if (resolution === 'skip') return;
+          if (existing && resolution === 'replace') {
+            replaced.set(existing.id, packObjectDefinition(imported));
+            return;
+          }
+          added.push({
+            id: generateId('object'),
+            name: existing ? renamedName : imported.name,
+            ...packObjectDefinition(imported)
+          });
+        });
+        
+        set((state) => ({
+          objectLibrary: [
+            ...state.objectLibrary.map(obj => (replaced.has(obj.id) ? { ...obj, ...replaced.get(obj.id) } : obj)),
+            ...added
+          ]
+        }));
+        
+        console.log(`[INFO] Imported library pack: ${added.length} objects added, ${replaced.size} replaced, ` +
+          `${entries.length - added.length - replaced.size} skipped`);
+      },
+
       // Actions for floor plans
       addFloorPlan: (name) => {
-        const newFloorPlan = {
-          id: `floorplan-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+        const newFloorPlan: FloorPlan = {
+          id: generateId('floorplan'),
           name,
+          levels: [createLevel(DEFAULT_LEVEL_NAME, 0)],
           objects: []
         };
         
         set((state) => ({
           floorPlans: [...state.floorPlans, newFloorPlan],
-          activeFloorPlanId: newFloorPlan.id
+          activeFloorPlanId: newFloorPlan.id,
+          activeLevelId: newFloorPlan.levels[0].id
         }));
         
         return newFloorPlan.id;
@@ -146,38 +413,310 @@ export const useDesignStore = create<DesignState>()(
       }),
       
       setActiveFloorPlan: (id) => set({ activeFloorPlanId: id }),
+      
+      // Actions for levels
+      addLevel: (floorPlanId, name, elevation) => {
+        const level = createLevel(name, elevation);
+        set((state) => ({
+          floorPlans: state.floorPlans.map(plan => 
+            plan.id === floorPlanId ? { ...plan, levels: [...plan.levels, level] } : plan
+          ),
+          activeLevelId: level.id
+        }));
+        
+        return level.id;
+      },
+      
+      // Objects on the level move with it when its elevation changes
+      updateLevel: (floorPlanId, levelId, updates) => set((state) => ({
+        floorPlans: state.floorPlans.map(plan => {
+          if (plan.id !== floorPlanId) return plan;
+          const { elevation } = updates;
+          return {
+            ...plan,
+            levels: plan.levels.map(level => (level.id === levelId ? { ...level, ...updates } : level)),
+            objects: elevation === undefined
+              ? plan.objects
+              : plan.objects.map(placed => 
+                  placed.levelId === levelId ? { ...placed, position: { ...placed.position, z: elevation } } : placed
+                )
+          };
+        })
+      })),
+      
+      // Deleting a level removes everything on it; the last level can't be deleted
+      deleteLevel: (floorPlanId, levelId) => set((state) => ({
+        floorPlans: state.floorPlans.map(plan => 
+          plan.id === floorPlanId && plan.levels.length > 1
+            ? {
+                ...plan,
+                levels: plan.levels.filter(level => level.id !== levelId),
+                objects: plan.objects.filter(placed => placed.levelId !== levelId),
+                ...(plan.walls && { walls: plan.walls.filter(wall => wall.levelId !== levelId) }),
+                ...(plan.measurements && { measurements: plan.measurements.filter(measurement => measurement.levelId !== levelId) }),
+                ...(plan.keepOutZones && { keepOutZones: plan.keepOutZones.filter(zone => zone.levelId !== levelId) }),
+                ...(plan.exits && { exits: plan.exits.filter(exit => exit.levelId !== levelId) }),
+                ...(plan.aisles && { aisles: plan.aisles.filter(aisle => aisle.levelId !== levelId) })
+              }
+            : plan
+        )
+      })),
+      
+      setActiveLevel: (id) => set({ activeLevelId: id }),
+      
+      // Actions for walls
+      addWall: (floorPlanId, wall) => {
+        const id = generateId('wall');
+        set((state) => ({
+          floorPlans: state.floorPlans.map(plan => 
+            plan.id === floorPlanId
+              ? { ...plan, walls: [...(plan.walls ?? []), { ...wall, id, openings: [] }] }
+              : plan
+          )
+        }));
+        
+        return id;
+      },
+      
+      updateWall: (floorPlanId, wallId, updates) => set((state) => ({
+        floorPlans: state.floorPlans.map(plan => 
+          plan.id === floorPlanId && plan.walls
+            ? { ...plan, walls: plan.walls.map(wall => (wall.id === wallId ? { ...wall, ...updates } : wall)) }
+            : plan
+        )
+      })),
+      
+      deleteWall: (floorPlanId, wallId) => set((state) => ({
+        floorPlans: state.floorPlans.map(plan => 
+          plan.id === floorPlanId && plan.walls
+            ? { ...plan, walls: plan.walls.filter(wall => wall.id !== wallId) }
+            : plan
+        )
+      })),
+      
+      // Actions for measurements
+      addMeasurement: (floorPlanId, measurement) => {
+        const id = generateId('measurement');
+        set((state) => ({
+          floorPlans: state.floorPlans.map(plan => 
+            plan.id === floorPlanId
+              ? { ...plan, measurements: [...(plan.measurements ?? []), { ...measurement, id }] }
+              : plan
+          )
+        }));
+        
+        return id;
+      },
+      
+      deleteMeasurement: (floorPlanId, measurementId) => set((state) => ({
+        floorPlans: state.floorPlans.map(plan => 
+          plan.id === floorPlanId && plan.measurements
+            ? { ...plan, measurements: plan.measurements.filter(measurement => measurement.id !== measurementId) }
+            : plan
+        )
+      })),
+      
+      // A display preference, so it is saved but not part of undo
+      setUnitSettings: (settings) => set((state) => ({ unitSettings: { ...state.unitSettings, ...settings } })),
+      
+      // Actions for keep-out zones
+      addKeepOutZone: (floorPlanId, zone) => {
+        const id = generateId('keepout');
+        set((state) => ({
+          floorPlans: state.floorPlans.map(plan => 
+            plan.id === floorPlanId
+              ? { ...plan, keepOutZones: [...(plan.keepOutZones ?? []), { ...zone, id }] }
+              : plan
+          )
+        }));
+        
+        return id;
+      },
+      
+      updateKeepOutZone: (floorPlanId, zoneId, updates) => set((state) => ({
+        floorPlans: state.floorPlans.map(plan => 
+          plan.id === floorPlanId && plan.keepOutZones
+            ? { ...plan, keepOutZones: plan.keepOutZones.map(zone => (zone.id === zoneId ? { ...zone, ...updates } : zone)) }
+            : plan
+        )
+      })),
+      
+      deleteKeepOutZone: (floorPlanId, zoneId) => set((state) => ({
+        floorPlans: state.floorPlans.map(plan => 
+          plan.id === floorPlanId && plan.keepOutZones
+            ? { ...plan, keepOutZones: plan.keepOutZones.filter(zone => zone.id !== zoneId) }
+            : plan
+        )
+      })),
+      
+      // Actions for exits and aisles
+      addExit: (floorPlanId, exit) => {
+        const id = generateId('exit');
+        set((state) => ({
+          floorPlans: state.floorPlans.map(plan => 
+            plan.id === floorPlanId
+              ? { ...plan, exits: [...(plan.exits ?? []), { ...exit, id }] }
+              : plan
+          )
+        }));
+        
+        return id;
+      },
+      
+      updateExit: (floorPlanId, exitId, updates) => set((state) => ({
+        floorPlans: state.floorPlans.map(plan => 
+          plan.id === floorPlanId && plan.exits
+            ? { ...plan, exits: plan.exits.map(exit => (exit.id === exitId ? { ...exit, ...updates } : exit)) }
+            : plan
+        )
+      })),
+      
+      deleteExit: (floorPlanId, exitId) => set((state) => ({
+        floorPlans: state.floorPlans.map(plan => 
+          plan.id === floorPlanId && plan.exits
+            ? { ...plan, exits: plan.exits.filter(exit => exit.id !== exitId) }
+            : plan
+        )
+      })),
+      
+      addAisle: (floorPlanId, aisle) => {
+        const id = generateId('aisle');
+        set((state) => ({
+          floorPlans: state.floorPlans.map(plan => 
+            plan.id === floorPlanId
+              ? { ...plan, aisles: [...(plan.aisles ?? []), { ...aisle, id }] }
+              : plan
+          )
+        }));
+        
+        return id;
+      },
+      
+      updateAisle: (floorPlanId, aisleId, updates) => set((state) => ({
+        floorPlans: state.floorPlans.map(plan => 
+          plan.id === floorPlanId && plan.aisles
+            ? { ...plan, aisles: plan.aisles.map(aisle => (aisle.id === aisleId ? { ...aisle, ...updates } : aisle)) }
+            : plan
+        )
+      })),
+      
+      deleteAisle: (floorPlanId, aisleId) => set((state) => ({
+        floorPlans: state.floorPlans.map(plan => 
+          plan.id === floorPlanId && plan.aisles
+            ? { ...plan, aisles: plan.aisles.filter(aisle => aisle.id !== aisleId) }
+            : plan
+        )
+      })),
 
       // Actions for object placement
+      // Objects are placed on the active level, at its elevation
       importObject: (objectId, position, rotation) => {
-        const { activeFloorPlanId } = get();
+        const { activeFloorPlanId, activeLevelId, floorPlans } = get();
+        const floorPlan = floorPlans.find(plan => plan.id === activeFloorPlanId);
         
-        if (!activeFloorPlanId) return;
+        if (!floorPlan) return null;
         
+        const level = getActiveLevel(floorPlan, activeLevelId);
+        const instanceId = generateId('instance');
         set((state) => ({
           floorPlans: state.floorPlans.map(plan => 
-            plan.id === activeFloorPlanId
+            plan.id === floorPlan.id
               ? {
                   ...plan,
                   objects: [
                     ...plan.objects,
-                    { objectId, position, rotation }
+                    { id: instanceId, objectId, levelId: level.id, position: { ...position, z: level.elevation }, rotation }
                   ]
                 }
               : plan
           )
         }));
+        
+        return instanceId;
       },
       
-      removeObjectFromFloorPlan: (floorPlanId, placedObjectIndex) => set((state) => ({
+      // Place several objects at once, e.g. a paste or an array, as a single undo step
+      addPlacedObjects: (floorPlanId, placements) => {
+        const added = placements.map(placement => ({ ...placement, id: generateId('instance') }));
+        set((state) => ({
+          floorPlans: state.floorPlans.map(plan => 
+            plan.id === floorPlanId
+              ? { ...plan, objects: [...plan.objects, ...added] }
+              : plan
+          )
+        }));
+        
+        return added.map(placed => placed.id);
+      },
+      
+      removeObjectFromFloorPlan: (floorPlanId, instanceId) => set((state) => ({
+        floorPlans: state.floorPlans.map(plan => 
+          plan.id === floorPlanId
+            ? {
+                ...plan,
+                objects: plan.objects.filter(placed => placed.id !== instanceId)
+              }
+            : plan
+        )
+      })),
+      
+      updatePlacedObject: (floorPlanId, instanceId, updates) => set((state) => ({
         floorPlans: state.floorPlans.map(plan => 
           plan.id === floorPlanId
             ? {
                 ...plan,
-                objects: plan.objects.filter((_, index) => index !== placedObjectIndex)
+                objects: plan.objects.map(placed => 
+                  placed.id === instanceId ? { ...placed, ...updates } : placed
+                )
               }
             : plan
         )
       })),
+      
+      // Group edits are applied in a single update so they undo as one step
+      removeObjectsFromFloorPlan: (floorPlanId, instanceIds) => set((state) => ({
+        floorPlans: state.floorPlans.map(plan => 
+          plan.id === floorPlanId
+            ? {
+                ...plan,
+                objects: plan.objects.filter(placed => !instanceIds.includes(placed.id))
+              }
+            : plan
+        )
+      })),
+      
+      updatePlacedObjects: (floorPlanId, updates) => set((state) => {
+        const updatesById = new Map(updates.map(update => [update.id, update]));
+        return {
+          floorPlans: state.floorPlans.map(plan => 
+            plan.id === floorPlanId
+              ? {
+                  ...plan,
+                  objects: plan.objects.map(placed => 
+                    updatesById.has(placed.id) ? { ...placed, ...updatesById.get(placed.id) } : placed
+                  )
+                }
+              : plan
+          )
+        };
+      }),
+
+      // History; restored snapshots go through api.setState so they aren't recorded again
+      undo: () => {
+        const snapshot = useHistoryStore.getState().undo(takeSnapshot(get()));
+        if (snapshot) {
+          api.setState(snapshot);
+          console.log('[INFO] Undo');
+        }
+      },
+      
+      redo: () => {
+        const snapshot = useHistoryStore.getState().redo(takeSnapshot(get()));
+        if (snapshot) {
+          api.setState(snapshot);
+          console.log('[INFO] Redo');
+        }
+      },
 
       // Import/Export
       exportFloorPlan: (id) => {
@@ -186,85 +725,115 @@ export const useDesignStore = create<DesignState>()(
         
         if (!floorPlan) return '';
         
-        // Create a complete representation with all object details
-        const exportData = {
+        // List each library object used by the plan once, with placements referencing it by id
+        const objects: ExportedObject[] = [];
+        const placements: ExportedPlacement[] = [];
+        
+        floorPlan.objects.forEach(placedObj => {
+          const objectDetails = objectLibrary.find(obj => obj.id === placedObj.objectId);
+          if (!objectDetails) {
+            console.warn(`[WARN] Skipping export of placement referencing missing object ${placedObj.objectId}`);
+            return;
+          }
+          
+          if (!objects.some(obj => obj.id === objectDetails.id)) {
+            const { id, name, dimensions, cells, color, clearance, category, tags, manufacturer, model } = objectDetails;
+            objects.push({
+              id, name, dimensions, ...(cells && { cells }), color, ...(clearance && { clearance }),
+              ...(category && { category }), ...(tags?.length && { tags }), ...(manufacturer && { manufacturer }), ...(model && { model })
+            });
+          }
+          placements.push({
+            id: placedObj.id,
+            objectId: placedObj.objectId,
+            levelId: placedObj.levelId,
+            position: placedObj.position,
+            rotation: placedObj.rotation,
+            ...(placedObj.metadata && { metadata: placedObj.metadata })
+          });
+        });
+        
+        const exportData: FloorPlanDocument = {
+          schemaVersion: FLOOR_PLAN_SCHEMA_VERSION,
           name: floorPlan.name,
-          objects: floorPlan.objects.map(placedObj => {
-            const objectDetails = objectLibrary.find(obj => obj.id === placedObj.objectId);
-            return {
-              ...objectDetails,
-              position: placedObj.position,
-              rotation: placedObj.rotation
-            };
-          })
+          levels: floorPlan.levels,
+          objects,
+          placements,
+          ...(floorPlan.underlay?.length && { underlay: floorPlan.underlay }),
+          ...(floorPlan.walls?.length && { walls: floorPlan.walls }),
+          ...(floorPlan.measurements?.length && { measurements: floorPlan.measurements }),
+          ...(floorPlan.keepOutZones?.length && { keepOutZones: floorPlan.keepOutZones }),
+          ...(floorPlan.exits?.length && { exits: floorPlan.exits }),
+          ...(floorPlan.aisles?.length && { aisles: floorPlan.aisles })
         };
         
         return JSON.stringify(exportData, null, 2);
       },
       
+      // Dimensioned top-down drawing of one level of the plan
+      exportFloorPlanSvg: (id, levelId) => {
+        const { floorPlans, objectLibrary } = get();
+        const floorPlan = floorPlans.find(plan => plan.id === id);
+        
+        return floorPlan ? buildFloorPlanSvg(floorPlan, objectLibrary, levelId) : '';
+      },
+      
+      // CAD drawing of one level of the plan in grid units
+      exportFloorPlanDxf: (id, levelId) => {
+        const { floorPlans, objectLibrary } = get();
+        const floorPlan = floorPlans.find(plan => plan.id === id);
+        
+        return floorPlan ? buildFloorPlanDxf(floorPlan, objectLibrary, levelId) : '';
+      },
+      
+      applyFloorPlanImport: (plan) => {
+        const newFloorPlan: FloorPlan = {
+          id: generateId('floorplan'),
+          name: plan.floorPlanName,
+          levels: plan.levels,
+          objects: plan.placements,
+          ...(plan.underlay.length > 0 && { underlay: plan.underlay }),
+          ...(plan.walls.length > 0 && { walls: plan.walls }),
+          ...(plan.measurements.length > 0 && { measurements: plan.measurements }),
+          ...(plan.keepOutZones.length > 0 && { keepOutZones: plan.keepOutZones }),
+          ...(plan.exits.length > 0 && { exits: plan.exits }),
+          ...(plan.aisles.length > 0 && { aisles: plan.aisles })
+        };
+        
+        // Applied in a single update so the whole import is one undo step
+        set((state) => ({
+          objectLibrary: [...state.objectLibrary, ...plan.createdObjects],
+          floorPlans: [...state.floorPlans, newFloorPlan],
+          activeFloorPlanId: newFloorPlan.id,
+          activeLevelId: null
+        }));
+        
+        console.log(`[INFO] Imported floor plan ${plan.floorPlanName}: ${plan.placements.length} placements, ` +
+          `${plan.createdObjects.length} new objects, ${plan.skippedPlacements.length} skipped placements, ` +
+          `${plan.walls.length} walls, ${plan.skippedWalls} skipped walls`);
+        return newFloorPlan.id;
+      },
+      
       importFloorPlanFromJSON: (jsonData) => {
-        try {
-          const data = JSON.parse(jsonData);
-          
-          if (!data.name || !Array.isArray(data.objects)) {
-            throw new Error('Invalid floor plan data format');
-          }
-          
-          // Create a new floor plan
-          const newFloorPlanId = get().addFloorPlan(data.name);
-          
-          // Process each object from the imported data
-          data.objects.forEach((obj: any) => {
-            // Check if the object exists in the library
-            const existingObject = get().objectLibrary.find(
-              libObj => libObj.name === obj.name && 
-                       libObj.dimensions.x === obj.dimensions.x &&
-                       libObj.dimensions.y === obj.dimensions.y &&
-                       libObj.dimensions.z === obj.dimensions.z
-            );
-            
-            let objectId;
-            
-            if (existingObject) {
-              objectId = existingObject.id;
-            } else {
-              // Add it to the library
-              const newObjectData = {
-                name: obj.name,
-                dimensions: obj.dimensions,
-                color: obj.color || '#aaaaaa'
-              };
-              
-              get().addObject(newObjectData);
-              
-              // Get the newly added object's ID
-              const newObject = get().objectLibrary.find(
-                libObj => libObj.name === obj.name &&
-                         libObj.dimensions.x === obj.dimensions.x &&
-                         libObj.dimensions.y === obj.dimensions.y &&
-                         libObj.dimensions.z === obj.dimensions.z
-              );
-              
-              objectId = newObject?.id;
-            }
-            
-            if (objectId && obj.position) {
-              // Place the object on the floor plan
-              get().importObject(
-                objectId,
-                obj.position,
-                obj.rotation || 0
-              );
-            }
-          });
-          
-        } catch (error) {
-          console.error('Error importing floor plan:', error);
+        const result = parseFloorPlanDocument(jsonData);
+        
+        if (!result.ok) {
+          const message = result.errors.map(formatSchemaError).join('\n');
+          console.error('Error importing floor plan:', message);
+          throw new Error(`Invalid floor plan:\n${message}`);
         }
+        
+        const plan = planFloorPlanImport(result.document, get().objectLibrary);
+        get().applyFloorPlanImport(plan);
+        return plan;
       }
-    }),
+    })),
     {
       name: 'factory-floor-designer-storage',
+      version: PERSISTED_STATE_VERSION,
+      migrate: migratePersistedState,
+      merge: (persistedState, currentState) =>
+        repairDanglingReferences({ ...currentState, ...(persistedState as Partial<DesignState>) }),
     }
   )
 ); 
\ No newline at end of file
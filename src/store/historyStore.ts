@@ -0,0 +1,128 @@
+import { create, StateCreator, StoreMutatorIdentifier } from 'zustand';
+import type { FactoryObject, FloorPlan } from './designStore';
+
+// Maximum number of undo steps kept in memory
+const MAX_HISTORY = 100;
+
+// The part of the design state covered by undo/redo. The active plan and level are restored
+// with the plans, so undoing the creation of a plan or level never leaves them pointing at
+// one that no longer exists.
+export interface DesignSnapshot {
+  objectLibrary: FactoryObject[];
+  floorPlans: FloorPlan[];
+  activeFloorPlanId: string | null;
+  activeLevelId: string | null;
+}
+
+interface HistoryState {
+  past: DesignSnapshot[];
+  future: DesignSnapshot[];
+  // Open gestures, such as a press and drag on the Canvas. Every mutation made while one
+  // is open is merged into a single undo step.
+  gestureDepth: number;
+  // Whether the open gesture has recorded its undo step yet
+  gestureRecorded: boolean;
+  
+  // Actions
+  record: (snapshot: DesignSnapshot) => void;
+  beginGesture: () => void;
+  endGesture: () => void;
+  undo: (current: DesignSnapshot) => DesignSnapshot | null;
+  redo: (current: DesignSnapshot) => DesignSnapshot | null;
+  clear: () => void;
+}
+
+export const takeSnapshot = ({ objectLibrary, floorPlans, activeFloorPlanId, activeLevelId }: DesignSnapshot): DesignSnapshot => ({
+  objectLibrary,
+  floorPlans,
+  activeFloorPlanId,
+  activeLevelId
+});
+
+// Undo/redo stacks. Kept out of the persisted design store: history only lives for the session.
+// Snapshots share structure with the immutable store state, so each step costs little memory.
+export const useHistoryStore = create<HistoryState>()((set, get) => ({
+  past: [],
+  future: [],
+  gestureDepth: 0,
+  gestureRecorded: false,
+
+  record: (snapshot) => {
+    const { past, gestureDepth, gestureRecorded } = get();
+    
+    // Keep the snapshot from before the gesture so the whole sequence undoes together
+    if (gestureDepth > 0 && gestureRecorded) {
+      set({ future: [] });
+      return;
+    }
+    
+    set({
+      past: [...past, snapshot].slice(-MAX_HISTORY),
+      future: [],
+      gestureRecorded: gestureDepth > 0
+    });
+  },
+
+  beginGesture: () => set((state) => ({
+    gestureDepth: state.gestureDepth + 1,
+    gestureRecorded: state.gestureDepth > 0 && state.gestureRecorded
+  })),
+
+  endGesture: () => set((state) => ({
+    gestureDepth: Math.max(0, state.gestureDepth - 1),
+    gestureRecorded: state.gestureDepth > 1 && state.gestureRecorded
+  })),
+
+  undo: (current) => {
+    const { past, future } = get();
+    if (past.length === 0) return null;
+    
+    const previous = past[past.length - 1];
+    set({
+      past: past.slice(0, -1),
+      future: [current, ...future].slice(0, MAX_HISTORY),
+      gestureRecorded: false
+    });
+    return previous;
+  },
+
+  redo: (current) => {
+    const { past, future } = get();
+    if (future.length === 0) return null;
+    
+    const next = future[0];
+    set({
+      past: [...past, current].slice(-MAX_HISTORY),
+      future: future.slice(1),
+      gestureRecorded: false
+    });
+    return next;
+  },
+
+  clear: () => set({ past: [], future: [], gestureRecorded: false })
+}));
+
+/**
+ * Middleware recording a snapshot before every `set` that changes the object library
+ * or the floor plans. State applied through `api.setState` (undo/redo, rehydration)
+ * bypasses it and is never recorded.
+ */
+export const withHistory = <
+  T extends DesignSnapshot,
+  Mps extends [StoreMutatorIdentifier, unknown][] = [],
+  Mcs extends [StoreMutatorIdentifier, unknown][] = []
+>(
+  config: StateCreator<T, Mps, Mcs>
+): StateCreator<T, Mps, Mcs> => (set, get, api) => {
+  const trackedSet = ((...args: Parameters<typeof set>) => {
+    const before = get();
+    (set as (...setArgs: Parameters<typeof set>) => void)(...args);
+    const after = get();
+    
+    if (before.objectLibrary !== after.objectLibrary || before.floorPlans !== after.floorPlans) {
+      useHistoryStore.getState().record(takeSnapshot(before));
+    }
+  }) as typeof set;
+  
+  return config(trackedSet, get, api);
+};
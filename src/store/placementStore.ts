@@ -0,0 +1,93 @@
+import { create } from 'zustand';
+
+export interface GridPosition {
+  x: number;
+  y: number;
+  z: number;
+}
+
+// One object of a placement session
+export interface PlacementItem {
+  objectId: string;
+  // Footprint minimum corner relative to the session position
+  offset: { x: number; y: number };
+  // Rotation in degrees, always a multiple of 90
+  rotation: number;
+  // Set when the item is an already placed instance being moved
+  instanceId?: string;
+}
+
+interface PlacementState {
+  // Objects currently being placed or moved, empty when not placing
+  items: PlacementItem[];
+  // Snapped grid position of the minimum corner of the items' combined footprint
+  position: GridPosition;
+  // Whether the current position can be confirmed
+  isValid: boolean;
+  // New placements follow the cursor; moved objects are dragged instead
+  followsCursor: boolean;
+  
+  // Instance ids of the placed objects selected on the canvas
+  selectedInstanceIds: string[];
+  
+  // Copied objects, kept across floor plan switches so they can be pasted into another plan
+  clipboard: PlacementItem[];
+  
+  // Actions
+  startPlacement: (items: PlacementItem[], position: GridPosition, followsCursor?: boolean) => void;
+  setPosition: (position: GridPosition) => void;
+  setItems: (items: PlacementItem[], position: GridPosition) => void;
+  setValid: (isValid: boolean) => void;
+  endPlacement: () => void;
+  
+  selectObjects: (instanceIds: string[]) => void;
+  toggleSelected: (instanceId: string) => void;
+  clearSelection: () => void;
+  
+  copyToClipboard: (items: PlacementItem[]) => void;
+}
+
+// Transient placement state shared between the Canvas and the placement controls.
+// Deliberately not persisted: a preview is never part of the saved design.
+export const usePlacementStore = create<PlacementState>()((set) => ({
+  items: [],
+  position: { x: 0, y: 0, z: 0 },
+  isValid: true,
+  followsCursor: true,
+  selectedInstanceIds: [],
+  clipboard: [],
+
+  startPlacement: (items, position, followsCursor = true) => set({
+    items,
+    position,
+    isValid: true,
+    followsCursor
+  }),
+
+  setPosition: (position) => set((state) => (
+    state.position.x === position.x && state.position.y === position.y && state.position.z === position.z
+      ? state
+      : { position }
+  )),
+
+  setItems: (items, position) => set({ items, position }),
+
+  setValid: (isValid) => set({ isValid }),
+
+  endPlacement: () => set({ items: [], isValid: true, followsCursor: true }),
+  
+  selectObjects: (instanceIds) => set({ selectedInstanceIds: instanceIds }),
+  
+  toggleSelected: (instanceId) => set((state) => ({
+    selectedInstanceIds: state.selectedInstanceIds.includes(instanceId)
+      ? state.selectedInstanceIds.filter(id => id !== instanceId)
+      : [...state.selectedInstanceIds, instanceId]
+  })),
+  
+  clearSelection: () => set({ selectedInstanceIds: [] }),
+  
+  // Pasted objects are new instances, so the source instance ids are dropped
+  copyToClipboard: (items) => set({
+    clipboard: items.map(({ instanceId, ...item }) => item)
+  })
+}));
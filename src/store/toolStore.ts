@@ -0,0 +1,184 @@
+import { create } from 'zustand';
+import { useDesignStore } from './designStore';
+import type { GridCell, Measurement } from './designStore';
+import { DEFAULT_WALL_HEIGHT, DEFAULT_WALL_THICKNESS } from '../utils/walls';
+import { MeasureMode, SnappedPoint, getPathLength, getPolygonArea, toMeasurement } from '../utils/measure';
+import { DEFAULT_AISLE_WIDTH, DEFAULT_EGRESS_PATH_WIDTH, EgressReport } from '../utils/egress';
+import type { OutlinePoint } from '../utils/objectShape';
+import { getActiveLevel } from '../utils/levels';
+
+// What a press on the Canvas does: select and move objects, draw walls, measure, mark
+// keep-out zones or lay out exits and aisles
+export type CanvasTool = 'select' | 'wall' | 'measure' | 'keepOut' | 'egress';
+
+// What the egress tool draws: exits as rectangles, aisles as runs along a row or column
+export type EgressMode = 'exit' | 'aisle';
+
+export interface WallSettings {
+  thickness: number;
+  height: number;
+}
+
+// Last finished measurement, and the annotation it was kept as, if it was
+export interface MeasureResult {
+  measurement: Pick<Measurement, 'kind' | 'points'>;
+  keptId: string | null;
+}
+
+interface ToolState {
+  activeTool: CanvasTool;
+  // Size given to newly drawn walls
+  wallSettings: WallSettings;
+  // Run being dragged out with the wall tool, from the pressed cell to the cell under the pointer
+  wallDraft: { start: GridCell; end: GridCell } | null;
+  // Wall picked with the wall tool for editing
+  selectedWallId: string | null;
+  measureMode: MeasureMode;
+  // Points clicked so far for the measurement in progress
+  measurePoints: OutlinePoint[];
+  // Snapped point under the pointer, where the next point would go
+  measurePointer: SnappedPoint | null;
+  measureResult: MeasureResult | null;
+  // Keep every finished measurement as an annotation on the floor plan
+  keepMeasurements: boolean;
+  // Rectangle being dragged out with the keep-out tool, between two opposite corner cells
+  keepOutDraft: { start: GridCell; end: GridCell } | null;
+  // Keep-out zone picked with the keep-out tool for editing
+  selectedKeepOutId: string | null;
+  egressMode: EgressMode;
+  // Exit or aisle being dragged out with the egress tool
+  egressDraft: { start: GridCell; end: GridCell } | null;
+  // Exit or aisle picked with the egress tool for editing
+  selectedEgressId: string | null;
+  // Width given to newly drawn aisles
+  aisleWidth: number;
+  // Narrowest gap an egress path may pass through
+  egressPathWidth: number;
+  // Latest egress check of the active level, shown on the Canvas while the tool is open
+  egressReport: EgressReport | null;
+
+  // Actions
+  setActiveTool: (tool: CanvasTool) => void;
+  setWallSettings: (settings: Partial<WallSettings>) => void;
+  setWallDraft: (draft: { start: GridCell; end: GridCell } | null) => void;
+  selectWall: (wallId: string | null) => void;
+  setMeasureMode: (mode: MeasureMode) => void;
+  setMeasurePointer: (pointer: SnappedPoint | null) => void;
+  addMeasurePoint: (point: OutlinePoint) => void;
+  finishMeasurement: () => void;
+  cancelMeasurement: () => void;
+  keepMeasurement: () => void;
+  setKeepMeasurements: (keep: boolean) => void;
+  setKeepOutDraft: (draft: { start: GridCell; end: GridCell } | null) => void;
+  selectKeepOut: (zoneId: string | null) => void;
+  setEgressMode: (mode: EgressMode) => void;
+  setEgressDraft: (draft: { start: GridCell; end: GridCell } | null) => void;
+  selectEgressItem: (id: string | null) => void;
+  setAisleWidth: (width: number) => void;
+  setEgressPathWidth: (width: number) => void;
+  setEgressReport: (report: EgressReport | null) => void;
+}
+
+const clearedMeasure = { measurePoints: [], measurePointer: null, measureResult: null };
+
+// Transient Canvas tool state, shared between the Canvas and the tool panels.
+// Not persisted, like the placement store; only kept measurements reach the design store.
+export const useToolStore = create<ToolState>()((set, get) => ({
+  activeTool: 'select',
+  wallSettings: { thickness: DEFAULT_WALL_THICKNESS, height: DEFAULT_WALL_HEIGHT },
+  wallDraft: null,
+  selectedWallId: null,
+  measureMode: 'distance',
+  measurePoints: [],
+  measurePointer: null,
+  measureResult: null,
+  keepMeasurements: false,
+  keepOutDraft: null,
+  selectedKeepOutId: null,
+  egressMode: 'exit',
+  egressDraft: null,
+  selectedEgressId: null,
+  aisleWidth: DEFAULT_AISLE_WIDTH,
+  egressPathWidth: DEFAULT_EGRESS_PATH_WIDTH,
+  egressReport: null,
+
+  // Switching tools drops anything half done with the previous one
+  setActiveTool: (tool) => set({
+    activeTool: tool,
+    wallDraft: null,
+    selectedWallId: null,
+    keepOutDraft: null,
+    selectedKeepOutId: null,
+    egressDraft: null,
+    selectedEgressId: null,
+    egressReport: null,
+    ...clearedMeasure
+  }),
+
+  setWallSettings: (settings) => set((state) => ({ wallSettings: { ...state.wallSettings, ...settings } })),
+
+  setWallDraft: (draft) => set({ wallDraft: draft }),
+
+  selectWall: (wallId) => set({ selectedWallId: wallId }),
+
+  setMeasureMode: (mode) => set({ measureMode: mode, measurePoints: [], measureResult: null }),
+
+  setMeasurePointer: (pointer) => set({ measurePointer: pointer }),
+
+  // The first point of a new measurement clears the previous result; distances and
+  // rectangles finish on their second point, polygons when finished explicitly
+  addMeasurePoint: (point) => {
+    const { measureMode, measurePoints, finishMeasurement } = get();
+    set({ measurePoints: [...measurePoints, point], measureResult: null });
+    if (measureMode !== 'polygon' && measurePoints.length === 1) finishMeasurement();
+  },
+
+  finishMeasurement: () => {
+    const { measureMode, measurePoints, keepMeasurements, keepMeasurement } = get();
+    const measurement = toMeasurement(measureMode, measurePoints);
+    const isEmpty = measurement.kind === 'distance'
+      ? getPathLength(measurement.points) === 0
+      : measurement.points.length < 3 || getPolygonArea(measurement.points) === 0;
+    if (isEmpty) {
+      console.warn('[WARN] Measurement discarded: it has no length or area');
+      set({ measurePoints: [] });
+      return;
+    }
+
+    set({ measurePoints: [], measureResult: { measurement, keptId: null } });
+    if (keepMeasurements) keepMeasurement();
+  },
+
+  cancelMeasurement: () => set({ measurePoints: [], measureResult: null }),
+
+  // Add the last result to the active level of the active floor plan
+  keepMeasurement: () => {
+    const { measureResult } = get();
+    const { activeFloorPlanId, activeLevelId, floorPlans, addMeasurement } = useDesignStore.getState();
+    const floorPlan = floorPlans.find(plan => plan.id === activeFloorPlanId);
+    if (!measureResult || measureResult.keptId || !floorPlan) return;
+
+    const levelId = getActiveLevel(floorPlan, activeLevelId).id;
+    const keptId = addMeasurement(floorPlan.id, { ...measureResult.measurement, levelId });
+    set({ measureResult: { ...measureResult, keptId } });
+    console.log(`[INFO] Kept ${measureResult.measurement.kind} measurement ${keptId} on floor plan ${floorPlan.name}`);
+  },
+
+  setKeepMeasurements: (keep) => set({ keepMeasurements: keep }),
+
+  setKeepOutDraft: (draft) => set({ keepOutDraft: draft }),
+
+  selectKeepOut: (zoneId) => set({ selectedKeepOutId: zoneId }),
+
+  setEgressMode: (mode) => set({ egressMode: mode, egressDraft: null }),
+
+  setEgressDraft: (draft) => set({ egressDraft: draft }),
+
+  selectEgressItem: (id) => set({ selectedEgressId: id }),
+
+  setAisleWidth: (width) => set({ aisleWidth: width }),
+
+  setEgressPathWidth: (width) => set({ egressPathWidth: width }),
+
+  setEgressReport: (report) => set({ egressReport: report })
+}));
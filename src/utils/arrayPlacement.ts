@@ -0,0 +1,80 @@
+import { FactoryObject, FloorPlan, PlacedObject } from '../store/designStore';
+import type { GridPosition, PlacementItem } from '../store/placementStore';
+import { buildFloorPlanIndex, getObjectCollisionShape, isPlacementValid } from './collision';
+import { isInsideGrid } from './footprint';
+import { getPlacementSize, indexObjects, resolvePlacementItems } from './placementGroup';
+
+export interface ArrayOptions {
+  rows: number;
+  columns: number;
+  // Gap between neighbouring copies in grid units
+  spacingX: number;
+  spacingY: number;
+}
+
+export interface FailedCopy {
+  // Zero-based position of the copy in the array
+  row: number;
+  column: number;
+  reason: 'collision' | 'outside-grid';
+}
+
+export interface ArrayPlacementPlan {
+  // Copies that fit, ready to be added to the floor plan
+  placements: Omit<PlacedObject, 'id'>[];
+  copies: number;
+  failedCopies: FailedCopy[];
+}
+
+/**
+ * Lay out rows x columns copies of a placement session, stepping by the session's
+ * size plus the spacing. The session itself is the copy in row 0, column 0 and is not
+ * duplicated. A copy is placed only if every one of its objects fits on the grid
+ * without touching existing objects on the level, earlier copies or their clearance; otherwise the whole
+ * copy is reported as failed.
+ */
+export const planArrayPlacement = (
+  floorPlan: FloorPlan,
+  levelId: string,
+  objectLibrary: FactoryObject[],
+  items: PlacementItem[],
+  position: GridPosition,
+  options: ArrayOptions
+): ArrayPlacementPlan => {
+  const objectsById = indexObjects(objectLibrary);
+  const index = buildFloorPlanIndex(floorPlan, objectLibrary, levelId);
+  const size = getPlacementSize(items, objectsById);
+  const placements: Omit<PlacedObject, 'id'>[] = [];
+  const failedCopies: FailedCopy[] = [];
+  let copies = 0;
+
+  for (let row = 0; row < options.rows; row++) {
+    for (let column = 0; column < options.columns; column++) {
+      if (row === 0 && column === 0) continue;
+      copies++;
+
+      const copyPosition = {
+        x: position.x + column * (size.width + options.spacingX),
+        y: position.y + row * (size.depth + options.spacingY),
+        z: position.z
+      };
+      const footprints = resolvePlacementItems(items, copyPosition).flatMap((placement) => {
+        const object = objectsById.get(placement.objectId);
+        return object ? [{ placement, shape: getObjectCollisionShape(object, placement.position, placement.rotation) }] : [];
+      });
+
+      const blocked = footprints.find(({ shape }) => !isPlacementValid(index, shape));
+      if (blocked) {
+        failedCopies.push({ row, column, reason: blocked.shape.parts.every(isInsideGrid) ? 'collision' : 'outside-grid' });
+        continue;
+      }
+
+      footprints.forEach(({ placement, shape }, itemIndex) => {
+        index.insert(`array-${row}-${column}-${itemIndex}`, shape);
+        placements.push({ objectId: placement.objectId, levelId, position: placement.position, rotation: placement.rotation });
+      });
+    }
+  }
+
+  return { placements, copies, failedCopies };
+};
@@ -0,0 +1,69 @@
+import { FactoryObject, FloorPlan } from '../store/designStore';
+
+export type TableRow = Array<string | number>;
+
+export interface BillOfMaterials {
+  // One row per placed instance, after a header row
+  schedule: TableRow[];
+  // One row per library object with counts and areas, after a header row and ending in a total row
+  summary: TableRow[];
+}
+
+// Footprint area in square grid units, counting only the cells of shaped objects
+const footprintArea = (object: FactoryObject) => object.cells?.length ?? object.dimensions.x * object.dimensions.y;
+
+/**
+ * Join a floor plan's placements to the object library as tables for purchasing and
+ * install crews. Placements whose library object is missing are left out.
+ */
+export const buildBillOfMaterials = (floorPlan: FloorPlan, objectLibrary: FactoryObject[]): BillOfMaterials => {
+  const objectsById = new Map(objectLibrary.map(obj => [obj.id, obj]));
+  const levelsById = new Map(floorPlan.levels.map(level => [level.id, level]));
+  const schedule: TableRow[] = [[
+    'Instance ID', 'Label', 'Serial Number', 'Level', 'Object', 'Width (X)', 'Depth (Y)', 'Height (Z)',
+    'Color', 'Position X', 'Position Y', 'Position Z', 'Rotation', 'Footprint Area'
+  ]];
+  const counts = new Map<string, number>();
+
+  floorPlan.objects.forEach((placement) => {
+    const object = objectsById.get(placement.objectId);
+    if (!object) return;
+
+    const { x, y, z } = object.dimensions;
+    schedule.push([
+      placement.id,
+      placement.metadata?.label ?? '',
+      placement.metadata?.serialNumber ?? '',
+      levelsById.get(placement.levelId)?.name ?? '',
+      object.name,
+      x, y, z,
+      object.color,
+      placement.position.x, placement.position.y, placement.position.z,
+      placement.rotation,
+      footprintArea(object)
+    ]);
+    counts.set(object.id, (counts.get(object.id) ?? 0) + 1);
+  });
+
+  const summary: TableRow[] = [['Object', 'Width (X)', 'Depth (Y)', 'Height (Z)', 'Count', 'Area Each', 'Total Area']];
+  let totalCount = 0;
+  let totalArea = 0;
+  counts.forEach((count, objectId) => {
+    const object = objectsById.get(objectId)!;
+    const area = footprintArea(object);
+    summary.push([object.name, object.dimensions.x, object.dimensions.y, object.dimensions.z, count, area, area * count]);
+    totalCount += count;
+    totalArea += area * count;
+  });
+  summary.push(['Total', '', '', '', totalCount, '', totalArea]);
+
+  return { schedule, summary };
+};
+
+// RFC 4180 CSV, quoting only the cells that need it. Text that a spreadsheet would read
+// as a formula is prefixed with an apostrophe.
+export const toCsv = (rows: TableRow[]) =>
+  rows.map(row => row.map((cell) => {
+    const text = typeof cell === 'string' && /^[=+\-@]/.test(cell) ? `'${cell}` : String(cell);
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+  }).join(',')).join('\r\n') + '\r\n';
@@ -0,0 +1,64 @@
+import { FactoryObject, GridCell, KeepOutZone } from '../store/designStore';
+import { Footprint, getFootprint, normalizeRotation } from './footprint';
+
+// Widest clearance margin on any side of an object, in grid units
+export const MAX_CLEARANCE = 50;
+
+export type ClearanceSide = 'front' | 'back' | 'left' | 'right';
+export const CLEARANCE_SIDES: ClearanceSide[] = ['front', 'back', 'left', 'right'];
+
+export const CLEARANCE_COLOR = '#ffaa00';
+export const KEEP_OUT_COLOR = '#ff3333';
+
+// Whether an object keeps any space free around itself
+export const hasClearance = (object: Pick<FactoryObject, 'clearance'>) =>
+  !!object.clearance && CLEARANCE_SIDES.some(side => object.clearance![side] > 0);
+
+/**
+ * Zone kept free around a placed object: its bounding footprint widened by the margin on
+ * each side, or null without clearance. Sides are named on the unrotated object, with the
+ * front facing -Y and the right +X, and turn with the object like its cells do.
+ */
+export const getClearanceZone = (
+  object: Pick<FactoryObject, 'dimensions' | 'clearance'>,
+  position: { x: number; y: number },
+  rotation: number
+): Footprint | null => {
+  const { clearance } = object;
+  if (!clearance || !hasClearance(object)) return null;
+
+  const footprint = getFootprint(object.dimensions, position, rotation);
+  const { front, back, left, right } = clearance;
+  // Margins on the -X, +X, -Y and +Y sides of the grid
+  const [minX, maxX, minY, maxY] = {
+    0: [left, right, front, back],
+    90: [back, front, left, right],
+    180: [right, left, back, front],
+    270: [front, back, right, left]
+  }[normalizeRotation(rotation) as 0 | 90 | 180 | 270];
+
+  return {
+    minX: footprint.minX - minX,
+    minY: footprint.minY - minY,
+    maxX: footprint.maxX + maxX,
+    maxY: footprint.maxY + maxY
+  };
+};
+
+type KeepOutBounds = Pick<KeepOutZone, 'x' | 'y' | 'width' | 'depth'>;
+
+// Bounds of a keep-out zone dragged out between two opposite corner cells, both included
+export const getKeepOutBounds = (start: GridCell, end: GridCell): KeepOutBounds => ({
+  x: Math.min(start.x, end.x),
+  y: Math.min(start.y, end.y),
+  width: Math.abs(end.x - start.x) + 1,
+  depth: Math.abs(end.y - start.y) + 1
+});
+
+// Grid area of a keep-out zone
+export const getKeepOutArea = ({ x, y, width, depth }: KeepOutBounds): Footprint => ({
+  minX: x,
+  minY: y,
+  maxX: x + width,
+  maxY: y + depth
+});
@@ -0,0 +1,208 @@
+import { FactoryObject, FloorPlan, KeepOutZone, Wall } from '../store/designStore';
+import { getClearanceZone, getKeepOutArea } from './clearance';
+import { Footprint, footprintsOverlap, isInsideGrid } from './footprint';
+import { getShapeParts } from './objectShape';
+import { getWallParts } from './walls';
+
+// Size of a spatial index bucket in grid units. Most objects span one or two buckets.
+const BUCKET_SIZE = 16;
+
+// An entry is one or more footprints; shaped objects are indexed as all of their parts
+export interface SpatialIndex<K> {
+  insert: (key: K, parts: Footprint[]) => void;
+  remove: (key: K) => void;
+  query: (parts: Footprint[]) => K[];
+  size: () => number;
+}
+
+/**
+ * Uniform-grid spatial index over footprints. Each entry is registered in every
+ * bucket its parts touch, so a query only inspects entries near the queried area
+ * instead of scanning the whole floor plan.
+ */
+export const createSpatialIndex = <K>(): SpatialIndex<K> => {
+  const buckets = new Map<string, Set<K>>();
+  const entries = new Map<K, Footprint[]>();
+
+  const forEachBucket = (parts: Footprint[], callback: (bucketKey: string) => void) => {
+    parts.forEach((footprint) => {
+      const minBucketX = Math.floor(footprint.minX / BUCKET_SIZE);
+      const minBucketY = Math.floor(footprint.minY / BUCKET_SIZE);
+      // Max edges are exclusive, so a footprint ending on a bucket boundary stays out of the next one
+      const maxBucketX = Math.floor((footprint.maxX - 1e-9) / BUCKET_SIZE);
+      const maxBucketY = Math.floor((footprint.maxY - 1e-9) / BUCKET_SIZE);
+
+      for (let bx = minBucketX; bx <= maxBucketX; bx++) {
+        for (let by = minBucketY; by <= maxBucketY; by++) {
+          callback(`${bx},${by}`);
+        }
+      }
+    });
+  };
+
+  const remove = (key: K) => {
+    const parts = entries.get(key);
+    if (!parts) return;
+
+    forEachBucket(parts, (bucketKey) => {
+      const bucket = buckets.get(bucketKey);
+      bucket?.delete(key);
+      if (bucket && bucket.size === 0) buckets.delete(bucketKey);
+    });
+    entries.delete(key);
+  };
+
+  const insert = (key: K, parts: Footprint[]) => {
+    remove(key);
+    entries.set(key, parts);
+    forEachBucket(parts, (bucketKey) => {
+      let bucket = buckets.get(bucketKey);
+      if (!bucket) {
+        bucket = new Set();
+        buckets.set(bucketKey, bucket);
+      }
+      bucket.add(key);
+    });
+  };
+
+  // Keys of all entries with a part overlapping any of the given parts
+  const query = (parts: Footprint[]) => {
+    const matches = new Set<K>();
+    forEachBucket(parts, (bucketKey) => {
+      buckets.get(bucketKey)?.forEach((key) => {
+        if (matches.has(key)) return;
+        const candidate = entries.get(key);
+        if (candidate && candidate.some(part => parts.some(footprint => footprintsOverlap(part, footprint)))) {
+          matches.add(key);
+        }
+      });
+    });
+    return Array.from(matches);
+  };
+
+  return { insert, remove, query, size: () => entries.size };
+};
+
+// What an entry occupies: the solid parts nothing may overlap, and the clearance zone
+// around them that only other clearance may overlap, and only when both are shared
+export interface CollisionShape {
+  parts: Footprint[];
+  clearance: Footprint[];
+  sharedClearance: boolean;
+}
+
+// Shape of walls, keep-out zones and objects without clearance
+export const solidShape = (parts: Footprint[]): CollisionShape => ({ parts, clearance: [], sharedClearance: false });
+
+export const getObjectCollisionShape = (
+  object: Pick<FactoryObject, 'dimensions' | 'cells' | 'clearance'>,
+  position: { x: number; y: number },
+  rotation: number
+): CollisionShape => {
+  const zone = getClearanceZone(object, position, rotation);
+  return {
+    parts: getShapeParts(object, position, rotation),
+    clearance: zone ? [zone] : [],
+    sharedClearance: !!object.clearance?.shared
+  };
+};
+
+export interface CollisionIndex<K> {
+  insert: (key: K, shape: CollisionShape) => void;
+  remove: (key: K) => void;
+  query: (shape: CollisionShape) => K[];
+  size: () => number;
+}
+
+/**
+ * Spatial index over collision shapes, keeping solid parts and clearance zones apart.
+ * A query matches entries whose parts overlap the shape's parts or clearance, and entries
+ * whose clearance overlaps the shape's parts, or its clearance unless both are shared.
+ */
+export const createCollisionIndex = <K>(): CollisionIndex<K> => {
+  const solids = createSpatialIndex<K>();
+  const clearances = createSpatialIndex<K>();
+  const sharedKeys = new Set<K>();
+
+  const remove = (key: K) => {
+    solids.remove(key);
+    clearances.remove(key);
+    sharedKeys.delete(key);
+  };
+
+  const insert = (key: K, shape: CollisionShape) => {
+    remove(key);
+    solids.insert(key, shape.parts);
+    if (shape.clearance.length > 0) clearances.insert(key, shape.clearance);
+    if (shape.sharedClearance) sharedKeys.add(key);
+  };
+
+  const query = (shape: CollisionShape) => {
+    const matches = new Set([...solids.query(shape.parts), ...clearances.query(shape.parts)]);
+    if (shape.clearance.length > 0) {
+      solids.query(shape.clearance).forEach(key => matches.add(key));
+      clearances.query(shape.clearance).forEach((key) => {
+        if (!shape.sharedClearance || !sharedKeys.has(key)) matches.add(key);
+      });
+    }
+    return Array.from(matches);
+  };
+
+  return { insert, remove, query, size: solids.size };
+};
+
+// Index the footprints and clearance of every object on one level of a floor plan, keyed by
+// instance id. Walls and keep-out zones are checked against this alone, since they only
+// collide with objects.
+export const buildObjectIndex = (floorPlan: FloorPlan, objectLibrary: FactoryObject[], levelId: string) => {
+  const index = createCollisionIndex<string>();
+  const objectsById = new Map(objectLibrary.map(obj => [obj.id, obj]));
+
+  floorPlan.objects.forEach((placed) => {
+    const object = objectsById.get(placed.objectId);
+    if (!object || placed.levelId !== levelId) return;
+    index.insert(placed.id, getObjectCollisionShape(object, placed.position, placed.rotation));
+  });
+
+  return index;
+};
+
+// Index the footprints and clearance of every object, and the walls and keep-out zones, on
+// one level of a floor plan, keyed by instance, wall or zone id
+export const buildFloorPlanIndex = (floorPlan: FloorPlan, objectLibrary: FactoryObject[], levelId: string) => {
+  const index = buildObjectIndex(floorPlan, objectLibrary, levelId);
+  floorPlan.walls?.forEach((wall) => {
+    if (wall.levelId === levelId) index.insert(wall.id, solidShape(getWallParts(wall)));
+  });
+  floorPlan.keepOutZones?.forEach((zone) => {
+    if (zone.levelId === levelId) index.insert(zone.id, solidShape([getKeepOutArea(zone)]));
+  });
+
+  return index;
+};
+
+/**
+ * Whether an object can be placed with the given shape: its parts must stay inside the
+ * grid, where its clearance may reach past the edge, and it must not collide with any
+ * indexed entry other than those in `ignore`.
+ */
+export const isPlacementValid = <K>(
+  index: CollisionIndex<K>,
+  shape: CollisionShape,
+  ignore: K[] = []
+) => {
+  if (!shape.parts.every(isInsideGrid)) return false;
+  return index.query(shape).every(key => ignore.includes(key));
+};
+
+// Whether a wall fits on its level: inside the grid and clear of the objects, and their
+// clearance, in an index from buildObjectIndex for that level. Other walls may overlap it,
+// so runs can meet at corners and junctions, and so may keep-out zones.
+export const isWallPlacementValid = (objectIndex: CollisionIndex<string>, wall: Omit<Wall, 'id'>) =>
+  isPlacementValid(objectIndex, solidShape(getWallParts(wall)));
+
+// Whether a keep-out zone fits on its level: inside the grid and clear of the objects, and
+// their clearance, in an index from buildObjectIndex for that level. It may overlap walls
+// and other zones.
+export const isKeepOutPlacementValid = (objectIndex: CollisionIndex<string>, zone: Omit<KeepOutZone, 'id' | 'name' | 'levelId'>) =>
+  isPlacementValid(objectIndex, solidShape([getKeepOutArea(zone)]));
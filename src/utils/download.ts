@@ -0,0 +1,18 @@
+// Save generated content as a file through a temporary object URL
+export const downloadFile = (content: BlobPart, type: string, fileName: string) => {
+  const blob = new Blob([content], { type });
+  const url = URL.createObjectURL(blob);
+
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = fileName;
+  document.body.appendChild(a);
+  a.click();
+
+  // Clean up
+  document.body.removeChild(a);
+  URL.revokeObjectURL(url);
+};
+
+// Dated file name stem shared by exports, e.g. `floorplan-2024-05-01` or `library-2024-05-01`
+export const exportFileStem = (prefix = 'floorplan') => `${prefix}-${new Date().toISOString().slice(0, 10)}`;
@@ -0,0 +1,385 @@
+import { FactoryObject, FloorPlan } from '../store/designStore';
+import { getClearanceZone, getKeepOutArea } from './clearance';
+import { getAisleArea } from './egress';
+import { Footprint } from './footprint';
+import { ExportedObject, ExportedPlacement, ExportedSegment, FloorPlanDocument, FLOOR_PLAN_SCHEMA_VERSION } from './floorPlanSchema';
+import { getLabelPart, getShapeOutline } from './objectShape';
+import { generateId } from './ids';
+import { DEFAULT_LEVEL_NAME, createLevel, getLevelPlan } from './levels';
+import { getWallParts } from './walls';
+
+// Plain ASCII DXF in the R12 (AC1009) flavour, which every CAD package still reads.
+// Exports write POLYLINE/VERTEX/SEQEND, TEXT and LINE entities; imports read LINE,
+// LWPOLYLINE, POLYLINE and TEXT entities from the ENTITIES section and ignore everything else.
+
+const MAX_DIMENSIONS = { x: 500, y: 500, z: 100 };
+const UNDERLAY_LAYER = 'UNDERLAY';
+const WALL_LAYER = 'WALLS';
+const CLEARANCE_LAYER = 'CLEARANCE';
+const KEEP_OUT_LAYER = 'KEEPOUT';
+const EXIT_LAYER = 'EXITS';
+const AISLE_LAYER = 'AISLES';
+// Layers the exporter writes outlines to that are never objects
+const RESERVED_LAYERS = [WALL_LAYER, CLEARANCE_LAYER, KEEP_OUT_LAYER, EXIT_LAYER, AISLE_LAYER];
+const OBJECT_LAYER_PREFIX = 'OBJ_';
+
+// Basic AutoCAD Color Index entries, used to pick the closest layer color
+const ACI_COLORS: Array<[number, [number, number, number]]> = [
+  [1, [255, 0, 0]],
+  [2, [255, 255, 0]],
+  [3, [0, 255, 0]],
+  [4, [0, 255, 255]],
+  [5, [0, 0, 255]],
+  [6, [255, 0, 255]],
+  [7, [255, 255, 255]],
+  [8, [128, 128, 128]],
+  [9, [192, 192, 192]]
+];
+
+const toAciColor = (hex: string) => {
+  const rgb = [1, 3, 5].map(i => parseInt(hex.slice(i, i + 2), 16));
+  let best = ACI_COLORS[0];
+  let bestDistance = Infinity;
+  ACI_COLORS.forEach((entry) => {
+    const distance = entry[1].reduce((sum, channel, i) => sum + (channel - rgb[i]) ** 2, 0);
+    if (distance < bestDistance) {
+      best = entry;
+      bestDistance = distance;
+    }
+  });
+  return best[0];
+};
+
+// R12 layer names allow letters, digits, `$`, `-` and `_`
+const toLayerName = (name: string) =>
+  OBJECT_LAYER_PREFIX + (name.toUpperCase().replace(/[^A-Z0-9$_-]/g, '_') || 'OBJECT');
+
+const group = (code: number, value: string | number) => `${code}\n${value}`;
+
+/**
+ * Write one level of a floor plan as DXF: every placed object's footprint becomes a closed
+ * polyline with its name as a centred text entity, both on a layer named after its library
+ * object. Wall runs are written as closed polylines on the WALLS layer, split at their
+ * openings, object clearance, keep-out zones, exits and aisles as closed polylines on the
+ * CLEARANCE, KEEPOUT, EXITS and AISLES layers, and underlay segments as lines on the
+ * UNDERLAY layer. Drawing units are grid units. Levels are written one per file so upper
+ * floors don't land on top of the ones below.
+ */
+export const buildFloorPlanDxf = (fullPlan: FloorPlan, objectLibrary: FactoryObject[], levelId: string) => {
+  const floorPlan = getLevelPlan(fullPlan, levelId);
+  const layers = new Map<string, { name: string; color: number }>();
+  const usedLayerNames = new Set<string>();
+  const layerFor = (object: FactoryObject) => {
+    let layer = layers.get(object.id);
+    if (!layer) {
+      const base = toLayerName(object.name);
+      let name = base;
+      for (let suffix = 2; usedLayerNames.has(name); suffix++) name = `${base}_${suffix}`;
+      usedLayerNames.add(name);
+      layer = { name, color: toAciColor(object.color) };
+      layers.set(object.id, layer);
+    }
+    return layer.name;
+  };
+
+  const entities: string[] = [];
+  const objectsById = new Map(objectLibrary.map(obj => [obj.id, obj]));
+  floorPlan.objects.forEach((placement) => {
+    const object = objectsById.get(placement.objectId);
+    if (!object) return;
+
+    // One closed polyline per outline loop; shaped objects may have holes
+    const layer = layerFor(object);
+    getShapeOutline(object, placement.position, placement.rotation).forEach((loop) => {
+      entities.push(group(0, 'POLYLINE'), group(8, layer), group(66, 1), group(10, 0), group(20, 0), group(30, 0), group(70, 1));
+      loop.forEach(({ x, y }) => {
+        entities.push(group(0, 'VERTEX'), group(8, layer), group(10, x), group(20, y), group(30, 0));
+      });
+      entities.push(group(0, 'SEQEND'), group(8, layer));
+    });
+
+    // Text height scaled to the footprint so names stay inside small objects
+    const { minX, minY, maxX, maxY } = getLabelPart(object, placement.position, placement.rotation);
+    const centerX = (minX + maxX) / 2;
+    const centerY = (minY + maxY) / 2;
+    const height = Math.max(0.1, Math.min(1, (maxY - minY) / 2, (maxX - minX) / Math.max(1, object.name.length)));
+    entities.push(
+      group(0, 'TEXT'), group(8, layer),
+      group(10, centerX), group(20, centerY), group(30, 0),
+      group(40, +height.toFixed(3)), group(1, object.name),
+      group(72, 4), group(11, centerX), group(21, centerY), group(31, 0)
+    );
+  });
+
+  const addRectangle = (layer: string, { minX, minY, maxX, maxY }: Footprint) => {
+    entities.push(group(0, 'POLYLINE'), group(8, layer), group(66, 1), group(10, 0), group(20, 0), group(30, 0), group(70, 1));
+    [[minX, minY], [maxX, minY], [maxX, maxY], [minX, maxY]].forEach(([x, y]) => {
+      entities.push(group(0, 'VERTEX'), group(8, layer), group(10, x), group(20, y), group(30, 0));
+    });
+    entities.push(group(0, 'SEQEND'), group(8, layer));
+  };
+
+  (floorPlan.walls ?? []).flatMap(getWallParts).forEach(part => addRectangle(WALL_LAYER, part));
+
+  const clearanceZones = floorPlan.objects.flatMap((placement) => {
+    const object = objectsById.get(placement.objectId);
+    const zone = object && getClearanceZone(object, placement.position, placement.rotation);
+    return zone ? [zone] : [];
+  });
+  clearanceZones.forEach(zone => addRectangle(CLEARANCE_LAYER, zone));
+  (floorPlan.keepOutZones ?? []).forEach(zone => addRectangle(KEEP_OUT_LAYER, getKeepOutArea(zone)));
+  (floorPlan.exits ?? []).forEach(exit => addRectangle(EXIT_LAYER, getKeepOutArea(exit)));
+  (floorPlan.aisles ?? []).forEach(aisle => addRectangle(AISLE_LAYER, getAisleArea(aisle)));
+
+  (floorPlan.underlay ?? []).forEach((segment) => {
+    entities.push(
+      group(0, 'LINE'), group(8, UNDERLAY_LAYER),
+      group(10, segment.x1), group(20, segment.y1), group(30, 0),
+      group(11, segment.x2), group(21, segment.y2), group(31, 0)
+    );
+  });
+
+  const layerEntries = [
+    { name: '0', color: 7 },
+    ...(floorPlan.walls?.length ? [{ name: WALL_LAYER, color: 9 }] : []),
+    ...(clearanceZones.length ? [{ name: CLEARANCE_LAYER, color: 2 }] : []),
+    ...(floorPlan.keepOutZones?.length ? [{ name: KEEP_OUT_LAYER, color: 1 }] : []),
+    ...(floorPlan.exits?.length ? [{ name: EXIT_LAYER, color: 3 }] : []),
+    ...(floorPlan.aisles?.length ? [{ name: AISLE_LAYER, color: 5 }] : []),
+    ...(floorPlan.underlay?.length ? [{ name: UNDERLAY_LAYER, color: 8 }] : []),
+    ...Array.from(layers.values())
+  ];
+  const tables = [
+    group(0, 'SECTION'), group(2, 'TABLES'),
+    group(0, 'TABLE'), group(2, 'LTYPE'), group(70, 1),
+    group(0, 'LTYPE'), group(2, 'CONTINUOUS'), group(70, 0), group(3, 'Solid line'), group(72, 65), group(73, 0), group(40, 0),
+    group(0, 'ENDTAB'),
+    group(0, 'TABLE'), group(2, 'LAYER'), group(70, layerEntries.length),
+    ...layerEntries.map(layer => [group(0, 'LAYER'), group(2, layer.name), group(70, 0), group(62, layer.color), group(6, 'CONTINUOUS')].join('\n')),
+    group(0, 'ENDTAB'),
+    group(0, 'ENDSEC')
+  ];
+
+  return [
+    group(0, 'SECTION'), group(2, 'HEADER'), group(9, '$ACADVER'), group(1, 'AC1009'), group(0, 'ENDSEC'),
+    ...tables,
+    group(0, 'SECTION'), group(2, 'ENTITIES'), ...entities, group(0, 'ENDSEC'),
+    group(0, 'EOF')
+  ].join('\n') + '\n';
+};
+
+// --- Import ---
+
+export interface DxfShape {
+  layer: string;
+  points: Array<{ x: number; y: number }>;
+  closed: boolean;
+}
+
+export interface DxfText {
+  layer: string;
+  x: number;
+  y: number;
+  text: string;
+}
+
+export interface DxfParseResult {
+  shapes: DxfShape[];
+  // Used to name objects created from the rectangles they sit in
+  texts: DxfText[];
+  // Entities of other types, e.g. arcs or circles, which are not imported
+  ignoredEntities: number;
+}
+
+/**
+ * Read the LINE, LWPOLYLINE, POLYLINE and TEXT entities of an ASCII DXF file. Polyline bulges
+ * are ignored, so arcs in polylines come through as straight segments. Throws when the
+ * file has no ENTITIES section.
+ */
+export const parseDxf = (text: string): DxfParseResult => {
+  const lines = text.split(/\r?\n/);
+  const pairs: Array<[number, string]> = [];
+  for (let i = 0; i + 1 < lines.length; i += 2) {
+    pairs.push([parseInt(lines[i].trim(), 10), lines[i + 1].trim()]);
+  }
+
+  const start = pairs.findIndex(([code, value], i) => code === 0 && value === 'SECTION' && pairs[i + 1]?.[0] === 2 && pairs[i + 1][1] === 'ENTITIES');
+  if (start === -1) {
+    throw new Error('The file has no ENTITIES section');
+  }
+
+  // Split the section into entities, each a type and its group pairs
+  const entities: Array<{ type: string; groups: Array<[number, string]> }> = [];
+  for (let i = start + 2; i < pairs.length; i++) {
+    const [code, value] = pairs[i];
+    if (code === 0 && value === 'ENDSEC') break;
+    if (code === 0) {
+      entities.push({ type: value, groups: [] });
+    } else if (entities.length > 0) {
+      entities[entities.length - 1].groups.push([code, value]);
+    }
+  }
+
+  const shapes: DxfShape[] = [];
+  const texts: DxfText[] = [];
+  let ignoredEntities = 0;
+  let polyline: DxfShape | null = null;
+
+  entities.forEach(({ type, groups }) => {
+    const layer = groups.find(([code]) => code === 8)?.[1] ?? '0';
+    const value = (code: number) => parseFloat(groups.find(([c]) => c === code)?.[1] ?? '0');
+
+    switch (type) {
+      case 'LINE':
+        shapes.push({ layer, points: [{ x: value(10), y: value(20) }, { x: value(11), y: value(21) }], closed: false });
+        break;
+      case 'LWPOLYLINE': {
+        // Vertices are repeated 10/20 pairs in order
+        const points: DxfShape['points'] = [];
+        groups.forEach(([code, raw]) => {
+          if (code === 10) points.push({ x: parseFloat(raw), y: 0 });
+          if (code === 20 && points.length > 0) points[points.length - 1].y = parseFloat(raw);
+        });
+        shapes.push({ layer, points, closed: (value(70) & 1) === 1 });
+        break;
+      }
+      case 'POLYLINE':
+        polyline = { layer, points: [], closed: (value(70) & 1) === 1 };
+        break;
+      case 'VERTEX':
+        polyline?.points.push({ x: value(10), y: value(20) });
+        break;
+      case 'SEQEND':
+        if (polyline) shapes.push(polyline);
+        polyline = null;
+        break;
+      case 'TEXT': {
+        const text = groups.find(([code]) => code === 1)?.[1];
+        if (text) texts.push({ layer, x: value(10), y: value(20), text });
+        break;
+      }
+      default:
+        ignoredEntities++;
+    }
+  });
+
+  return {
+    shapes: shapes.filter(shape => shape.points.every(p => Number.isFinite(p.x) && Number.isFinite(p.y))),
+    texts,
+    ignoredEntities
+  };
+};
+
+export interface DxfImportOptions {
+  // Drawing units per grid unit, e.g. 1000 for a drawing in millimetres on a metre grid
+  scale: number;
+  // Turn closed axis-aligned rectangles into placed objects instead of underlay
+  detectObjects: boolean;
+  // Height given to objects created from rectangles
+  objectHeight: number;
+}
+
+// Closed four-corner polylines whose edges run along the axes
+const asRectangle = (shape: DxfShape) => {
+  const points = shape.points.slice();
+  const first = points[0];
+  const last = points[points.length - 1];
+  if (points.length === 5 && first.x === last.x && first.y === last.y) points.pop();
+  if (!shape.closed && points.length === shape.points.length) return null;
+  if (points.length !== 4) return null;
+
+  const isAxisAligned = points.every((p, i) => {
+    const next = points[(i + 1) % 4];
+    return p.x === next.x || p.y === next.y;
+  });
+  if (!isAxisAligned) return null;
+
+  return {
+    minX: Math.min(...points.map(p => p.x)),
+    minY: Math.min(...points.map(p => p.y)),
+    maxX: Math.max(...points.map(p => p.x)),
+    maxY: Math.max(...points.map(p => p.y))
+  };
+};
+
+/**
+ * Convert DXF shapes into a floor plan document in grid units. Drawings reaching into
+ * negative coordinates are shifted so they start at the grid origin. With object
+ * detection on, rectangles that fit the library limits become placements of an object
+ * named by the text inside them on the same layer, or else after their layer; everything
+ * else, including outlines on the WALLS, CLEARANCE, KEEPOUT, EXITS and AISLES layers, becomes
+ * underlay segments.
+ */
+export const dxfToFloorPlanDocument = (
+  drawing: DxfParseResult,
+  name: string,
+  options: DxfImportOptions
+): FloorPlanDocument => {
+  const { shapes, texts } = drawing;
+  // Found in a loop: building drawings have too many vertices to spread into Math.min
+  let shiftX = 0;
+  let shiftY = 0;
+  shapes.forEach(shape => shape.points.forEach((p) => {
+    shiftX = Math.min(shiftX, p.x / options.scale);
+    shiftY = Math.min(shiftY, p.y / options.scale);
+  }));
+  const toGrid = (p: { x: number; y: number }) => ({ x: p.x / options.scale - shiftX, y: p.y / options.scale - shiftY });
+
+  // A drawing is a single storey, so everything lands on the ground level
+  const level = createLevel(DEFAULT_LEVEL_NAME, 0);
+  const objects: ExportedObject[] = [];
+  const placements: ExportedPlacement[] = [];
+  const underlay: ExportedSegment[] = [];
+
+  shapes.forEach((shape) => {
+    const points = shape.points.map(toGrid);
+    const rectangle = options.detectObjects && !RESERVED_LAYERS.includes(shape.layer) ? asRectangle({ ...shape, points }) : null;
+    const width = rectangle && Math.round(rectangle.maxX - rectangle.minX);
+    const depth = rectangle && Math.round(rectangle.maxY - rectangle.minY);
+
+    if (rectangle && width && depth && width <= MAX_DIMENSIONS.x && depth <= MAX_DIMENSIONS.y) {
+      const label = texts.find((text) => {
+        const point = toGrid(text);
+        return text.layer === shape.layer &&
+          point.x >= rectangle.minX && point.x <= rectangle.maxX && point.y >= rectangle.minY && point.y <= rectangle.maxY;
+      });
+      const objectName = label?.text ??
+        (shape.layer.startsWith(OBJECT_LAYER_PREFIX) ? shape.layer.slice(OBJECT_LAYER_PREFIX.length) : shape.layer);
+      // A rectangle with swapped sides on the same layer is the same object turned 90 degrees
+      let object = objects.find(obj => obj.name === objectName && obj.dimensions.x === width && obj.dimensions.y === depth);
+      let rotation = 0;
+      if (!object) {
+        object = objects.find(obj => obj.name === objectName && obj.dimensions.x === depth && obj.dimensions.y === width);
+        rotation = object ? 90 : 0;
+      }
+      if (!object) {
+        object = {
+          id: `dxf-${objects.length + 1}`,
+          name: objectName,
+          dimensions: { x: width, y: depth, z: options.objectHeight },
+          color: '#aaaaaa'
+        };
+        objects.push(object);
+      }
+
+      placements.push({
+        id: generateId('instance'),
+        objectId: object.id,
+        levelId: level.id,
+        position: { x: Math.round(rectangle.minX), y: Math.round(rectangle.minY), z: 0 },
+        rotation
+      });
+      return;
+    }
+
+    const segmentCount = shape.closed ? points.length : points.length - 1;
+    for (let i = 0; i < segmentCount; i++) {
+      const from = points[i];
+      const to = points[(i + 1) % points.length];
+      underlay.push({ x1: from.x, y1: from.y, x2: to.x, y2: to.y });
+    }
+  });
+
+  return { schemaVersion: FLOOR_PLAN_SCHEMA_VERSION, name, levels: [level], objects, placements, underlay };
+};
+
@@ -0,0 +1,331 @@
+import { Aisle, FactoryObject, FloorPlan, GridCell } from '../store/designStore';
+import { getKeepOutArea } from './clearance';
+import { Footprint, GRID_SIZE, getFootprint, normalizeRotation } from './footprint';
+import { getShapeParts } from './objectShape';
+import { getWallParts } from './walls';
+
+// Aisles drawn with the egress tool start out wide enough for a pallet truck
+export const DEFAULT_AISLE_WIDTH = 3;
+export const MAX_AISLE_WIDTH = 50;
+// Narrowest gap a person must fit through on the way to an exit, in grid units
+export const DEFAULT_EGRESS_PATH_WIDTH = 1;
+export const MAX_EGRESS_PATH_WIDTH = 20;
+export const EXIT_COLOR = '#33cc66';
+export const AISLE_COLOR = '#3399ff';
+
+/**
+ * Cells covered by an aisle: the run of cells between its ends, widened to its width
+ * across the run. An even width puts the extra cell on the +X or +Y side. Runs of a
+ * single cell count as running along X, like walls.
+ */
+export const getAisleArea = ({ start, end, width }: Pick<Aisle, 'start' | 'end' | 'width'>): Footprint => {
+  const before = Math.floor((width - 1) / 2);
+  if (start.y === end.y) {
+    return {
+      minX: Math.min(start.x, end.x),
+      minY: start.y - before,
+      maxX: Math.max(start.x, end.x) + 1,
+      maxY: start.y - before + width
+    };
+  }
+  return {
+    minX: start.x - before,
+    minY: Math.min(start.y, end.y),
+    maxX: start.x - before + width,
+    maxY: Math.max(start.y, end.y) + 1
+  };
+};
+
+export interface ObjectEgress {
+  instanceId: string;
+  name: string;
+  reachable: boolean;
+  // Min corners of the path-width squares walked from the access side to the nearest
+  // exit; empty when no exit can be reached
+  path: GridCell[];
+  // Row of cells along the object's access side
+  accessCells: GridCell[];
+}
+
+export interface AisleCheck {
+  aisleId: string;
+  name: string;
+  width: number;
+  // Narrowest clear width left across the aisle
+  clearWidth: number;
+  // Cells of the aisle covered by objects, walls or keep-out zones
+  obstructedCells: GridCell[];
+}
+
+export interface EgressReport {
+  levelId: string;
+  pathWidth: number;
+  hasExits: boolean;
+  // Left empty when the level has no exits to reach
+  objects: ObjectEgress[];
+  aisles: AisleCheck[];
+}
+
+// Side of the grid an object's front faces once rotated. Unrotated fronts face -Y, as
+// with clearance, and operators reach the object from there.
+const FRONT_SIDES = { 0: 'minY', 90: 'maxX', 180: 'maxY', 270: 'minX' } as const;
+
+// Cells covered by solids, over the part of the grid the search may use
+interface OccupancyGrid {
+  region: Footprint;
+  width: number;
+  height: number;
+  blocked: Uint8Array;
+}
+
+const buildOccupancy = (region: Footprint, solids: Footprint[]): OccupancyGrid => {
+  const width = region.maxX - region.minX;
+  const height = region.maxY - region.minY;
+  const blocked = new Uint8Array(width * height);
+
+  // Walls can be thick enough to cover part of a cell; the whole cell counts as blocked
+  solids.forEach((part) => {
+    const minX = Math.max(region.minX, Math.floor(part.minX));
+    const minY = Math.max(region.minY, Math.floor(part.minY));
+    const maxX = Math.min(region.maxX, Math.ceil(part.maxX));
+    const maxY = Math.min(region.maxY, Math.ceil(part.maxY));
+    for (let y = minY; y < maxY; y++) {
+      blocked.fill(1, (y - region.minY) * width + (minX - region.minX), (y - region.minY) * width + (maxX - region.minX));
+    }
+  });
+
+  return { region, width, height, blocked };
+};
+
+/**
+ * Whether a square of the path width fits with its min corner on each cell, worked out
+ * lazily from the length of the free run starting at every cell, capped at the width.
+ */
+const createPassability = ({ region, width, height, blocked }: OccupancyGrid, pathWidth: number) => {
+  const freeRun = new Uint8Array(width * height);
+  for (let y = 0; y < height; y++) {
+    let run = 0;
+    for (let x = width - 1; x >= 0; x--) {
+      run = blocked[y * width + x] ? 0 : Math.min(pathWidth, run + 1);
+      freeRun[y * width + x] = run;
+    }
+  }
+
+  // 0 until worked out, then 1 for passable and 2 for blocked
+  const known = new Uint8Array(width * height);
+  return (x: number, y: number) => {
+    const localX = x - region.minX;
+    const localY = y - region.minY;
+    if (localX < 0 || localY < 0 || localX + pathWidth > width || localY + pathWidth > height) return false;
+
+    const key = localY * width + localX;
+    if (known[key] === 0) {
+      let fits = true;
+      for (let dy = 0; dy < pathWidth && fits; dy++) {
+        fits = freeRun[(localY + dy) * width + localX] >= pathWidth;
+      }
+      known[key] = fits ? 1 : 2;
+    }
+    return known[key] === 1;
+  };
+};
+
+// Distance of a square no exit can be reached from
+const UNREACHED = -1;
+
+/**
+ * Breadth-first search over path-width squares from every square overlapping an exit,
+ * moving one cell at a time along the axes. Gives the number of steps from each square to
+ * the nearest exit, keyed like the occupancy grid, so one search serves every object on
+ * the level.
+ */
+const buildExitDistances = (
+  grid: OccupancyGrid,
+  isPassable: (x: number, y: number) => boolean,
+  exits: Footprint[],
+  pathWidth: number
+) => {
+  const { region, width, height } = grid;
+  const distances = new Int32Array(width * height).fill(UNREACHED);
+  // Every square is queued at most once
+  const queue = new Int32Array(width * height);
+  let head = 0;
+  let tail = 0;
+
+  // A square overlaps an exit when its min corner is less than the path width before it
+  exits.forEach((exit) => {
+    for (let y = Math.max(region.minY, exit.minY - pathWidth + 1); y < Math.min(region.maxY, exit.maxY); y++) {
+      for (let x = Math.max(region.minX, exit.minX - pathWidth + 1); x < Math.min(region.maxX, exit.maxX); x++) {
+        const key = (y - region.minY) * width + (x - region.minX);
+        if (distances[key] !== UNREACHED || !isPassable(x, y)) continue;
+        distances[key] = 0;
+        queue[tail++] = key;
+      }
+    }
+  });
+
+  while (head < tail) {
+    const key = queue[head++];
+    const localX = key % width;
+    const localY = (key - localX) / width;
+    const distance = distances[key] + 1;
+    for (const [nx, ny] of [[localX + 1, localY], [localX - 1, localY], [localX, localY + 1], [localX, localY - 1]]) {
+      if (nx < 0 || ny < 0 || nx >= width || ny >= height) continue;
+      const next = ny * width + nx;
+      if (distances[next] !== UNREACHED || !isPassable(region.minX + nx, region.minY + ny)) continue;
+      distances[next] = distance;
+      queue[tail++] = next;
+    }
+  }
+
+  return distances;
+};
+
+/**
+ * Shortest path from the closest of the start squares to an exit, found by stepping down
+ * the exit distances one square at a time. Returns the squares walked, or null if no exit
+ * can be reached from any of them.
+ */
+const traceEgressPath = (grid: OccupancyGrid, distances: Int32Array, starts: GridCell[]): GridCell[] | null => {
+  const { region, width, height } = grid;
+  const distanceAt = (x: number, y: number) => {
+    const localX = x - region.minX;
+    const localY = y - region.minY;
+    if (localX < 0 || localY < 0 || localX >= width || localY >= height) return UNREACHED;
+    return distances[localY * width + localX];
+  };
+
+  const reachable = starts.filter(start => distanceAt(start.x, start.y) !== UNREACHED);
+  if (reachable.length === 0) return null;
+
+  let { x, y } = reachable.reduce((best, start) => (distanceAt(start.x, start.y) < distanceAt(best.x, best.y) ? start : best));
+  const path: GridCell[] = [{ x, y }];
+  for (let distance = distanceAt(x, y); distance > 0; distance--) {
+    [x, y] = [[x + 1, y], [x - 1, y], [x, y + 1], [x, y - 1]].find(([nx, ny]) => distanceAt(nx, ny) === distance - 1)!;
+    path.push({ x, y });
+  }
+  return path;
+};
+
+// Cells along the access side of a footprint, and the min corners of the path-width
+// squares that touch that side from outside
+const getAccessSide = (footprint: Footprint, rotation: number, pathWidth: number) => {
+  const side = FRONT_SIDES[normalizeRotation(rotation) as keyof typeof FRONT_SIDES];
+  const alongX = side === 'minY' || side === 'maxY';
+  const [from, to] = alongX ? [footprint.minX, footprint.maxX] : [footprint.minY, footprint.maxY];
+  const row = { minY: footprint.minY - 1, maxY: footprint.maxY, minX: footprint.minX - 1, maxX: footprint.maxX }[side];
+  const startRow = { minY: footprint.minY - pathWidth, maxY: footprint.maxY, minX: footprint.minX - pathWidth, maxX: footprint.maxX }[side];
+
+  const accessCells: GridCell[] = [];
+  for (let i = from; i < to; i++) accessCells.push(alongX ? { x: i, y: row } : { x: row, y: i });
+  const starts: GridCell[] = [];
+  for (let i = from - pathWidth + 1; i < to; i++) starts.push(alongX ? { x: i, y: startRow } : { x: startRow, y: i });
+
+  const onGrid = (cell: GridCell) => cell.x >= 0 && cell.y >= 0 && cell.x < GRID_SIZE && cell.y < GRID_SIZE;
+  return { accessCells: accessCells.filter(onGrid), starts };
+};
+
+// Clear width left across an aisle: at each step along it, the longest run of free cells
+// across, and the narrowest of those
+const checkAisle = (grid: OccupancyGrid, aisle: Aisle): AisleCheck => {
+  const area = getAisleArea(aisle);
+  const alongX = aisle.start.y === aisle.end.y;
+  const isBlocked = (x: number, y: number) =>
+    grid.blocked[(y - grid.region.minY) * grid.width + (x - grid.region.minX)] === 1;
+
+  const obstructedCells: GridCell[] = [];
+  let clearWidth = aisle.width;
+  const [alongFrom, alongTo, acrossFrom, acrossTo] = alongX
+    ? [area.minX, area.maxX, area.minY, area.maxY]
+    : [area.minY, area.maxY, area.minX, area.maxX];
+  for (let i = alongFrom; i < alongTo; i++) {
+    let run = 0;
+    let longest = 0;
+    for (let j = acrossFrom; j < acrossTo; j++) {
+      const cell = alongX ? { x: i, y: j } : { x: j, y: i };
+      if (isBlocked(cell.x, cell.y)) {
+        obstructedCells.push(cell);
+        run = 0;
+      } else {
+        run++;
+        longest = Math.max(longest, run);
+      }
+    }
+    clearWidth = Math.min(clearWidth, longest);
+  }
+
+  return { aisleId: aisle.id, name: aisle.name, width: aisle.width, clearWidth, obstructedCells };
+};
+
+/**
+ * Check egress on one level of a floor plan. Objects, walls and keep-out zones block
+ * movement; clearance doesn't, since it is space kept free for people. Every placed
+ * object needs a path at least `pathWidth` wide from its access side to an exit on the
+ * level, and every aisle needs its full width clear of objects, walls and keep-out zones.
+ */
+export const validateEgress = (
+  floorPlan: FloorPlan,
+  objectLibrary: FactoryObject[],
+  levelId: string,
+  pathWidth: number
+): EgressReport => {
+  const objectsById = new Map(objectLibrary.map(obj => [obj.id, obj]));
+  const placed = floorPlan.objects.flatMap((placement) => {
+    const object = objectsById.get(placement.objectId);
+    return object && placement.levelId === levelId ? [{ placement, object }] : [];
+  });
+  const solids = [
+    ...placed.flatMap(({ placement, object }) => getShapeParts(object, placement.position, placement.rotation)),
+    ...(floorPlan.walls ?? []).filter(wall => wall.levelId === levelId).flatMap(getWallParts),
+    ...(floorPlan.keepOutZones ?? []).filter(zone => zone.levelId === levelId).map(getKeepOutArea)
+  ];
+  const exits = (floorPlan.exits ?? []).filter(exit => exit.levelId === levelId).map(getKeepOutArea);
+  const aisles = (floorPlan.aisles ?? []).filter(aisle => aisle.levelId === levelId);
+
+  // Search only around what is on the level, with room to walk around its edges; the
+  // grid beyond is empty, so no shorter path can leave this region
+  const footprints = placed.map(({ placement, object }) => getFootprint(object.dimensions, placement.position, placement.rotation));
+  // Bounds are gathered in a loop; large plans have too many parts to spread into Math.min
+  const extents = [...footprints, ...solids, ...exits, ...aisles.map(getAisleArea)];
+  const bounds = { minX: Infinity, minY: Infinity, maxX: -Infinity, maxY: -Infinity };
+  extents.forEach((area) => {
+    bounds.minX = Math.min(bounds.minX, area.minX);
+    bounds.minY = Math.min(bounds.minY, area.minY);
+    bounds.maxX = Math.max(bounds.maxX, area.maxX);
+    bounds.maxY = Math.max(bounds.maxY, area.maxY);
+  });
+  const margin = pathWidth + 1;
+  const region = extents.length === 0
+    ? { minX: 0, minY: 0, maxX: 0, maxY: 0 }
+    : {
+        minX: Math.max(0, Math.floor(bounds.minX) - margin),
+        minY: Math.max(0, Math.floor(bounds.minY) - margin),
+        maxX: Math.min(GRID_SIZE, Math.ceil(bounds.maxX) + margin),
+        maxY: Math.min(GRID_SIZE, Math.ceil(bounds.maxY) + margin)
+      };
+  const grid = buildOccupancy(region, solids);
+
+  const report: EgressReport = {
+    levelId,
+    pathWidth,
+    hasExits: exits.length > 0,
+    objects: [],
+    aisles: aisles.map(aisle => checkAisle(grid, aisle))
+  };
+  if (exits.length === 0) return report;
+
+  const distances = buildExitDistances(grid, createPassability(grid, pathWidth), exits, pathWidth);
+  report.objects = placed.map(({ placement, object }, index) => {
+    const { accessCells, starts } = getAccessSide(footprints[index], placement.rotation, pathWidth);
+    const path = traceEgressPath(grid, distances, starts);
+    return {
+      instanceId: placement.id,
+      name: placement.metadata?.label ? `${object.name} (${placement.metadata.label})` : object.name,
+      reachable: path !== null,
+      path: path ?? [],
+      accessCells
+    };
+  });
+
+  return report;
+};
@@ -0,0 +1,189 @@
+import { Aisle, Exit, FactoryObject, FloorLevel, KeepOutZone, Measurement, PlacedObject, UnderlaySegment, Wall } from '../store/designStore';
+import { ExportedClearance, ExportedObject, FloorPlanDocument } from './floorPlanSchema';
+import { CollisionIndex, createCollisionIndex, getObjectCollisionShape, isPlacementValid, solidShape } from './collision';
+import { getKeepOutArea } from './clearance';
+import { isInsideGrid } from './footprint';
+import { generateId } from './ids';
+import { getWallParts } from './walls';
+
+export interface ObjectMatch {
+  imported: ExportedObject;
+  existing: FactoryObject;
+}
+
+export interface SkippedPlacement {
+  // Index into the document's placements
+  index: number;
+  objectName: string;
+  reason: 'collision' | 'outside-grid';
+}
+
+// Everything an import will do, computed up front so it can be reviewed before applying
+export interface FloorPlanImportPlan {
+  floorPlanName: string;
+  // Library objects that will be added, with their new ids
+  createdObjects: FactoryObject[];
+  // Imported objects matched to an identical library object
+  reusedObjects: ObjectMatch[];
+  // Imported objects sharing a name with a different library object; they are created alongside it
+  nameConflicts: ObjectMatch[];
+  // Levels, and everything placed on them, get fresh ids so the same document can be imported twice
+  levels: FloorLevel[];
+  // Placements that will be added, referencing library ids
+  placements: PlacedObject[];
+  skippedPlacements: SkippedPlacement[];
+  // Reference lines copied as they are
+  underlay: UnderlaySegment[];
+  // Walls that will be added, and the number left out for reaching off the grid
+  walls: Wall[];
+  skippedWalls: number;
+  // Measurement annotations, keep-out zones, exits and aisles copied onto the new levels
+  measurements: Measurement[];
+  keepOutZones: KeepOutZone[];
+  exits: Exit[];
+  aisles: Aisle[];
+}
+
+const sameDimensions = (a: ExportedObject['dimensions'], b: ExportedObject['dimensions']) =>
+  a.x === b.x && a.y === b.y && a.z === b.z;
+
+// Same footprint cells, in any order; boxes have none
+export const sameCells = (a: ExportedObject['cells'], b: ExportedObject['cells']) => {
+  if (!a || !b) return a === b;
+  const keys = new Set(a.map(cell => `${cell.x},${cell.y}`));
+  return a.length === b.length && b.every(cell => keys.has(`${cell.x},${cell.y}`));
+};
+
+// Same margins and sharing; objects without clearance have none
+export const sameClearance = (a: ExportedClearance | undefined, b: ExportedClearance | undefined) => {
+  if (!a || !b) return a === b;
+  return a.front === b.front && a.back === b.back && a.left === b.left && a.right === b.right && a.shared === b.shared;
+};
+
+const sameShape = (a: ExportedObject, b: ExportedObject) =>
+  sameDimensions(a.dimensions, b.dimensions) && sameCells(a.cells, b.cells) && sameClearance(a.clearance, b.clearance);
+
+/**
+ * Work out how a validated document maps onto the current library. Objects are reused
+ * when the library holds one with the same id or the same name and shape; anything
+ * else is created. Walls are added first, skipping any that leave the grid, along with
+ * keep-out zones. Placements are then checked in order and skipped if they leave the grid
+ * or collide with a wall, a keep-out zone or an earlier placement on the same level.
+ */
+export const planFloorPlanImport = (
+  document: FloorPlanDocument,
+  objectLibrary: FactoryObject[]
+): FloorPlanImportPlan => {
+  const createdObjects: FactoryObject[] = [];
+  const reusedObjects: ObjectMatch[] = [];
+  const nameConflicts: ObjectMatch[] = [];
+  const libraryIds = new Map<string, string>();
+
+  document.objects.forEach((imported) => {
+    const existing =
+      objectLibrary.find(obj => obj.id === imported.id && obj.name === imported.name && sameShape(obj, imported)) ??
+      objectLibrary.find(obj => obj.name === imported.name && sameShape(obj, imported));
+
+    if (existing) {
+      reusedObjects.push({ imported, existing });
+      libraryIds.set(imported.id, existing.id);
+      return;
+    }
+
+    const sameName = objectLibrary.find(obj => obj.name === imported.name);
+    if (sameName) {
+      nameConflicts.push({ imported, existing: sameName });
+    }
+
+    const created: FactoryObject = {
+      id: generateId('object'),
+      name: imported.name,
+      dimensions: { ...imported.dimensions },
+      ...(imported.cells && { cells: imported.cells.map(cell => ({ ...cell })) }),
+      color: imported.color,
+      ...(imported.clearance && { clearance: { ...imported.clearance } }),
+      ...(imported.category && { category: imported.category }),
+      ...(imported.tags?.length && { tags: [...imported.tags] }),
+      ...(imported.manufacturer && { manufacturer: imported.manufacturer }),
+      ...(imported.model && { model: imported.model })
+    };
+    createdObjects.push(created);
+    libraryIds.set(imported.id, created.id);
+  });
+
+  const objectsById = new Map(document.objects.map(obj => [obj.id, obj]));
+  const levelsById = new Map(document.levels.map(level => [level.id, level]));
+  const levelIds = new Map(document.levels.map(level => [level.id, generateId('level')]));
+  const onNewLevel = <T extends { id: string; levelId: string }>(item: T, prefix: string): T =>
+    ({ ...item, id: generateId(prefix), levelId: levelIds.get(item.levelId)! });
+  const indexes = new Map<string, CollisionIndex<number | string>>();
+  const levelIndex = (levelId: string) => {
+    let index = indexes.get(levelId);
+    if (!index) {
+      index = createCollisionIndex<number | string>();
+      indexes.set(levelId, index);
+    }
+    return index;
+  };
+
+  const walls: Wall[] = [];
+  (document.walls ?? []).forEach((wall) => {
+    const parts = getWallParts(wall);
+    if (!parts.every(isInsideGrid)) return;
+    levelIndex(wall.levelId).insert(wall.id, solidShape(parts));
+    walls.push({
+      ...onNewLevel(wall, 'wall'),
+      start: { ...wall.start },
+      end: { ...wall.end },
+      openings: wall.openings.map(opening => ({ ...opening, id: generateId('opening') }))
+    });
+  });
+  (document.keepOutZones ?? []).forEach(zone => levelIndex(zone.levelId).insert(zone.id, solidShape([getKeepOutArea(zone)])));
+  const placements: PlacedObject[] = [];
+  const skippedPlacements: SkippedPlacement[] = [];
+
+  document.placements.forEach((placement, placementIndex) => {
+    const object = objectsById.get(placement.objectId)!;
+    const shape = getObjectCollisionShape(object, placement.position, placement.rotation);
+    const index = levelIndex(placement.levelId);
+
+    if (!isPlacementValid(index, shape)) {
+      skippedPlacements.push({
+        index: placementIndex,
+        objectName: object.name,
+        reason: shape.parts.every(isInsideGrid) ? 'collision' : 'outside-grid'
+      });
+      return;
+    }
+
+    index.insert(placementIndex, shape);
+    placements.push({
+      id: generateId('instance'),
+      objectId: libraryIds.get(placement.objectId)!,
+      levelId: levelIds.get(placement.levelId)!,
+      position: { ...placement.position, z: levelsById.get(placement.levelId)!.elevation },
+      rotation: placement.rotation,
+      ...(placement.metadata && { metadata: { ...placement.metadata } })
+    });
+  });
+
+  return {
+    floorPlanName: document.name,
+    createdObjects,
+    reusedObjects,
+    nameConflicts,
+    levels: document.levels.map(level => ({ ...level, id: levelIds.get(level.id)! })),
+    placements,
+    skippedPlacements,
+    underlay: (document.underlay ?? []).map(segment => ({ ...segment })),
+    walls,
+    skippedWalls: (document.walls ?? []).length - walls.length,
+    measurements: (document.measurements ?? []).map(measurement => ({
+      ...onNewLevel(measurement, 'measurement'),
+      points: measurement.points.map(point => ({ ...point }))
+    })),
+    keepOutZones: (document.keepOutZones ?? []).map(zone => onNewLevel(zone, 'keepout')),
+    exits: (document.exits ?? []).map(exit => onNewLevel(exit, 'exit')),
+    aisles: (document.aisles ?? []).map(aisle => ({ ...onNewLevel(aisle, 'aisle'), start: { ...aisle.start }, end: { ...aisle.end } }))
+  };
+};
@@ -0,0 +1,797 @@
+import { generateId } from './ids';
+import { GRID_SIZE, isInsideGrid } from './footprint';
+import { DEFAULT_LEVEL_NAME, createLevel } from './levels';
+import { MAX_WALL_HEIGHT, MAX_WALL_THICKNESS, checkWallOpening } from './walls';
+import { CLEARANCE_SIDES, MAX_CLEARANCE } from './clearance';
+import { MAX_AISLE_WIDTH, getAisleArea } from './egress';
+
+// Versioned schema for exported floor plan documents.
+//
+// Version history:
+//   1 - unversioned legacy export: `{ name, objects }` where every entry is a full copy
+//       of the library object plus its `position` and `rotation`
+//   2 - `schemaVersion` field, library objects listed once in `objects` and placements
+//       referencing them by id in `placements`
+//   3 - placements carry a persistent instance `id` and optional `metadata`
+//   4 - optional `underlay` of reference line segments, e.g. walls imported from DXF
+//   5 - objects may list the `cells` of a non-rectangular footprint
+//   6 - `levels` of the plan, each with an `elevation`, and placements carry the `levelId`
+//       of the level they stand on
+//   7 - optional `walls`: straight runs on a level, with `openings` cut into them
+//   8 - optional `measurements`: distance and area annotations on a level
+//   9 - objects may have `clearance` margins, and optional `keepOutZones` on a level
+//  10 - optional `exits` and `aisles` on a level, used to check egress paths,
+//       and objects may carry the catalog fields `category`, `tags`, `manufacturer` and `model`
+
+export const FLOOR_PLAN_SCHEMA_VERSION = 10;
+
+// Library object limits from the PRD
+const MAX_DIMENSIONS = { x: 500, y: 500, z: 100 };
+const COLOR_PATTERN = /^#[0-9a-fA-F]{6}$/;
+
+export interface ExportedClearance {
+  // Margins in grid units on each side of the unrotated object; the front faces -Y
+  front: number;
+  back: number;
+  left: number;
+  right: number;
+  // May overlap the clearance of other objects that share theirs
+  shared: boolean;
+}
+
+export interface ExportedObject {
+  id: string;
+  name: string;
+  dimensions: { x: number; y: number; z: number };
+  cells?: Array<{ x: number; y: number }>;
+  color: string;
+  clearance?: ExportedClearance;
+  category?: string;
+  tags?: string[];
+  manufacturer?: string;
+  model?: string;
+}
+
+export interface ExportedPlacement {
+  id: string;
+  objectId: string;
+  levelId: string;
+  position: { x: number; y: number; z: number };
+  rotation: number;
+  metadata?: { label?: string; serialNumber?: string };
+}
+
+export interface ExportedSegment {
+  x1: number;
+  y1: number;
+  x2: number;
+  y2: number;
+}
+
+export interface ExportedLevel {
+  id: string;
+  name: string;
+  elevation: number;
+}
+
+export interface ExportedWallOpening {
+  id: string;
+  // Distance from the wall's start edge along the run, and width of the gap
+  offset: number;
+  width: number;
+}
+
+export interface ExportedWall {
+  id: string;
+  levelId: string;
+  // Cells at either end of the run, on the same row or column
+  start: { x: number; y: number };
+  end: { x: number; y: number };
+  thickness: number;
+  height: number;
+  openings: ExportedWallOpening[];
+}
+
+export interface ExportedKeepOutZone {
+  id: string;
+  levelId: string;
+  name: string;
+  // Min corner and size of the area, in whole grid units
+  x: number;
+  y: number;
+  width: number;
+  depth: number;
+}
+
+export interface ExportedExit {
+  id: string;
+  levelId: string;
+  name: string;
+  // Min corner and size of the doorway area, in whole grid units
+  x: number;
+  y: number;
+  width: number;
+  depth: number;
+}
+
+export interface ExportedAisle {
+  id: string;
+  levelId: string;
+  name: string;
+  // Cells at either end of the centre line; they share a row or a column
+  start: { x: number; y: number };
+  end: { x: number; y: number };
+  // Minimum clear width across the aisle, in whole grid units
+  width: number;
+}
+
+export type MeasurementKind = 'distance' | 'area';
+
+export interface ExportedMeasurement {
+  id: string;
+  levelId: string;
+  // A distance runs between two points; an area is the polygon through three or more
+  kind: MeasurementKind;
+  points: Array<{ x: number; y: number }>;
+}
+
+export interface FloorPlanDocument {
+  schemaVersion: typeof FLOOR_PLAN_SCHEMA_VERSION;
+  name: string;
+  levels: ExportedLevel[];
+  objects: ExportedObject[];
+  placements: ExportedPlacement[];
+  underlay?: ExportedSegment[];
+  walls?: ExportedWall[];
+  measurements?: ExportedMeasurement[];
+  keepOutZones?: ExportedKeepOutZone[];
+  exits?: ExportedExit[];
+  aisles?: ExportedAisle[];
+}
+
+export interface SchemaError {
+  // Path of the offending field, e.g. `placements[3].position.x`
+  path: string;
+  message: string;
+}
+
+export type ParseResult =
+  | { ok: true; document: FloorPlanDocument; sourceVersion: number }
+  | { ok: false; errors: SchemaError[] };
+
+// --- Validation helpers ---
+
+export const isRecord = (value: unknown): value is Record<string, any> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const checkNonEmptyString = (value: unknown, path: string, errors: SchemaError[]) => {
+  if (typeof value !== 'string' || value.trim() === '') {
+    errors.push({ path, message: 'must be a non-empty string' });
+  }
+};
+
+const checkNumber = (value: unknown, path: string, errors: SchemaError[], integer = false) => {
+  if (typeof value !== 'number' || !Number.isFinite(value)) {
+    errors.push({ path, message: 'must be a number' });
+  } else if (integer && !Number.isInteger(value)) {
+    errors.push({ path, message: 'must be an integer' });
+  }
+};
+
+const checkDimensions = (value: unknown, path: string, errors: SchemaError[]) => {
+  if (!isRecord(value)) {
+    errors.push({ path, message: 'must be an object with x, y and z' });
+    return;
+  }
+  (['x', 'y', 'z'] as const).forEach((axis) => {
+    const dimension = value[axis];
+    if (typeof dimension !== 'number' || !Number.isInteger(dimension) || dimension < 1 || dimension > MAX_DIMENSIONS[axis]) {
+      errors.push({ path: `${path}.${axis}`, message: `must be an integer between 1 and ${MAX_DIMENSIONS[axis]}` });
+    }
+  });
+};
+
+const checkColor = (value: unknown, path: string, errors: SchemaError[]) => {
+  if (typeof value !== 'string' || !COLOR_PATTERN.test(value)) {
+    errors.push({ path, message: 'must be a hex color such as #aaaaaa' });
+  }
+};
+
+const checkPosition = (value: unknown, path: string, errors: SchemaError[]) => {
+  if (!isRecord(value)) {
+    errors.push({ path, message: 'must be an object with x, y and z' });
+    return;
+  }
+  checkNumber(value.x, `${path}.x`, errors, true);
+  checkNumber(value.y, `${path}.y`, errors, true);
+  checkNumber(value.z, `${path}.z`, errors);
+};
+
+const checkRotation = (value: unknown, path: string, errors: SchemaError[]) => {
+  if (typeof value !== 'number' || value % 90 !== 0) {
+    errors.push({ path, message: 'must be a multiple of 90' });
+  }
+};
+
+// --- Per-version validators, reporting paths as they appear in the file ---
+
+const validateV1 = (data: Record<string, any>) => {
+  const errors: SchemaError[] = [];
+  checkNonEmptyString(data.name, 'name', errors);
+
+  if (!Array.isArray(data.objects)) {
+    errors.push({ path: 'objects', message: 'must be an array' });
+    return errors;
+  }
+
+  data.objects.forEach((entry: unknown, index: number) => {
+    const path = `objects[${index}]`;
+    if (!isRecord(entry)) {
+      errors.push({ path, message: 'must be an object' });
+      return;
+    }
+    checkNonEmptyString(entry.name, `${path}.name`, errors);
+    checkDimensions(entry.dimensions, `${path}.dimensions`, errors);
+    if (entry.color !== undefined) checkColor(entry.color, `${path}.color`, errors);
+    checkPosition(entry.position, `${path}.position`, errors);
+    if (entry.rotation !== undefined) checkRotation(entry.rotation, `${path}.rotation`, errors);
+  });
+
+  return errors;
+};
+
+// Library objects listed once with unique ids, as in v2 and later documents and library packs.
+// Returns the ids seen so references to them can be checked.
+export const checkObjectList = (value: unknown, path: string, errors: SchemaError[]) => {
+  const objectIds = new Set<string>();
+  if (!Array.isArray(value)) {
+    errors.push({ path, message: 'must be an array' });
+    return objectIds;
+  }
+
+  value.forEach((entry: unknown, index: number) => {
+    const entryPath = `${path}[${index}]`;
+    if (!isRecord(entry)) {
+      errors.push({ path: entryPath, message: 'must be an object' });
+      return;
+    }
+    checkNonEmptyString(entry.id, `${entryPath}.id`, errors);
+    if (objectIds.has(entry.id)) {
+      errors.push({ path: `${entryPath}.id`, message: `duplicates the id "${entry.id}"` });
+    }
+    objectIds.add(entry.id);
+    checkNonEmptyString(entry.name, `${entryPath}.name`, errors);
+    checkDimensions(entry.dimensions, `${entryPath}.dimensions`, errors);
+    checkColor(entry.color, `${entryPath}.color`, errors);
+  });
+
+  return objectIds;
+};
+
+const validateV2 = (data: Record<string, any>) => {
+  const errors: SchemaError[] = [];
+  checkNonEmptyString(data.name, 'name', errors);
+
+  const objectIds = checkObjectList(data.objects, 'objects', errors);
+
+  if (!Array.isArray(data.placements)) {
+    errors.push({ path: 'placements', message: 'must be an array' });
+  } else {
+    data.placements.forEach((entry: unknown, index: number) => {
+      const path = `placements[${index}]`;
+      if (!isRecord(entry)) {
+        errors.push({ path, message: 'must be an object' });
+        return;
+      }
+      if (typeof entry.objectId !== 'string' || !objectIds.has(entry.objectId)) {
+        errors.push({ path: `${path}.objectId`, message: 'must reference an id listed in objects' });
+      }
+      checkPosition(entry.position, `${path}.position`, errors);
+      checkRotation(entry.rotation, `${path}.rotation`, errors);
+    });
+  }
+
+  return errors;
+};
+
+const validateV3 = (data: Record<string, any>) => {
+  const errors = validateV2(data);
+  if (!Array.isArray(data.placements)) return errors;
+
+  const instanceIds = new Set<string>();
+  data.placements.forEach((entry: unknown, index: number) => {
+    const path = `placements[${index}]`;
+    if (!isRecord(entry)) return;
+
+    checkNonEmptyString(entry.id, `${path}.id`, errors);
+    if (instanceIds.has(entry.id)) {
+      errors.push({ path: `${path}.id`, message: `duplicates the id "${entry.id}"` });
+    }
+    instanceIds.add(entry.id);
+
+    if (entry.metadata === undefined) return;
+    if (!isRecord(entry.metadata)) {
+      errors.push({ path: `${path}.metadata`, message: 'must be an object' });
+      return;
+    }
+    (['label', 'serialNumber'] as const).forEach((field) => {
+      if (entry.metadata[field] !== undefined && typeof entry.metadata[field] !== 'string') {
+        errors.push({ path: `${path}.metadata.${field}`, message: 'must be a string' });
+      }
+    });
+  });
+
+  return errors;
+};
+
+const validateV4 = (data: Record<string, any>) => {
+  const errors = validateV3(data);
+  if (data.underlay === undefined) return errors;
+
+  if (!Array.isArray(data.underlay)) {
+    errors.push({ path: 'underlay', message: 'must be an array' });
+    return errors;
+  }
+  data.underlay.forEach((entry: unknown, index: number) => {
+    const path = `underlay[${index}]`;
+    if (!isRecord(entry)) {
+      errors.push({ path, message: 'must be an object with x1, y1, x2 and y2' });
+      return;
+    }
+    (['x1', 'y1', 'x2', 'y2'] as const).forEach(field => checkNumber(entry[field], `${path}.${field}`, errors));
+  });
+
+  return errors;
+};
+
+// Footprint cells must be unique, lie inside the object's dimensions and not be empty
+export const checkCells = (value: unknown, dimensions: unknown, path: string, errors: SchemaError[]) => {
+  if (!Array.isArray(value) || value.length === 0) {
+    errors.push({ path, message: 'must be a non-empty array of cells' });
+    return;
+  }
+  const bounds = isRecord(dimensions) ? dimensions : {};
+  const seen = new Set<string>();
+  value.forEach((cell: unknown, index: number) => {
+    const cellPath = `${path}[${index}]`;
+    if (!isRecord(cell) || !Number.isInteger(cell.x) || !Number.isInteger(cell.y)) {
+      errors.push({ path: cellPath, message: 'must be an object with integer x and y' });
+      return;
+    }
+    if (cell.x < 0 || cell.y < 0 || !(cell.x < bounds.x) || !(cell.y < bounds.y)) {
+      errors.push({ path: cellPath, message: 'must lie inside the object dimensions' });
+    }
+    if (seen.has(`${cell.x},${cell.y}`)) {
+      errors.push({ path: cellPath, message: 'duplicates another cell' });
+    }
+    seen.add(`${cell.x},${cell.y}`);
+  });
+};
+
+const validateV5 = (data: Record<string, any>) => {
+  const errors = validateV4(data);
+  if (!Array.isArray(data.objects)) return errors;
+
+  data.objects.forEach((entry: unknown, index: number) => {
+    if (isRecord(entry) && entry.cells !== undefined) {
+      checkCells(entry.cells, entry.dimensions, `objects[${index}].cells`, errors);
+    }
+  });
+
+  return errors;
+};
+
+const validateV6 = (data: Record<string, any>) => {
+  const errors = validateV5(data);
+
+  if (!Array.isArray(data.levels) || data.levels.length === 0) {
+    errors.push({ path: 'levels', message: 'must be a non-empty array' });
+    return errors;
+  }
+  const levelIds = new Set<string>();
+  data.levels.forEach((entry: unknown, index: number) => {
+    const path = `levels[${index}]`;
+    if (!isRecord(entry)) {
+      errors.push({ path, message: 'must be an object' });
+      return;
+    }
+    checkNonEmptyString(entry.id, `${path}.id`, errors);
+    if (levelIds.has(entry.id)) {
+      errors.push({ path: `${path}.id`, message: `duplicates the id "${entry.id}"` });
+    }
+    levelIds.add(entry.id);
+    checkNonEmptyString(entry.name, `${path}.name`, errors);
+    checkNumber(entry.elevation, `${path}.elevation`, errors);
+  });
+
+  if (!Array.isArray(data.placements)) return errors;
+  data.placements.forEach((entry: unknown, index: number) => {
+    if (isRecord(entry) && !levelIds.has(entry.levelId)) {
+      errors.push({ path: `placements[${index}].levelId`, message: 'must reference a level in levels' });
+    }
+  });
+
+  return errors;
+};
+
+const checkCell = (value: unknown, path: string, errors: SchemaError[]) => {
+  const valid = isRecord(value) && Number.isInteger(value.x) && Number.isInteger(value.y);
+  if (!valid) {
+    errors.push({ path, message: 'must be an object with integer x and y' });
+  }
+  return valid;
+};
+
+const checkIntegerRange = (value: unknown, path: string, errors: SchemaError[], min: number, max: number) => {
+  const valid = typeof value === 'number' && Number.isInteger(value) && value >= min && value <= max;
+  if (!valid) {
+    errors.push({ path, message: `must be an integer between ${min} and ${max}` });
+  }
+  return valid;
+};
+
+const validateV7 = (data: Record<string, any>) => {
+  const errors = validateV6(data);
+  if (data.walls === undefined) return errors;
+
+  if (!Array.isArray(data.walls)) {
+    errors.push({ path: 'walls', message: 'must be an array' });
+    return errors;
+  }
+  const levelIds = new Set(Array.isArray(data.levels) ? data.levels.map((level: any) => level?.id) : []);
+  const wallIds = new Set<string>();
+  data.walls.forEach((entry: unknown, index: number) => {
+    const path = `walls[${index}]`;
+    if (!isRecord(entry)) {
+      errors.push({ path, message: 'must be an object' });
+      return;
+    }
+    checkNonEmptyString(entry.id, `${path}.id`, errors);
+    if (wallIds.has(entry.id)) {
+      errors.push({ path: `${path}.id`, message: `duplicates the id "${entry.id}"` });
+    }
+    wallIds.add(entry.id);
+    if (!levelIds.has(entry.levelId)) {
+      errors.push({ path: `${path}.levelId`, message: 'must reference a level in levels' });
+    }
+
+    const cellsValid = checkCell(entry.start, `${path}.start`, errors) && checkCell(entry.end, `${path}.end`, errors);
+    if (cellsValid && entry.start.x !== entry.end.x && entry.start.y !== entry.end.y) {
+      errors.push({ path: `${path}.end`, message: 'must share a row or column with start' });
+    }
+    const thicknessValid = checkIntegerRange(entry.thickness, `${path}.thickness`, errors, 1, MAX_WALL_THICKNESS);
+    checkIntegerRange(entry.height, `${path}.height`, errors, 1, MAX_WALL_HEIGHT);
+
+    if (!Array.isArray(entry.openings)) {
+      errors.push({ path: `${path}.openings`, message: 'must be an array' });
+      return;
+    }
+    // Each opening must fit the wall and stay clear of the ones listed before it
+    const checked: ExportedWallOpening[] = [];
+    entry.openings.forEach((opening: unknown, openingIndex: number) => {
+      const openingPath = `${path}.openings[${openingIndex}]`;
+      if (!isRecord(opening)) {
+        errors.push({ path: openingPath, message: 'must be an object' });
+        return;
+      }
+      checkNonEmptyString(opening.id, `${openingPath}.id`, errors);
+      if (!cellsValid || !thicknessValid) return;
+      const problem = checkWallOpening({ ...(entry as ExportedWall), openings: checked }, opening as ExportedWallOpening);
+      if (problem) {
+        errors.push({ path: openingPath, message: problem });
+      } else {
+        checked.push(opening as ExportedWallOpening);
+      }
+    });
+  });
+
+  return errors;
+};
+
+const validateV8 = (data: Record<string, any>) => {
+  const errors = validateV7(data);
+  if (data.measurements === undefined) return errors;
+
+  if (!Array.isArray(data.measurements)) {
+    errors.push({ path: 'measurements', message: 'must be an array' });
+    return errors;
+  }
+  const levelIds = new Set(Array.isArray(data.levels) ? data.levels.map((level: any) => level?.id) : []);
+  const measurementIds = new Set<string>();
+  data.measurements.forEach((entry: unknown, index: number) => {
+    const path = `measurements[${index}]`;
+    if (!isRecord(entry)) {
+      errors.push({ path, message: 'must be an object' });
+      return;
+    }
+    checkNonEmptyString(entry.id, `${path}.id`, errors);
+    if (measurementIds.has(entry.id)) {
+      errors.push({ path: `${path}.id`, message: `duplicates the id "${entry.id}"` });
+    }
+    measurementIds.add(entry.id);
+    if (!levelIds.has(entry.levelId)) {
+      errors.push({ path: `${path}.levelId`, message: 'must reference a level in levels' });
+    }
+
+    if (entry.kind !== 'distance' && entry.kind !== 'area') {
+      errors.push({ path: `${path}.kind`, message: 'must be "distance" or "area"' });
+      return;
+    }
+    if (!Array.isArray(entry.points)) {
+      errors.push({ path: `${path}.points`, message: 'must be an array' });
+      return;
+    }
+    if (entry.kind === 'distance' ? entry.points.length !== 2 : entry.points.length < 3) {
+      errors.push({ path: `${path}.points`, message: entry.kind === 'distance' ? 'must hold 2 points' : 'must hold at least 3 points' });
+    }
+    entry.points.forEach((point: unknown, pointIndex: number) => {
+      const pointPath = `${path}.points[${pointIndex}]`;
+      const valid = isRecord(point) &&
+        [point.x, point.y].every(value => typeof value === 'number' && value >= 0 && value <= GRID_SIZE);
+      if (!valid) {
+        errors.push({ path: pointPath, message: `must be an object with x and y between 0 and ${GRID_SIZE}` });
+      }
+    });
+  });
+
+  return errors;
+};
+
+// Clearance margins of a library object, as in v9 and later documents and library packs
+export const checkClearance = (value: unknown, path: string, errors: SchemaError[]) => {
+  if (!isRecord(value)) {
+    errors.push({ path, message: `must be an object with ${CLEARANCE_SIDES.join(', ')} and shared` });
+    return;
+  }
+  CLEARANCE_SIDES.forEach(side => checkIntegerRange(value[side], `${path}.${side}`, errors, 0, MAX_CLEARANCE));
+  if (typeof value.shared !== 'boolean') {
+    errors.push({ path: `${path}.shared`, message: 'must be true or false' });
+  }
+};
+
+// Optional catalog fields of a library object, as in library packs and floor plan documents
+export const checkCatalogFields = (entry: Record<string, any>, path: string, errors: SchemaError[]) => {
+  (['category', 'manufacturer', 'model'] as const).forEach((field) => {
+    if (entry[field] !== undefined && typeof entry[field] !== 'string') {
+      errors.push({ path: `${path}.${field}`, message: 'must be a string' });
+    }
+  });
+  if (entry.tags !== undefined && (!Array.isArray(entry.tags) || entry.tags.some((tag: unknown) => typeof tag !== 'string'))) {
+    errors.push({ path: `${path}.tags`, message: 'must be an array of strings' });
+  }
+};
+
+/**
+ * Check an optional list of items placed on a level, such as keep-out zones: every entry
+ * needs a unique id and must reference one of the document's levels before its own
+ * fields are checked.
+ */
+const checkLevelItems = (
+  data: Record<string, any>,
+  field: string,
+  errors: SchemaError[],
+  checkItem: (entry: Record<string, any>, path: string) => void
+) => {
+  if (data[field] === undefined) return;
+  if (!Array.isArray(data[field])) {
+    errors.push({ path: field, message: 'must be an array' });
+    return;
+  }
+  const levelIds = new Set(Array.isArray(data.levels) ? data.levels.map((level: any) => level?.id) : []);
+  const ids = new Set<string>();
+  data[field].forEach((entry: unknown, index: number) => {
+    const path = `${field}[${index}]`;
+    if (!isRecord(entry)) {
+      errors.push({ path, message: 'must be an object' });
+      return;
+    }
+    checkNonEmptyString(entry.id, `${path}.id`, errors);
+    if (ids.has(entry.id)) {
+      errors.push({ path: `${path}.id`, message: `duplicates the id "${entry.id}"` });
+    }
+    ids.add(entry.id);
+    if (!levelIds.has(entry.levelId)) {
+      errors.push({ path: `${path}.levelId`, message: 'must reference a level in levels' });
+    }
+    checkItem(entry, path);
+  });
+};
+
+// Whole-cell rectangle given by its min corner, width and depth, lying within the grid
+const checkGridArea = (entry: Record<string, any>, path: string, errors: SchemaError[]) => {
+  const xValid = checkIntegerRange(entry.x, `${path}.x`, errors, 0, GRID_SIZE - 1) &&
+    checkIntegerRange(entry.width, `${path}.width`, errors, 1, GRID_SIZE);
+  const yValid = checkIntegerRange(entry.y, `${path}.y`, errors, 0, GRID_SIZE - 1) &&
+    checkIntegerRange(entry.depth, `${path}.depth`, errors, 1, GRID_SIZE);
+  if ((xValid && entry.x + entry.width > GRID_SIZE) || (yValid && entry.y + entry.depth > GRID_SIZE)) {
+    errors.push({ path, message: `must lie within the ${GRID_SIZE} x ${GRID_SIZE} grid` });
+  }
+};
+
+const validateV9 = (data: Record<string, any>) => {
+  const errors = validateV8(data);
+  if (Array.isArray(data.objects)) {
+    data.objects.forEach((entry: unknown, index: number) => {
+      if (isRecord(entry) && entry.clearance !== undefined) {
+        checkClearance(entry.clearance, `objects[${index}].clearance`, errors);
+      }
+    });
+  }
+  checkLevelItems(data, 'keepOutZones', errors, (entry, path) => {
+    checkNonEmptyString(entry.name, `${path}.name`, errors);
+    checkGridArea(entry, path, errors);
+  });
+
+  return errors;
+};
+
+const validateV10 = (data: Record<string, any>) => {
+  const errors = validateV9(data);
+  if (Array.isArray(data.objects)) {
+    data.objects.forEach((entry: unknown, index: number) => {
+      if (isRecord(entry)) checkCatalogFields(entry, `objects[${index}]`, errors);
+    });
+  }
+  checkLevelItems(data, 'exits', errors, (entry, path) => {
+    checkNonEmptyString(entry.name, `${path}.name`, errors);
+    checkGridArea(entry, path, errors);
+  });
+  checkLevelItems(data, 'aisles', errors, (entry, path) => {
+    checkNonEmptyString(entry.name, `${path}.name`, errors);
+    const cellsValid = checkCell(entry.start, `${path}.start`, errors) && checkCell(entry.end, `${path}.end`, errors);
+    if (cellsValid && entry.start.x !== entry.end.x && entry.start.y !== entry.end.y) {
+      errors.push({ path: `${path}.end`, message: 'must share a row or column with start' });
+      return;
+    }
+    const widthValid = checkIntegerRange(entry.width, `${path}.width`, errors, 1, MAX_AISLE_WIDTH);
+    if (cellsValid && widthValid && !isInsideGrid(getAisleArea(entry as ExportedAisle))) {
+      errors.push({ path, message: `must lie within the ${GRID_SIZE} x ${GRID_SIZE} grid` });
+    }
+  });
+
+  return errors;
+};
+
+const validators: Record<number, (data: Record<string, any>) => SchemaError[]> = {
+  1: validateV1,
+  2: validateV2,
+  3: validateV3,
+  4: validateV4,
+  5: validateV5,
+  6: validateV6,
+  7: validateV7,
+  8: validateV8,
+  9: validateV9,
+  10: validateV10,
+};
+
+// --- Migrations, each taking a valid document of version N to version N + 1 ---
+
+const migrateV1ToV2 = (data: Record<string, any>) => {
+  const objects: ExportedObject[] = [];
+  const placements: Omit<ExportedPlacement, 'id' | 'levelId'>[] = [];
+  const idsByKey = new Map<string, string>();
+
+  data.objects.forEach((entry: Record<string, any>) => {
+    const color = entry.color ?? '#aaaaaa';
+    const { x, y, z } = entry.dimensions;
+    // Legacy entries repeat the library object for every placement; fold duplicates together
+    const key = entry.id ?? `${entry.name}|${x}|${y}|${z}|${color}`;
+
+    let objectId = idsByKey.get(key);
+    if (!objectId) {
+      objectId = `imported-${objects.length + 1}`;
+      idsByKey.set(key, objectId);
+      objects.push({ id: objectId, name: entry.name, dimensions: { x, y, z }, color });
+    }
+
+    // The earliest exports stored the ground position in x/z with y as the vertical axis
+    const { position } = entry;
+    const isYUp = position.y === 0 && position.z !== 0;
+    placements.push({
+      objectId,
+      position: isYUp
+        ? { x: position.x, y: position.z, z: 0 }
+        : { x: position.x, y: position.y, z: position.z },
+      rotation: entry.rotation ?? 0
+    });
+  });
+
+  return { schemaVersion: 2, name: data.name, objects, placements };
+};
+
+const migrateV2ToV3 = (data: Record<string, any>) => ({
+  ...data,
+  schemaVersion: 3,
+  placements: data.placements.map((placement: Omit<ExportedPlacement, 'id' | 'levelId'>) => ({
+    ...placement,
+    id: generateId('instance')
+  }))
+});
+
+// Version 4 only adds an optional field
+const migrateV3ToV4 = (data: Record<string, any>) => ({ ...data, schemaVersion: 4 });
+
+// Version 5 only adds an optional field
+const migrateV4ToV5 = (data: Record<string, any>) => ({ ...data, schemaVersion: 5 });
+
+// Earlier plans had a single layer, which becomes the ground level
+const migrateV5ToV6 = (data: Record<string, any>) => {
+  const level = createLevel(DEFAULT_LEVEL_NAME, 0);
+  return {
+    ...data,
+    schemaVersion: 6,
+    levels: [level],
+    placements: data.placements.map((placement: Omit<ExportedPlacement, 'levelId'>) => ({ ...placement, levelId: level.id }))
+  };
+};
+
+// Version 7 only adds an optional field
+const migrateV6ToV7 = (data: Record<string, any>) => ({ ...data, schemaVersion: 7 });
+
+// Version 8 only adds an optional field
+const migrateV7ToV8 = (data: Record<string, any>) => ({ ...data, schemaVersion: 8 });
+
+// Version 9 only adds optional fields
+const migrateV8ToV9 = (data: Record<string, any>) => ({ ...data, schemaVersion: 9 });
+
+// Version 10 only adds optional fields
+const migrateV9ToV10 = (data: Record<string, any>) => ({ ...data, schemaVersion: 10 });
+
+const migrations: Record<number, (data: Record<string, any>) => Record<string, any>> = {
+  1: migrateV1ToV2,
+  2: migrateV2ToV3,
+  3: migrateV3ToV4,
+  4: migrateV4ToV5,
+  5: migrateV5ToV6,
+  6: migrateV6ToV7,
+  7: migrateV7ToV8,
+  8: migrateV8ToV9,
+  9: migrateV9ToV10,
+};
+
+/**
+ * Parse, validate and migrate an exported floor plan to the current schema version.
+ * Validation runs against the version the file declares, so error paths point at the
+ * fields as they appear in the file.
+ */
+export const parseFloorPlanDocument = (json: string): ParseResult => {
+  let data: unknown;
+  try {
+    data = JSON.parse(json);
+  } catch (error) {
+    return { ok: false, errors: [{ path: '', message: `is not valid JSON (${(error as Error).message})` }] };
+  }
+
+  if (!isRecord(data)) {
+    return { ok: false, errors: [{ path: '', message: 'must be a JSON object' }] };
+  }
+
+  const sourceVersion = data.schemaVersion === undefined ? 1 : data.schemaVersion;
+  if (!Number.isInteger(sourceVersion) || !validators[sourceVersion]) {
+    return {
+      ok: false,
+      errors: [{
+        path: 'schemaVersion',
+        message: `must be a supported version (1 to ${FLOOR_PLAN_SCHEMA_VERSION}), got ${JSON.stringify(data.schemaVersion)}`
+      }]
+    };
+  }
+
+  const errors = validators[sourceVersion](data);
+  if (errors.length > 0) {
+    return { ok: false, errors };
+  }
+
+  let migrated: Record<string, any> = data;
+  for (let version = sourceVersion; version < FLOOR_PLAN_SCHEMA_VERSION; version++) {
+    migrated = migrations[version](migrated);
+    console.log(`[INFO] Migrated floor plan document from schema version ${version} to ${version + 1}`);
+  }
+
+  return { ok: true, document: migrated as FloorPlanDocument, sourceVersion };
+};
+
+// Human readable one-line description of a schema error
+export const formatSchemaError = (error: SchemaError) =>
+  error.path ? `${error.path} ${error.message}` : `File ${error.message}`;
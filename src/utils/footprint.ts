@@ -0,0 +1,61 @@
+import { ObjectDimensions } from '../store/designStore';
+
+// Normalise any rotation in degrees to one of 0, 90, 180 or 270
+export const normalizeRotation = (rotation: number) => ((Math.round(rotation / 90) * 90) % 360 + 360) % 360;
+
+// Width (X) and depth (Y) of an object's footprint once rotated about the vertical axis.
+// Quarter turns swap the two horizontal dimensions.
+export const getRotatedSize = (dimensions: ObjectDimensions, rotation: number) => {
+  const quarterTurn = normalizeRotation(rotation) % 180 !== 0;
+  return quarterTurn
+    ? { width: dimensions.y, depth: dimensions.x }
+    : { width: dimensions.x, depth: dimensions.y };
+};
+
+// Total size of the placement grid (5000x5000)
+export const GRID_SIZE = 5000;
+
+// Snap a ground point to the integer grid cell that centres a footprint of the given
+// size under it, keeping the whole footprint inside the grid.
+export const snapToGrid = (
+  point: { x: number; y: number },
+  size: { width: number; depth: number }
+) => {
+  const clamp = (value: number, extent: number) => Math.min(Math.max(value, 0), Math.max(GRID_SIZE - extent, 0));
+
+  return {
+    x: clamp(Math.round(point.x - size.width / 2), size.width),
+    y: clamp(Math.round(point.y - size.depth / 2), size.depth),
+    z: 0
+  };
+};
+
+// Axis-aligned footprint on the grid. Min edges are inclusive, max edges exclusive,
+// so objects that merely touch do not overlap.
+export interface Footprint {
+  minX: number;
+  minY: number;
+  maxX: number;
+  maxY: number;
+}
+
+// Footprint covered by an object placed at a position with the given rotation
+export const getFootprint = (
+  dimensions: ObjectDimensions,
+  position: { x: number; y: number },
+  rotation: number
+): Footprint => {
+  const { width, depth } = getRotatedSize(dimensions, rotation);
+  return {
+    minX: position.x,
+    minY: position.y,
+    maxX: position.x + width,
+    maxY: position.y + depth
+  };
+};
+
+export const footprintsOverlap = (a: Footprint, b: Footprint) =>
+  a.minX < b.maxX && b.minX < a.maxX && a.minY < b.maxY && b.minY < a.maxY;
+
+export const isInsideGrid = (footprint: Footprint) =>
+  footprint.minX >= 0 && footprint.minY >= 0 && footprint.maxX <= GRID_SIZE && footprint.maxY <= GRID_SIZE;
@@ -0,0 +1,78 @@
+import * as THREE from 'three';
+import { GLTFExporter } from 'three/examples/jsm/exporters/GLTFExporter.js';
+import { FactoryObject, FloorPlan } from '../store/designStore';
+import { GRID_SIZE } from './footprint';
+import { createObjectModel, createWallModel, disposeObjectModel, positionObjectModel } from './objectModel';
+
+export interface GlbExportOptions {
+  // Add the ground plane as its own node
+  includeGrid: boolean;
+}
+
+/**
+ * Write a floor plan as a binary glTF scene. Every placed instance is one node named
+ * after its library object, built from the same base and top block meshes the Canvas
+ * uses; instances of an object share geometry and materials. Walls are one node each,
+ * raised to their level's elevation. glTF is Y-up, so the Z-up grid is rotated into
+ * place under a single root node.
+ */
+export const buildFloorPlanGlb = async (
+  floorPlan: FloorPlan,
+  objectLibrary: FactoryObject[],
+  options: GlbExportOptions
+): Promise<ArrayBuffer> => {
+  const root = new THREE.Group();
+  root.name = floorPlan.name;
+  root.rotation.x = -Math.PI / 2;
+
+  const objectsById = new Map(objectLibrary.map(obj => [obj.id, obj]));
+  const templates = new Map<string, THREE.Group>();
+  floorPlan.objects.forEach((placement) => {
+    const object = objectsById.get(placement.objectId);
+    if (!object) {
+      console.warn(`[WARN] Skipping export of placement referencing missing object ${placement.objectId}`);
+      return;
+    }
+
+    let template = templates.get(object.id);
+    if (!template) {
+      template = createObjectModel(object);
+      templates.set(object.id, template);
+    }
+
+    const node = template.clone();
+    node.name = placement.metadata?.label ? `${object.name} (${placement.metadata.label})` : object.name;
+    node.userData = { instanceId: placement.id, objectId: object.id, ...placement.metadata };
+    positionObjectModel(node, object, placement.position, placement.rotation);
+    root.add(node);
+  });
+
+  const elevations = new Map(floorPlan.levels.map(level => [level.id, level.elevation]));
+  const walls = (floorPlan.walls ?? []).map((wall) => {
+    const node = createWallModel(wall);
+    node.userData = { wallId: wall.id };
+    node.position.z = elevations.get(wall.levelId) ?? 0;
+    root.add(node);
+    return node;
+  });
+
+  let grid: THREE.Mesh | null = null;
+  if (options.includeGrid) {
+    grid = new THREE.Mesh(
+      new THREE.PlaneGeometry(GRID_SIZE, GRID_SIZE),
+      new THREE.MeshStandardMaterial({ color: 0x202020, roughness: 1 })
+    );
+    grid.name = 'Grid';
+    grid.position.set(GRID_SIZE / 2, GRID_SIZE / 2, 0);
+    root.add(grid);
+  }
+
+  try {
+    const result = await new GLTFExporter().parseAsync(root, { binary: true });
+    return result as ArrayBuffer;
+  } finally {
+    templates.forEach(disposeObjectModel);
+    walls.forEach(disposeObjectModel);
+    if (grid) disposeObjectModel(grid);
+  }
+};
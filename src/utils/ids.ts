@@ -0,0 +1,3 @@
+// Unique identifier for store entities, e.g. `object-1712345678901-k3j9x0q2a`
+export const generateId = (prefix: string) =>
+  `${prefix}-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
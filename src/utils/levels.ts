@@ -0,0 +1,47 @@
+import { FloorLevel, FloorPlan } from '../store/designStore';
+import { generateId } from './ids';
+
+// Name of the level every floor plan starts with
+export const DEFAULT_LEVEL_NAME = 'Ground Floor';
+
+export const createLevel = (name: string, elevation: number): FloorLevel => ({
+  id: generateId('level'),
+  name,
+  elevation
+});
+
+// Levels from the lowest up; levels at the same elevation keep their order
+export const sortLevels = (levels: FloorLevel[]) =>
+  [...levels].sort((a, b) => a.elevation - b.elevation);
+
+/**
+ * The level being edited on a floor plan. The remembered id can belong to another plan
+ * or to a level removed by an undo, in which case the lowest level is used.
+ */
+export const getActiveLevel = (floorPlan: FloorPlan, activeLevelId: string | null): FloorLevel =>
+  floorPlan.levels.find(level => level.id === activeLevelId) ?? sortLevels(floorPlan.levels)[0];
+
+/**
+ * The part of a floor plan on one level, for drawings that show a single storey. Underlay
+ * segments belong to no level and are kept as the reference for every storey.
+ */
+export const getLevelPlan = (floorPlan: FloorPlan, levelId: string): FloorPlan => {
+  const onLevel = <T extends { levelId: string }>(items: T[] | undefined) => items?.filter(item => item.levelId === levelId);
+  return {
+    ...floorPlan,
+    levels: floorPlan.levels.filter(level => level.id === levelId),
+    objects: floorPlan.objects.filter(placed => placed.levelId === levelId),
+    walls: onLevel(floorPlan.walls),
+    measurements: onLevel(floorPlan.measurements),
+    keepOutZones: onLevel(floorPlan.keepOutZones),
+    exits: onLevel(floorPlan.exits),
+    aisles: onLevel(floorPlan.aisles)
+  };
+};
+
+// Ids of the levels directly below and above a level, drawn ghosted around it
+export const getAdjacentLevelIds = (floorPlan: FloorPlan, levelId: string) => {
+  const sorted = sortLevels(floorPlan.levels);
+  const index = sorted.findIndex(level => level.id === levelId);
+  return [sorted[index - 1], sorted[index + 1]].flatMap(level => (level ? [level.id] : []));
+};
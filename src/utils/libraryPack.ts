@@ -0,0 +1,131 @@
+import { FactoryObject } from '../store/designStore';
+import { ExportedObject, SchemaError, checkCatalogFields, checkCells, checkClearance, checkObjectList, isRecord } from './floorPlanSchema';
+import { sameCells, sameClearance } from './floorPlanImport';
+
+// Shareable set of library objects, independent of any floor plan.
+//
+// Version history:
+//   1 - `{ format, packVersion, name, objects }` with objects as in floor plan documents,
+//       plus optional catalog fields: `category`, `tags`, `manufacturer` and `model`, and
+//       the `cells` of non-rectangular footprints and `clearance` margins
+
+export const LIBRARY_PACK_FORMAT = 'factory-floor-library-pack';
+export const LIBRARY_PACK_VERSION = 1;
+
+export type PackObject = ExportedObject;
+
+export interface LibraryPack {
+  format: typeof LIBRARY_PACK_FORMAT;
+  packVersion: typeof LIBRARY_PACK_VERSION;
+  name: string;
+  objects: PackObject[];
+}
+
+export type LibraryPackParseResult =
+  | { ok: true; pack: LibraryPack }
+  | { ok: false; errors: SchemaError[] };
+
+// What to do with a pack object whose name is already in the library
+export type PackConflictResolution = 'skip' | 'rename' | 'replace';
+
+export interface PackEntry {
+  imported: PackObject;
+  // Library object with the same name, if any
+  existing: FactoryObject | null;
+  // Same name, dimensions, cells, clearance and color as the existing object
+  identical: boolean;
+  // Free name used when the entry is renamed
+  renamedName: string;
+}
+
+// Library object fields carried by a pack, leaving the id and name to the importer
+export const packObjectDefinition = ({ dimensions, cells, color, clearance, category, tags, manufacturer, model }: PackObject) => ({
+  dimensions: { ...dimensions },
+  ...(cells && { cells: cells.map(cell => ({ ...cell })) }),
+  color,
+  ...(clearance && { clearance: { ...clearance } }),
+  ...(category && { category }),
+  ...(tags?.length && { tags: [...tags] }),
+  ...(manufacturer && { manufacturer }),
+  ...(model && { model })
+});
+
+export const buildLibraryPack = (name: string, objects: FactoryObject[]): LibraryPack => ({
+  format: LIBRARY_PACK_FORMAT,
+  packVersion: LIBRARY_PACK_VERSION,
+  name,
+  objects: objects.map(object => ({ id: object.id, name: object.name, ...packObjectDefinition(object) }))
+});
+
+// Parse and validate a library pack file
+export const parseLibraryPack = (json: string): LibraryPackParseResult => {
+  let data: unknown;
+  try {
+    data = JSON.parse(json);
+  } catch (error) {
+    return { ok: false, errors: [{ path: '', message: `is not valid JSON (${(error as Error).message})` }] };
+  }
+
+  if (!isRecord(data) || data.format !== LIBRARY_PACK_FORMAT) {
+    return { ok: false, errors: [{ path: 'format', message: `must be "${LIBRARY_PACK_FORMAT}"` }] };
+  }
+  if (data.packVersion !== LIBRARY_PACK_VERSION) {
+    return {
+      ok: false,
+      errors: [{ path: 'packVersion', message: `must be a supported version (${LIBRARY_PACK_VERSION}), got ${JSON.stringify(data.packVersion)}` }]
+    };
+  }
+
+  const errors: SchemaError[] = [];
+  if (typeof data.name !== 'string') {
+    errors.push({ path: 'name', message: 'must be a string' });
+  }
+  checkObjectList(data.objects, 'objects', errors);
+  if (Array.isArray(data.objects)) {
+    data.objects.forEach((entry: unknown, index: number) => {
+      if (!isRecord(entry)) return;
+      checkCatalogFields(entry, `objects[${index}]`, errors);
+      if (entry.cells !== undefined) {
+        checkCells(entry.cells, entry.dimensions, `objects[${index}].cells`, errors);
+      }
+      if (entry.clearance !== undefined) {
+        checkClearance(entry.clearance, `objects[${index}].clearance`, errors);
+      }
+    });
+  }
+
+  return errors.length > 0 ? { ok: false, errors } : { ok: true, pack: data as LibraryPack };
+};
+
+const sameObject = (a: ExportedObject, b: FactoryObject) =>
+  a.dimensions.x === b.dimensions.x &&
+  a.dimensions.y === b.dimensions.y &&
+  a.dimensions.z === b.dimensions.z &&
+  sameCells(a.cells, b.cells) &&
+  sameClearance(a.clearance, b.clearance) &&
+  a.color.toLowerCase() === b.color.toLowerCase();
+
+/**
+ * Match each pack object to the library by name. Names are compared ignoring case and
+ * surrounding spaces, since that is how users tell objects apart. Renamed names are
+ * numbered past everything already taken, including other entries in the same pack.
+ */
+export const planLibraryPackImport = (pack: LibraryPack, objectLibrary: FactoryObject[]): PackEntry[] => {
+  const normalize = (name: string) => name.trim().toLowerCase();
+  const takenNames = new Set([...objectLibrary.map(obj => normalize(obj.name)), ...pack.objects.map(obj => normalize(obj.name))]);
+
+  return pack.objects.map((imported) => {
+    const existing = objectLibrary.find(obj => normalize(obj.name) === normalize(imported.name)) ?? null;
+
+    let suffix = 2;
+    while (takenNames.has(normalize(`${imported.name} (${suffix})`))) suffix++;
+    const renamedName = `${imported.name} (${suffix})`;
+    if (existing) takenNames.add(normalize(renamedName));
+
+    return { imported, existing, identical: existing !== null && sameObject(imported, existing), renamedName };
+  });
+};
+
+// Identical objects are skipped and other name conflicts renamed unless the user decides otherwise
+export const defaultResolution = (entry: PackEntry): PackConflictResolution =>
+  entry.identical ? 'skip' : 'rename';
@@ -0,0 +1,71 @@
+import { FactoryObject } from '../store/designStore';
+
+// Categories offered when editing an object, alongside any already used in the library
+export const DEFAULT_CATEGORIES = ['CNC', 'Assembly', 'Conveyor', 'Storage', 'Structure', 'Utility'];
+
+// Filter value for objects without a category
+export const UNCATEGORIZED = '';
+
+export type LibrarySort = 'name' | 'footprint' | 'recent';
+
+export interface LibraryFilter {
+  query: string;
+  // Category to show, `null` for all
+  category: string | null;
+  sort: LibrarySort;
+}
+
+// Categories in use, in the order of the defaults followed by custom ones alphabetically
+export const getLibraryCategories = (objectLibrary: FactoryObject[]) => {
+  const used = new Set(objectLibrary.map(obj => obj.category ?? UNCATEGORIZED));
+  const custom = Array.from(used)
+    .filter(category => category !== UNCATEGORIZED && !DEFAULT_CATEGORIES.includes(category))
+    .sort((a, b) => a.localeCompare(b));
+  return [
+    ...DEFAULT_CATEGORIES.filter(category => used.has(category)),
+    ...custom,
+    ...(used.has(UNCATEGORIZED) ? [UNCATEGORIZED] : [])
+  ];
+};
+
+// Text searched by the library search box
+const searchText = (object: FactoryObject) =>
+  [object.name, object.category, object.manufacturer, object.model, ...(object.tags ?? [])]
+    .filter(Boolean)
+    .join(' ')
+    .toLowerCase();
+
+/**
+ * Objects matching every word of the search query and the selected category, sorted.
+ * Recent use follows `recentObjectIds`, most recent first, with unused objects after
+ * them by name; the largest footprint sorts first.
+ */
+export const filterLibrary = (objectLibrary: FactoryObject[], filter: LibraryFilter, recentObjectIds: string[]) => {
+  const terms = filter.query.toLowerCase().split(/\s+/).filter(Boolean);
+  const matches = objectLibrary.filter((object) => {
+    if (filter.category !== null && (object.category ?? UNCATEGORIZED) !== filter.category) return false;
+    const text = searchText(object);
+    return terms.every(term => text.includes(term));
+  });
+
+  const byName = (a: FactoryObject, b: FactoryObject) => a.name.localeCompare(b.name);
+  const recentRank = (object: FactoryObject) => {
+    const rank = recentObjectIds.indexOf(object.id);
+    return rank === -1 ? Infinity : rank;
+  };
+
+  return [...matches].sort((a, b) => {
+    if (filter.sort === 'footprint') {
+      return b.dimensions.x * b.dimensions.y - a.dimensions.x * a.dimensions.y || byName(a, b);
+    }
+    if (filter.sort === 'recent') {
+      const difference = recentRank(a) - recentRank(b);
+      if (difference !== 0 && !Number.isNaN(difference)) return difference;
+    }
+    return byName(a, b);
+  });
+};
+
+// Comma separated tags as typed in the object form, without blanks or repeats
+export const parseTags = (text: string) =>
+  Array.from(new Set(text.split(',').map(tag => tag.trim()).filter(Boolean)));
@@ -0,0 +1,109 @@
+import { FactoryObject, FloorPlan, Measurement } from '../store/designStore';
+import { getFootprint } from './footprint';
+import { OutlinePoint, getLoopArea, getShapeOutline } from './objectShape';
+import { UnitSettings, formatArea, formatLength } from './units';
+import { getWallParts } from './walls';
+
+// How the measure tool collects points: two for a distance, two opposite corners for a
+// rectangle, or any number of corners for a polygon
+export type MeasureMode = 'distance' | 'rectangle' | 'polygon';
+
+export interface SnappedPoint {
+  point: OutlinePoint;
+  // What the point was pulled onto, if anything
+  snap: 'corner' | 'edge' | null;
+}
+
+// Boundary loops of the objects and walls on a level that come within `reach` of a point
+const getNearbyOutlines = (
+  point: OutlinePoint,
+  reach: number,
+  floorPlan: FloorPlan,
+  objectLibrary: FactoryObject[],
+  levelId: string
+) => {
+  const isNear = ({ minX, minY, maxX, maxY }: { minX: number; minY: number; maxX: number; maxY: number }) =>
+    point.x >= minX - reach && point.x <= maxX + reach && point.y >= minY - reach && point.y <= maxY + reach;
+
+  const objectsById = new Map(objectLibrary.map(obj => [obj.id, obj]));
+  const objectLoops = floorPlan.objects.flatMap((placed) => {
+    const object = objectsById.get(placed.objectId);
+    if (!object || placed.levelId !== levelId) return [];
+    if (!isNear(getFootprint(object.dimensions, placed.position, placed.rotation))) return [];
+    return getShapeOutline(object, placed.position, placed.rotation);
+  });
+  const wallLoops = (floorPlan.walls ?? [])
+    .filter(wall => wall.levelId === levelId)
+    .flatMap(getWallParts)
+    .filter(isNear)
+    .map(({ minX, minY, maxX, maxY }) => [
+      { x: minX, y: minY }, { x: maxX, y: minY }, { x: maxX, y: maxY }, { x: minX, y: maxY }
+    ]);
+
+  return [...objectLoops, ...wallLoops];
+};
+
+/**
+ * Pull a measured point onto the nearest corner of an object or wall on the level within
+ * `tolerance`, or else onto the nearest point of one of their edges. Points with nothing
+ * in reach are kept where they are, rounded to a hundredth of a grid unit.
+ */
+export const snapMeasurePoint = (
+  point: OutlinePoint,
+  tolerance: number,
+  floorPlan: FloorPlan,
+  objectLibrary: FactoryObject[],
+  levelId: string
+): SnappedPoint => {
+  const loops = getNearbyOutlines(point, tolerance, floorPlan, objectLibrary, levelId);
+  const distance = (other: OutlinePoint) => Math.hypot(other.x - point.x, other.y - point.y);
+
+  let corner: OutlinePoint | null = null;
+  for (const candidate of loops.flat()) {
+    if (distance(candidate) <= tolerance && (!corner || distance(candidate) < distance(corner))) corner = candidate;
+  }
+  if (corner) return { point: { ...corner }, snap: 'corner' };
+
+  let edge: OutlinePoint | null = null;
+  for (const loop of loops) {
+    for (let i = 0; i < loop.length; i++) {
+      const from = loop[i];
+      const to = loop[(i + 1) % loop.length];
+      const dx = to.x - from.x;
+      const dy = to.y - from.y;
+      const t = Math.min(1, Math.max(0, ((point.x - from.x) * dx + (point.y - from.y) * dy) / (dx * dx + dy * dy)));
+      const candidate = { x: from.x + t * dx, y: from.y + t * dy };
+      if (distance(candidate) <= tolerance && (!edge || distance(candidate) < distance(edge))) edge = candidate;
+    }
+  }
+  if (edge) return { point: edge, snap: 'edge' };
+
+  const round = (value: number) => Math.round(value * 100) / 100;
+  return { point: { x: round(point.x), y: round(point.y) }, snap: null };
+};
+
+// Points of the measurement a mode produces; a rectangle is stored as its four corners
+export const toMeasurement = (mode: MeasureMode, points: OutlinePoint[]): Pick<Measurement, 'kind' | 'points'> => {
+  if (mode === 'distance') return { kind: 'distance', points };
+  if (mode === 'polygon') return { kind: 'area', points };
+
+  const [a, b] = points;
+  return {
+    kind: 'area',
+    points: [{ x: a.x, y: a.y }, { x: b.x, y: a.y }, { x: b.x, y: b.y }, { x: a.x, y: b.y }]
+  };
+};
+
+// Length along the points in order, without closing the path
+export const getPathLength = (points: OutlinePoint[]) =>
+  points.reduce((length, point, i) => (i === 0 ? 0 : length + Math.hypot(point.x - points[i - 1].x, point.y - points[i - 1].y)), 0);
+
+// Area inside a closed polygon, whichever way it winds
+export const getPolygonArea = (points: OutlinePoint[]) => Math.abs(getLoopArea(points)) / 2;
+
+// Reading shown for a measurement: its length, or its area and perimeter
+export const describeMeasurement = ({ kind, points }: Pick<Measurement, 'kind' | 'points'>, units: UnitSettings) => {
+  if (kind === 'distance') return formatLength(getPathLength(points), units);
+  const perimeter = getPathLength([...points, points[0]]);
+  return `${formatArea(getPolygonArea(points), units)}, perimeter ${formatLength(perimeter, units)}`;
+};
@@ -0,0 +1,82 @@
+import { FactoryObject, FloorPlan } from '../store/designStore';
+import { buildFloorPlanIndex, getObjectCollisionShape } from './collision';
+import { isInsideGrid } from './footprint';
+import { ObjectShape } from './objectShape';
+
+export interface ObjectEditConflict {
+  floorPlanId: string;
+  floorPlanName: string;
+  instanceId: string;
+  label?: string;
+  reason: 'collision' | 'outside-grid';
+  // Names of the objects, walls and keep-out zones it would overlap
+  collidesWith: string[];
+}
+
+/**
+ * List every placed instance of a library object that would leave the grid or collide with
+ * anything if the object's dimensions, cells or clearance changed. Instances keep their position and
+ * rotation, so they grow or shrink from their min corner. Overlaps between two instances
+ * of the edited object are reported on both; objects on other levels never overlap.
+ */
+export const previewObjectEdit = (
+  objectId: string,
+  shape: ObjectShape & Pick<FactoryObject, 'clearance'>,
+  floorPlans: FloorPlan[],
+  objectLibrary: FactoryObject[]
+): ObjectEditConflict[] => {
+  const editedLibrary = objectLibrary.map(obj => (
+    obj.id === objectId ? { ...obj, dimensions: shape.dimensions, cells: shape.cells, clearance: shape.clearance } : obj
+  ));
+  const objectsById = new Map(editedLibrary.map(obj => [obj.id, obj]));
+  const conflicts: ObjectEditConflict[] = [];
+
+  floorPlans.forEach((floorPlan) => {
+    const instances = floorPlan.objects.filter(placed => placed.objectId === objectId);
+    if (instances.length === 0) return;
+
+    const indexes = new Map(floorPlan.levels.map(level => [level.id, buildFloorPlanIndex(floorPlan, editedLibrary, level.id)]));
+    const placedById = new Map(floorPlan.objects.map(placed => [placed.id, placed]));
+    const zonesById = new Map((floorPlan.keepOutZones ?? []).map(zone => [zone.id, zone]));
+
+    instances.forEach((placed) => {
+      const collisionShape = getObjectCollisionShape(shape, placed.position, placed.rotation);
+      const conflict = {
+        floorPlanId: floorPlan.id,
+        floorPlanName: floorPlan.name,
+        instanceId: placed.id,
+        label: placed.metadata?.label
+      };
+
+      if (!collisionShape.parts.every(isInsideGrid)) {
+        conflicts.push({ ...conflict, reason: 'outside-grid', collidesWith: [] });
+        return;
+      }
+
+      const others = indexes.get(placed.levelId)!.query(collisionShape).filter(id => id !== placed.id);
+      if (others.length > 0) {
+        const names = others.map((id) => {
+          const other = placedById.get(id);
+          if (other) return objectsById.get(other.objectId)?.name ?? 'Unknown object';
+          return zonesById.get(id)?.name ?? 'Wall';
+        });
+        conflicts.push({ ...conflict, reason: 'collision', collidesWith: Array.from(new Set(names)) });
+      }
+    });
+  });
+
+  return conflicts;
+};
+
+export interface ObjectUsage {
+  floorPlanId: string;
+  floorPlanName: string;
+  count: number;
+}
+
+// Floor plans that place a library object, with the number of instances in each
+export const getObjectUsage = (objectId: string, floorPlans: FloorPlan[]): ObjectUsage[] =>
+  floorPlans.flatMap((floorPlan) => {
+    const count = floorPlan.objects.filter(placed => placed.objectId === objectId).length;
+    return count > 0 ? [{ floorPlanId: floorPlan.id, floorPlanName: floorPlan.name, count }] : [];
+  });
@@ -0,0 +1,217 @@
+import * as THREE from 'three';
+import { FactoryObject, Wall } from '../store/designStore';
+import { CLEARANCE_COLOR, hasClearance } from './clearance';
+import { getRotatedSize } from './footprint';
+import { OutlinePoint, getLocalOutline, getLoopArea, insetOutline, isShapedObject } from './objectShape';
+import { WALL_COLOR, getWallParts } from './walls';
+
+// Model proportions from the PRD: a 0.5 unit base with a top block 0.2 units smaller
+const BASE_HEIGHT = 0.5;
+const TOP_INSET = 0.2;
+// Hatched zones lie just above the floor, under the objects
+const ZONE_HEIGHT = 0.05;
+const HATCH_TEXTURE_SIZE = 32;
+// Grid units between hatch stripes
+const HATCH_SPACING = 2;
+
+interface ObjectModelOptions {
+  opacity?: number;
+  // Glow colour, used to tint placement previews green or red
+  emissive?: THREE.ColorRepresentation;
+  // Draw the object's clearance as a hatched zone around it
+  showClearance?: boolean;
+}
+
+// Even-odd ray cast; points on the boundary may land either side
+const isPointInLoop = (point: OutlinePoint, loop: OutlinePoint[]) => {
+  let inside = false;
+  loop.forEach((a, i) => {
+    const b = loop[(i + 1) % loop.length];
+    if ((a.y > point.y) !== (b.y > point.y) && point.x < a.x + ((point.y - a.y) / (b.y - a.y)) * (b.x - a.x)) {
+      inside = !inside;
+    }
+  });
+  return inside;
+};
+
+// Extrude outline loops into a prism centred on the origin in XY. Counter-clockwise loops
+// are outer boundaries and clockwise loops are holes in the outer loop around them.
+const extrudeOutline = (loops: OutlinePoint[][], height: number, offset: OutlinePoint) => {
+  const outer = loops.filter(loop => getLoopArea(loop) > 0);
+  const holes = loops.filter(loop => getLoopArea(loop) < 0);
+  const toVectors = (loop: OutlinePoint[]) => loop.map(point => new THREE.Vector2(point.x - offset.x, point.y - offset.y));
+
+  const shapes = outer.map((loop) => {
+    const shape = new THREE.Shape(toVectors(loop));
+    holes
+      .filter(hole => isPointInLoop(hole[0], loop))
+      .forEach(hole => shape.holes.push(new THREE.Path(toVectors(hole))));
+    return shape;
+  });
+
+  return new THREE.ExtrudeGeometry(shapes, { depth: height, bevelEnabled: false });
+};
+
+/**
+ * Flat rectangle with diagonal stripes, lying on Z = 0 and centred on the origin, used for
+ * clearance and keep-out zones. It is never hit by raycasts, so objects under and around
+ * it can still be picked. Each zone has its own texture, repeated to keep stripes evenly spaced.
+ */
+export const createHatchedZone = (width: number, depth: number, color: THREE.ColorRepresentation, opacity = 0.6) => {
+  const canvas = document.createElement('canvas');
+  canvas.width = HATCH_TEXTURE_SIZE;
+  canvas.height = HATCH_TEXTURE_SIZE;
+  const context = canvas.getContext('2d');
+  if (context) {
+    context.strokeStyle = `#${new THREE.Color(color).getHexString()}`;
+    context.lineWidth = HATCH_TEXTURE_SIZE / 6;
+    // The stripe is drawn past the corners as well so it joins up across repeats
+    [-HATCH_TEXTURE_SIZE, 0, HATCH_TEXTURE_SIZE].forEach((shift) => {
+      context.beginPath();
+      context.moveTo(shift, HATCH_TEXTURE_SIZE);
+      context.lineTo(shift + HATCH_TEXTURE_SIZE, 0);
+      context.stroke();
+    });
+  }
+
+  const texture = new THREE.CanvasTexture(canvas);
+  texture.wrapS = THREE.RepeatWrapping;
+  texture.wrapT = THREE.RepeatWrapping;
+  texture.repeat.set(width / HATCH_SPACING, depth / HATCH_SPACING);
+
+  const zone = new THREE.Mesh(
+    new THREE.PlaneGeometry(width, depth),
+    new THREE.MeshBasicMaterial({ map: texture, transparent: true, opacity, depthWrite: false, side: THREE.DoubleSide })
+  );
+  zone.position.z = ZONE_HEIGHT;
+  zone.raycast = () => {};
+  return zone;
+};
+
+/**
+ * Build the base-plus-top-block model for a library object.
+ * The model is Z-up, centred on the origin in XY and resting on Z = 0,
+ * matching the grid coordinate system used by the Canvas. Shaped objects
+ * are extruded from their cell outline instead of being boxes.
+ */
+export const createObjectModel = (object: FactoryObject, options: ObjectModelOptions = {}) => {
+  const { x, y, z } = object.dimensions;
+  const opacity = options.opacity ?? 1;
+  const transparent = opacity < 1;
+  const emissive = options.emissive ?? 0x000000;
+  const emissiveIntensity = options.emissive === undefined ? 1 : 0.6;
+
+  const group = new THREE.Group();
+  group.name = object.name;
+
+  const shaped = isShapedObject(object);
+  const outline = getLocalOutline(object);
+  const centre = { x: x / 2, y: y / 2 };
+
+  // Base matches the XY footprint
+  const baseGeometry = shaped
+    ? extrudeOutline(outline, BASE_HEIGHT, centre)
+    : new THREE.BoxGeometry(x, y, BASE_HEIGHT);
+  const baseMaterial = new THREE.MeshStandardMaterial({
+    color: object.color,
+    roughness: 0.7,
+    transparent,
+    opacity,
+    emissive,
+    emissiveIntensity,
+  });
+  const base = new THREE.Mesh(baseGeometry, baseMaterial);
+  // Extrusions start at Z = 0, boxes are centred on their position
+  base.position.z = shaped ? 0 : BASE_HEIGHT / 2;
+  group.add(base);
+
+  // Top block takes the remaining height
+  const topWidth = Math.max(x - TOP_INSET, 0.1);
+  const topDepth = Math.max(y - TOP_INSET, 0.1);
+  const topHeight = Math.max(z - BASE_HEIGHT, 0.1);
+
+  const topGeometry = shaped
+    ? extrudeOutline(outline.map(loop => insetOutline(loop, TOP_INSET / 2)), topHeight, centre)
+    : new THREE.BoxGeometry(topWidth, topDepth, topHeight);
+  const topMaterial = new THREE.MeshStandardMaterial({
+    color: object.color,
+    roughness: 0.5,
+    transparent,
+    opacity,
+    emissive,
+    emissiveIntensity,
+  });
+  const top = new THREE.Mesh(topGeometry, topMaterial);
+  top.position.z = shaped ? BASE_HEIGHT : BASE_HEIGHT + topHeight / 2;
+  group.add(top);
+
+  // Clearance is laid out on the unrotated object, so it turns with the model
+  if (options.showClearance && object.clearance && hasClearance(object)) {
+    const { front, back, left, right } = object.clearance;
+    const zone = createHatchedZone(x + left + right, y + front + back, CLEARANCE_COLOR, 0.6 * opacity);
+    zone.position.x = (right - left) / 2;
+    zone.position.y = (back - front) / 2;
+    group.add(zone);
+  }
+
+  return group;
+};
+
+/**
+ * Build a wall as one box per part between its openings, in grid coordinates and
+ * resting on Z = 0; raise it to its level's elevation by moving the returned group.
+ */
+export const createWallModel = (wall: Wall, options: ObjectModelOptions = {}) => {
+  const opacity = options.opacity ?? 1;
+  const material = new THREE.MeshStandardMaterial({
+    color: WALL_COLOR,
+    roughness: 0.8,
+    transparent: opacity < 1,
+    opacity,
+    emissive: options.emissive ?? 0x000000,
+    emissiveIntensity: options.emissive === undefined ? 1 : 0.6,
+  });
+
+  const group = new THREE.Group();
+  group.name = 'Wall';
+  getWallParts(wall).forEach((part) => {
+    const width = part.maxX - part.minX;
+    const depth = part.maxY - part.minY;
+    const mesh = new THREE.Mesh(new THREE.BoxGeometry(width, depth, wall.height), material);
+    mesh.position.set(part.minX + width / 2, part.minY + depth / 2, wall.height / 2);
+    group.add(mesh);
+  });
+
+  return group;
+};
+
+/**
+ * Move a model so that its rotated footprint starts at the given grid position.
+ * Placed positions address the minimum corner of the footprint, while the model
+ * itself rotates about its centre.
+ */
+export const positionObjectModel = (
+  model: THREE.Object3D,
+  object: FactoryObject,
+  position: { x: number; y: number; z: number },
+  rotation: number
+) => {
+  const { width, depth } = getRotatedSize(object.dimensions, rotation);
+  model.position.set(position.x + width / 2, position.y + depth / 2, position.z);
+  model.rotation.set(0, 0, THREE.MathUtils.degToRad(rotation));
+};
+
+// Release the GPU resources held by a model and all of its children, including the
+// textures of hatched zones
+export const disposeObjectModel = (model: THREE.Object3D) => {
+  model.traverse((child) => {
+    if (child instanceof THREE.Mesh) {
+      child.geometry.dispose();
+      const materials: THREE.Material[] = Array.isArray(child.material) ? child.material : [child.material];
+      materials.forEach((material) => {
+        if (material instanceof THREE.MeshBasicMaterial) material.map?.dispose();
+        material.dispose();
+      });
+    }
+  });
+};
@@ -0,0 +1,198 @@
+import { FactoryObject, GridCell } from '../store/designStore';
+import { Footprint, getFootprint, normalizeRotation } from './footprint';
+
+// The parts of a library object that decide the area it covers
+export type ObjectShape = Pick<FactoryObject, 'dimensions' | 'cells'>;
+
+export interface OutlinePoint {
+  x: number;
+  y: number;
+}
+
+interface LocalShape {
+  // Rectangles covering the cells without overlapping, in unrotated object coordinates
+  parts: Footprint[];
+  // Closed boundary loops with the solid on their left: outer loops run counter-clockwise, holes clockwise
+  outline: OutlinePoint[][];
+}
+
+// Cell lists are replaced rather than mutated in the store, so they can key a cache
+const localShapeCache = new WeakMap<GridCell[], LocalShape>();
+
+const cellKey = (x: number, y: number) => `${x},${y}`;
+
+// Merge cells into rectangles: runs along each row, stacked with identical runs in the rows above
+const decomposeCells = (cells: GridCell[]): Footprint[] => {
+  const rows = new Map<number, number[]>();
+  cells.forEach(({ x, y }) => rows.set(y, [...(rows.get(y) ?? []), x]));
+
+  const parts: Footprint[] = [];
+  let open = new Map<string, Footprint>();
+  Array.from(rows.keys()).sort((a, b) => a - b).forEach((y) => {
+    const xs = rows.get(y)!.sort((a, b) => a - b);
+    const next = new Map<string, Footprint>();
+    let start = 0;
+    for (let i = 1; i <= xs.length; i++) {
+      if (i < xs.length && xs[i] === xs[i - 1] + 1) continue;
+      const run = `${xs[start]}:${xs[i - 1] + 1}`;
+      const below = open.get(run);
+      if (below && below.maxY === y) {
+        below.maxY = y + 1;
+        next.set(run, below);
+      } else {
+        const part = { minX: xs[start], minY: y, maxX: xs[i - 1] + 1, maxY: y + 1 };
+        parts.push(part);
+        next.set(run, part);
+      }
+      start = i;
+    }
+    open = next;
+  });
+
+  return parts;
+};
+
+/**
+ * Trace the cell boundaries into closed loops. Every exposed cell side is an edge directed
+ * with the cell on its left; edges are chained preferring left turns, so shapes that only
+ * touch at a corner stay separate loops. Points along straight runs are dropped.
+ */
+const traceOutline = (cells: GridCell[]): OutlinePoint[][] => {
+  const filled = new Set(cells.map(({ x, y }) => cellKey(x, y)));
+  const edges = new Map<string, Array<{ from: OutlinePoint; to: OutlinePoint }>>();
+  const addEdge = (from: OutlinePoint, to: OutlinePoint) => {
+    const key = cellKey(from.x, from.y);
+    edges.set(key, [...(edges.get(key) ?? []), { from, to }]);
+  };
+
+  cells.forEach(({ x, y }) => {
+    if (!filled.has(cellKey(x, y - 1))) addEdge({ x, y }, { x: x + 1, y });
+    if (!filled.has(cellKey(x + 1, y))) addEdge({ x: x + 1, y }, { x: x + 1, y: y + 1 });
+    if (!filled.has(cellKey(x, y + 1))) addEdge({ x: x + 1, y: y + 1 }, { x, y: y + 1 });
+    if (!filled.has(cellKey(x - 1, y))) addEdge({ x, y: y + 1 }, { x, y });
+  });
+
+  // Left turn first, then straight on, then right
+  const turnPreference = (dx: number, dy: number, nx: number, ny: number) => {
+    const cross = dx * ny - dy * nx;
+    return cross > 0 ? 0 : cross === 0 ? 1 : 2;
+  };
+
+  const loops: OutlinePoint[][] = [];
+  edges.forEach((outgoing) => {
+    while (outgoing.length > 0) {
+      const first = outgoing.pop()!;
+      const points: OutlinePoint[] = [first.from];
+      let current = first;
+
+      while (current.to.x !== first.from.x || current.to.y !== first.from.y) {
+        const candidates = edges.get(cellKey(current.to.x, current.to.y))!;
+        const dx = current.to.x - current.from.x;
+        const dy = current.to.y - current.from.y;
+        candidates.sort((a, b) =>
+          turnPreference(dx, dy, a.to.x - a.from.x, a.to.y - a.from.y) -
+          turnPreference(dx, dy, b.to.x - b.from.x, b.to.y - b.from.y)
+        );
+        const next = candidates.shift()!;
+        points.push(next.from);
+        current = next;
+      }
+
+      // Keep only the corners
+      loops.push(points.filter((point, i) => {
+        const previous = points[(i + points.length - 1) % points.length];
+        const following = points[(i + 1) % points.length];
+        return (point.x - previous.x) * (following.y - point.y) !== (point.y - previous.y) * (following.x - point.x);
+      }));
+    }
+  });
+
+  return loops;
+};
+
+const getLocalShape = (shape: ObjectShape): LocalShape => {
+  const { x, y } = shape.dimensions;
+  if (!shape.cells) {
+    return {
+      parts: [{ minX: 0, minY: 0, maxX: x, maxY: y }],
+      outline: [[{ x: 0, y: 0 }, { x, y: 0 }, { x, y }, { x: 0, y }]]
+    };
+  }
+
+  let local = localShapeCache.get(shape.cells);
+  if (!local) {
+    local = { parts: decomposeCells(shape.cells), outline: traceOutline(shape.cells) };
+    localShapeCache.set(shape.cells, local);
+  }
+  return local;
+};
+
+// Map a point of the unrotated object onto the grid, matching how models rotate about their centre
+const transformPoint = (point: OutlinePoint, shape: ObjectShape, position: { x: number; y: number }, rotation: number) => {
+  const { x: width, y: depth } = shape.dimensions;
+  switch (normalizeRotation(rotation)) {
+    case 90: return { x: position.x + depth - point.y, y: position.y + point.x };
+    case 180: return { x: position.x + width - point.x, y: position.y + depth - point.y };
+    case 270: return { x: position.x + point.y, y: position.y + width - point.x };
+    default: return { x: position.x + point.x, y: position.y + point.y };
+  }
+};
+
+// Whether an object covers less than its whole bounding box
+export const isShapedObject = (shape: ObjectShape) => shape.cells !== undefined;
+
+/**
+ * Rectangles covering exactly the grid area of a placed object. Rectangular objects have
+ * a single part equal to `getFootprint`; shaped objects have one per block of cells.
+ */
+export const getShapeParts = (
+  shape: ObjectShape,
+  position: { x: number; y: number },
+  rotation: number
+): Footprint[] => {
+  if (!shape.cells) return [getFootprint(shape.dimensions, position, rotation)];
+
+  return getLocalShape(shape).parts.map((part) => {
+    const a = transformPoint({ x: part.minX, y: part.minY }, shape, position, rotation);
+    const b = transformPoint({ x: part.maxX, y: part.maxY }, shape, position, rotation);
+    return { minX: Math.min(a.x, b.x), minY: Math.min(a.y, b.y), maxX: Math.max(a.x, b.x), maxY: Math.max(a.y, b.y) };
+  });
+};
+
+// Boundary loops of an object, relative to the minimum corner of its unrotated bounding box
+export const getLocalOutline = (shape: ObjectShape) => getLocalShape(shape).outline;
+
+// Boundary loops of a placed object in grid coordinates; rotation keeps their winding
+export const getShapeOutline = (shape: ObjectShape, position: { x: number; y: number }, rotation: number) =>
+  getLocalShape(shape).outline.map(loop => loop.map(point => transformPoint(point, shape, position, rotation)));
+
+/**
+ * Move every edge of an orthogonal loop a distance towards its left, i.e. into the solid.
+ * Each corner moves along the sum of the two edge normals, which is exact for right angles
+ * whether the corner is convex or reflex.
+ */
+export const insetOutline = (loop: OutlinePoint[], distance: number) =>
+  loop.map((point, i) => {
+    const previous = loop[(i + loop.length - 1) % loop.length];
+    const following = loop[(i + 1) % loop.length];
+    const leftNormal = (from: OutlinePoint, to: OutlinePoint) => {
+      const length = Math.hypot(to.x - from.x, to.y - from.y);
+      return { x: -(to.y - from.y) / length, y: (to.x - from.x) / length };
+    };
+    const a = leftNormal(previous, point);
+    const b = leftNormal(point, following);
+    return { x: point.x + (a.x + b.x) * distance, y: point.y + (a.y + b.y) * distance };
+  });
+
+// Twice the signed area of a loop; positive for counter-clockwise loops
+export const getLoopArea = (loop: OutlinePoint[]) =>
+  loop.reduce((area, point, i) => {
+    const next = loop[(i + 1) % loop.length];
+    return area + point.x * next.y - next.x * point.y;
+  }, 0);
+
+// Largest part of a placed object, where its name fits best
+export const getLabelPart = (shape: ObjectShape, position: { x: number; y: number }, rotation: number) =>
+  getShapeParts(shape, position, rotation).reduce((largest, part) =>
+    (part.maxX - part.minX) * (part.maxY - part.minY) > (largest.maxX - largest.minX) * (largest.maxY - largest.minY) ? part : largest
+  );
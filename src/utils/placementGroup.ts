@@ -0,0 +1,88 @@
+import { FactoryObject, PlacedObject } from '../store/designStore';
+import type { GridPosition, PlacementItem } from '../store/placementStore';
+import { getFootprint, getRotatedSize, normalizeRotation } from './footprint';
+
+// An item of a placement session resolved to absolute grid coordinates
+export interface ResolvedPlacement {
+  objectId: string;
+  instanceId?: string;
+  position: GridPosition;
+  rotation: number;
+}
+
+type ObjectsById = Map<string, FactoryObject>;
+
+export const indexObjects = (objectLibrary: FactoryObject[]): ObjectsById =>
+  new Map(objectLibrary.map(obj => [obj.id, obj]));
+
+// Width and depth of the box enclosing every item of a session
+export const getPlacementSize = (items: PlacementItem[], objectsById: ObjectsById) => {
+  let width = 0;
+  let depth = 0;
+
+  items.forEach((item) => {
+    const object = objectsById.get(item.objectId);
+    if (!object) return;
+    const footprint = getFootprint(object.dimensions, item.offset, item.rotation);
+    width = Math.max(width, footprint.maxX);
+    depth = Math.max(depth, footprint.maxY);
+  });
+
+  return { width, depth };
+};
+
+// Absolute positions of the items when the session sits at `position`
+export const resolvePlacementItems = (items: PlacementItem[], position: GridPosition): ResolvedPlacement[] =>
+  items.map(item => ({
+    objectId: item.objectId,
+    instanceId: item.instanceId,
+    position: { x: position.x + item.offset.x, y: position.y + item.offset.y, z: position.z },
+    rotation: item.rotation
+  }));
+
+/**
+ * Build session items from placed objects. The session position is the minimum corner
+ * of their combined footprint and every item keeps its offset from it.
+ */
+export const itemsFromPlacedObjects = (placedObjects: PlacedObject[], objectsById: ObjectsById) => {
+  const placed = placedObjects.filter(obj => objectsById.has(obj.objectId));
+  const minX = Math.min(...placed.map(obj => obj.position.x));
+  const minY = Math.min(...placed.map(obj => obj.position.y));
+  const minZ = Math.min(...placed.map(obj => obj.position.z));
+
+  const items: PlacementItem[] = placed.map(obj => ({
+    objectId: obj.objectId,
+    instanceId: obj.id,
+    offset: { x: obj.position.x - minX, y: obj.position.y - minY },
+    rotation: obj.rotation
+  }));
+
+  return { items, position: { x: minX, y: minY, z: minZ } };
+};
+
+/**
+ * Rotate a session 90 degrees counter-clockwise around its centre. Every footprint is
+ * rotated within the enclosing box, and the returned position shift keeps the box centred
+ * where it was (rounded to whole grid cells).
+ */
+export const rotatePlacementItems = (items: PlacementItem[], objectsById: ObjectsById) => {
+  const { width, depth } = getPlacementSize(items, objectsById);
+
+  const rotated = items.map((item) => {
+    const object = objectsById.get(item.objectId);
+    if (!object) return item;
+
+    // (u, v) maps to (depth - v, u), so the footprint's far Y edge becomes its new min X
+    const size = getRotatedSize(object.dimensions, item.rotation);
+    return {
+      ...item,
+      offset: { x: depth - item.offset.y - size.depth, y: item.offset.x },
+      rotation: normalizeRotation(item.rotation + 90)
+    };
+  });
+
+  return {
+    items: rotated,
+    shift: { x: Math.round((width - depth) / 2), y: Math.round((depth - width) / 2) }
+  };
+};
@@ -0,0 +1,78 @@
+import * as THREE from 'three';
+
+export interface SnapshotResolution {
+  label: string;
+  width: number;
+  height: number;
+}
+
+export const SNAPSHOT_RESOLUTIONS: SnapshotResolution[] = [
+  { label: 'Full HD (1920 x 1080)', width: 1920, height: 1080 },
+  { label: 'QHD (2560 x 1440)', width: 2560, height: 1440 },
+  { label: '4K (3840 x 2160)', width: 3840, height: 2160 },
+  { label: '8K (7680 x 4320)', width: 7680, height: 4320 }
+];
+
+export interface SnapshotOptions {
+  width: number;
+  height: number;
+  transparent: boolean;
+}
+
+/**
+ * Render the scene off-screen through a copy of the view camera and encode it as a PNG.
+ * The copy keeps the camera's vertical extent and widens or narrows it horizontally
+ * for the requested aspect ratio, so the capture is centred on what is on screen.
+ * The capture gets its own renderer with the view renderer's output colour space and
+ * tone mapping: three.js writes linear colour into render targets, so reading one back
+ * would come out darker than the Canvas.
+ */
+export const renderSnapshot = (
+  renderer: THREE.WebGLRenderer,
+  scene: THREE.Scene,
+  camera: THREE.OrthographicCamera,
+  options: SnapshotOptions
+): Promise<Blob> => {
+  // Stay within what the GPU can allocate, keeping the aspect ratio
+  const maxSize = renderer.capabilities.maxTextureSize;
+  const fit = Math.min(1, maxSize / Math.max(options.width, options.height));
+  const width = Math.floor(options.width * fit);
+  const height = Math.floor(options.height * fit);
+  if (fit < 1) {
+    console.warn(`[WARN] Snapshot reduced to ${width}x${height}, the GPU texture limit is ${maxSize}`);
+  }
+
+  const snapshotCamera = camera.clone();
+  const halfWidth = ((camera.top - camera.bottom) / 2) * (width / height);
+  snapshotCamera.left = -halfWidth;
+  snapshotCamera.right = halfWidth;
+  snapshotCamera.updateProjectionMatrix();
+
+  // The drawing buffer is kept after rendering so the canvas can be encoded afterwards
+  const snapshotRenderer = new THREE.WebGLRenderer({ antialias: true, alpha: true, preserveDrawingBuffer: true });
+  snapshotRenderer.outputColorSpace = renderer.outputColorSpace;
+  snapshotRenderer.toneMapping = renderer.toneMapping;
+  snapshotRenderer.toneMappingExposure = renderer.toneMappingExposure;
+  snapshotRenderer.setPixelRatio(1);
+  snapshotRenderer.setSize(width, height, false);
+  snapshotRenderer.setClearColor(renderer.getClearColor(new THREE.Color()), renderer.getClearAlpha());
+  const previousBackground = scene.background;
+
+  try {
+    if (options.transparent) {
+      scene.background = null;
+      snapshotRenderer.setClearColor(0x000000, 0);
+    }
+    snapshotRenderer.render(scene, snapshotCamera);
+  } finally {
+    scene.background = previousBackground;
+  }
+
+  const release = () => {
+    snapshotRenderer.dispose();
+    snapshotRenderer.forceContextLoss();
+  };
+  return new Promise<Blob>((resolve, reject) => {
+    snapshotRenderer.domElement.toBlob(blob => (blob ? resolve(blob) : reject(new Error('PNG encoding failed'))), 'image/png');
+  }).finally(release);
+};
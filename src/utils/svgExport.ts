@@ -0,0 +1,221 @@
+import { FactoryObject, FloorPlan } from '../store/designStore';
+import { CLEARANCE_COLOR, KEEP_OUT_COLOR, getClearanceZone, getKeepOutArea } from './clearance';
+import { AISLE_COLOR, EXIT_COLOR, getAisleArea } from './egress';
+import { Footprint, GRID_SIZE, getFootprint } from './footprint';
+import { getLevelPlan } from './levels';
+import { getLabelPart, getShapeOutline } from './objectShape';
+import { getWallParts } from './walls';
+
+// Grid intervals the drawing may use, matching the Canvas coordinate label steps
+const GRID_INTERVALS = [1, 5, 10, 20, 50, 100, 250, 500, 1000];
+// Aim for roughly this many grid lines across the drawing
+const TARGET_GRID_LINES = 12;
+// Size of the longest side of the drawing area in SVG pixels
+const DRAWING_SIZE = 1200;
+
+const escapeXml = (text: string) =>
+  text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+
+// Keep coordinates short; two decimals are far below what a drawing can show
+const round = (value: number) => Math.round(value * 100) / 100;
+
+// 1, 2 or 5 times a power of ten, no larger than `value`
+const niceLength = (value: number) => {
+  const power = Math.pow(10, Math.floor(Math.log10(Math.max(value, 1))));
+  const step = [5, 2, 1].find(multiple => multiple * power <= value) ?? 1;
+  return step * power;
+};
+
+// Combined extent of the drawn footprints, expanded to whole grid intervals
+const getDrawingBounds = (footprints: Footprint[]) => {
+  if (footprints.length === 0) {
+    const empty = { minX: 0, minY: 0, maxX: 100, maxY: 100 };
+    return { bounds: empty, extent: empty, interval: 10 };
+  }
+
+  // Gathered in a loop: plans with long underlays have too many parts to spread into Math.min
+  const extent = { minX: Infinity, minY: Infinity, maxX: -Infinity, maxY: -Infinity };
+  footprints.forEach((f) => {
+    extent.minX = Math.min(extent.minX, f.minX);
+    extent.minY = Math.min(extent.minY, f.minY);
+    extent.maxX = Math.max(extent.maxX, f.maxX);
+    extent.maxY = Math.max(extent.maxY, f.maxY);
+  });
+  const size = Math.max(extent.maxX - extent.minX, extent.maxY - extent.minY);
+  const interval = GRID_INTERVALS.find(step => size / step <= TARGET_GRID_LINES) ?? GRID_INTERVALS[GRID_INTERVALS.length - 1];
+
+  return {
+    bounds: {
+      minX: Math.max(0, Math.floor(extent.minX / interval) * interval),
+      minY: Math.max(0, Math.floor(extent.minY / interval) * interval),
+      maxX: Math.min(GRID_SIZE, Math.ceil(extent.maxX / interval) * interval),
+      maxY: Math.min(GRID_SIZE, Math.ceil(extent.maxY / interval) * interval)
+    },
+    extent,
+    interval
+  };
+};
+
+/**
+ * Build a top-down SVG drawing of one level of a floor plan: grid with coordinate references, object
+ * outlines in their colors with names, hatched clearance and keep-out zones, exits and
+ * aisles, overall dimensions of the layout and a scale bar.
+ * The drawing is generated from store data so it stays crisp at any size. Grid Y grows
+ * upwards like the Canvas birds-eye view, so it is flipped into SVG's downward Y.
+ * Levels are drawn one at a time so upper floors don't cover the ones below.
+ */
+export const buildFloorPlanSvg = (fullPlan: FloorPlan, objectLibrary: FactoryObject[], levelId: string) => {
+  const floorPlan = getLevelPlan(fullPlan, levelId);
+  const level = floorPlan.levels[0];
+  const title = fullPlan.levels.length > 1 && level ? `${fullPlan.name} - ${level.name}` : fullPlan.name;
+  const objectsById = new Map(objectLibrary.map(obj => [obj.id, obj]));
+  const placed = floorPlan.objects.flatMap((placement) => {
+    const object = objectsById.get(placement.objectId);
+    return object ? [{ placement, object, footprint: getFootprint(object.dimensions, placement.position, placement.rotation) }] : [];
+  });
+
+  // Underlay segments count towards the drawing area like footprints do
+  const underlay = floorPlan.underlay ?? [];
+  const underlayExtents = underlay.map(segment => ({
+    minX: Math.min(segment.x1, segment.x2),
+    minY: Math.min(segment.y1, segment.y2),
+    maxX: Math.max(segment.x1, segment.x2),
+    maxY: Math.max(segment.y1, segment.y2)
+  }));
+  const wallParts = (floorPlan.walls ?? []).flatMap(getWallParts);
+  const clearanceZones = placed.flatMap(({ placement, object }) => getClearanceZone(object, placement.position, placement.rotation) ?? []);
+  const keepOutAreas = (floorPlan.keepOutZones ?? []).map(getKeepOutArea);
+  const exitAreas = (floorPlan.exits ?? []).map(getKeepOutArea);
+  const aisleAreas = (floorPlan.aisles ?? []).map(getAisleArea);
+  const { bounds, extent, interval } = getDrawingBounds([
+    ...placed.map(p => p.footprint), ...wallParts, ...clearanceZones, ...keepOutAreas, ...exitAreas, ...aisleAreas, ...underlayExtents
+  ]);
+  const width = bounds.maxX - bounds.minX;
+  const depth = bounds.maxY - bounds.minY;
+  const scale = DRAWING_SIZE / Math.max(width, depth);
+  const margin = 90;
+  const svgWidth = round(width * scale + margin * 2);
+  const svgHeight = round(depth * scale + margin * 2 + 40);
+
+  // Grid coordinates to SVG pixels
+  const toX = (x: number) => round(margin + (x - bounds.minX) * scale);
+  const toY = (y: number) => round(margin + (bounds.maxY - y) * scale);
+
+  const toRect = (area: Footprint) =>
+    `<rect x="${toX(area.minX)}" y="${toY(area.maxY)}" width="${round((area.maxX - area.minX) * scale)}" height="${round((area.maxY - area.minY) * scale)}"/>`;
+
+  const parts: string[] = [];
+  // Diagonal hatching for clearance and keep-out zones
+  const hatch = (id: string, color: string) => [
+    `<pattern id="${id}" width="8" height="8" patternUnits="userSpaceOnUse" patternTransform="rotate(45)">`,
+    `<line x1="0" y1="0" x2="0" y2="8" stroke="${color}" stroke-width="2"/>`,
+    '</pattern>'
+  ].join('');
+  parts.push(`<defs>${hatch('clearance-hatch', CLEARANCE_COLOR)}${hatch('keep-out-hatch', KEEP_OUT_COLOR)}</defs>`);
+  parts.push(`<rect x="0" y="0" width="${svgWidth}" height="${svgHeight}" fill="#ffffff"/>`);
+  parts.push(`<text x="${margin}" y="30" font-size="20" font-weight="bold">${escapeXml(title)}</text>`);
+
+  // Grid lines with coordinate references along the bottom and left edges
+  const grid: string[] = [];
+  for (let x = bounds.minX; x <= bounds.maxX; x += interval) {
+    grid.push(`<line x1="${toX(x)}" y1="${toY(bounds.minY)}" x2="${toX(x)}" y2="${toY(bounds.maxY)}"/>`);
+    parts.push(`<text x="${toX(x)}" y="${toY(bounds.minY) + 18}" font-size="11" text-anchor="middle" fill="#666666">${x}</text>`);
+  }
+  for (let y = bounds.minY; y <= bounds.maxY; y += interval) {
+    grid.push(`<line x1="${toX(bounds.minX)}" y1="${toY(y)}" x2="${toX(bounds.maxX)}" y2="${toY(y)}"/>`);
+    parts.push(`<text x="${toX(bounds.minX) - 8}" y="${toY(y) + 4}" font-size="11" text-anchor="end" fill="#666666">${y}</text>`);
+  }
+  parts.push(`<g id="grid" stroke="#d3d3d3" stroke-width="1">${grid.join('')}</g>`);
+
+  // Reference lines under the objects
+  if (underlay.length > 0) {
+    const lines = underlay.map(segment =>
+      `<line x1="${toX(segment.x1)}" y1="${toY(segment.y1)}" x2="${toX(segment.x2)}" y2="${toY(segment.y2)}"/>`
+    );
+    parts.push(`<g id="underlay" stroke="#888888" stroke-width="1.5">${lines.join('')}</g>`);
+  }
+
+  // Aisles and exits, tinted under everything else on the floor
+  if (aisleAreas.length > 0) {
+    parts.push(`<g id="aisles" fill="${AISLE_COLOR}" fill-opacity="0.2" stroke="${AISLE_COLOR}" stroke-width="1" stroke-dasharray="6 3">${aisleAreas.map(toRect).join('')}</g>`);
+  }
+  if (exitAreas.length > 0) {
+    parts.push(`<g id="exits" fill="${EXIT_COLOR}" fill-opacity="0.4" stroke="${EXIT_COLOR}" stroke-width="1.5">${exitAreas.map(toRect).join('')}</g>`);
+  }
+
+  // Keep-out zones and the clearance around objects, hatched under everything solid
+  if (keepOutAreas.length > 0) {
+    parts.push(`<g id="keep-out-zones" fill="url(#keep-out-hatch)" stroke="${KEEP_OUT_COLOR}" stroke-width="1">${keepOutAreas.map(toRect).join('')}</g>`);
+  }
+  if (clearanceZones.length > 0) {
+    parts.push(`<g id="clearance" fill="url(#clearance-hatch)" stroke="${CLEARANCE_COLOR}" stroke-width="1" stroke-dasharray="4 2">${clearanceZones.map(toRect).join('')}</g>`);
+  }
+
+  // Walls as solid bands, with their openings left as gaps
+  if (wallParts.length > 0) {
+    parts.push(`<g id="walls" fill="#555555">${wallParts.map(toRect).join('')}</g>`);
+  }
+
+  // Object outlines, filled with their library color and labelled with their name inside
+  // their largest part; holes in shaped objects are cut out by the even-odd fill rule
+  const objects = placed.map(({ placement, object }) => {
+    const path = getShapeOutline(object, placement.position, placement.rotation)
+      .map(loop => `M${loop.map(point => `${toX(point.x)} ${toY(point.y)}`).join(' L')} Z`)
+      .join(' ');
+    const label = getLabelPart(object, placement.position, placement.rotation);
+    const x = toX(label.minX);
+    const y = toY(label.maxY);
+    const w = round((label.maxX - label.minX) * scale);
+    const h = round((label.maxY - label.minY) * scale);
+    const name = placement.metadata?.label ? `${object.name} (${placement.metadata.label})` : object.name;
+    const fontSize = Math.max(4, Math.min(12, w / (name.length * 0.6), h * 0.6));
+
+    return [
+      `<g id="${escapeXml(placement.id)}">`,
+      `<path d="${path}" fill="${object.color}" fill-opacity="0.6" fill-rule="evenodd" stroke="#333333" stroke-width="1"/>`,
+      `<text x="${round(x + w / 2)}" y="${round(y + h / 2)}" font-size="${fontSize.toFixed(1)}" text-anchor="middle" dominant-baseline="middle">${escapeXml(name)}</text>`,
+      '</g>'
+    ].join('');
+  });
+  parts.push(`<g id="objects">${objects.join('')}</g>`);
+
+  // Overall dimensions of the layout above and to the right of the drawing area
+  const dimensionTop = toY(bounds.maxY) - 24;
+  const dimensionRight = toX(bounds.maxX) + 24;
+  parts.push([
+    '<g id="dimensions" stroke="#000000" stroke-width="1">',
+    `<line x1="${toX(extent.minX)}" y1="${dimensionTop}" x2="${toX(extent.maxX)}" y2="${dimensionTop}"/>`,
+    `<line x1="${toX(extent.minX)}" y1="${dimensionTop - 6}" x2="${toX(extent.minX)}" y2="${dimensionTop + 6}"/>`,
+    `<line x1="${toX(extent.maxX)}" y1="${dimensionTop - 6}" x2="${toX(extent.maxX)}" y2="${dimensionTop + 6}"/>`,
+    `<line x1="${dimensionRight}" y1="${toY(extent.minY)}" x2="${dimensionRight}" y2="${toY(extent.maxY)}"/>`,
+    `<line x1="${dimensionRight - 6}" y1="${toY(extent.minY)}" x2="${dimensionRight + 6}" y2="${toY(extent.minY)}"/>`,
+    `<line x1="${dimensionRight - 6}" y1="${toY(extent.maxY)}" x2="${dimensionRight + 6}" y2="${toY(extent.maxY)}"/>`,
+    '</g>'
+  ].join(''));
+  const widthLabelX = round((toX(extent.minX) + toX(extent.maxX)) / 2);
+  parts.push(`<text x="${widthLabelX}" y="${dimensionTop - 6}" font-size="12" text-anchor="middle">${extent.maxX - extent.minX} units</text>`);
+  const depthLabelY = round((toY(extent.minY) + toY(extent.maxY)) / 2);
+  parts.push(`<text x="${dimensionRight + 16}" y="${depthLabelY}" font-size="12" text-anchor="middle" transform="rotate(90 ${dimensionRight + 16} ${depthLabelY})">${extent.maxY - extent.minY} units</text>`);
+
+  // Scale bar below the grid references, split into five alternating segments
+  const barLength = niceLength(Math.min(width, Math.max(width, depth) / 4));
+  const barTop = toY(bounds.minY) + 40;
+  const segment = round((barLength / 5) * scale);
+  const segments = [0, 1, 2, 3, 4].map(i =>
+    `<rect x="${round(margin + i * segment)}" y="${barTop}" width="${segment}" height="6" fill="${i % 2 === 0 ? '#000000' : '#ffffff'}" stroke="#000000" stroke-width="1"/>`
+  );
+  parts.push(`<g id="scale-bar">${segments.join('')}</g>`);
+  parts.push(`<text x="${margin}" y="${barTop + 22}" font-size="11" text-anchor="middle">0</text>`);
+  parts.push(`<text x="${round(margin + barLength * scale)}" y="${barTop + 22}" font-size="11" text-anchor="middle">${barLength} units</text>`);
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${svgWidth}" height="${svgHeight}" viewBox="0 0 ${svgWidth} ${svgHeight}" font-family="Arial, sans-serif">`,
+    ...parts,
+    '</svg>'
+  ].join('\n');
+};
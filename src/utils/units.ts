@@ -0,0 +1,36 @@
+// Units measurements are shown in. Grid units are shown as they are; real-world units are
+// converted through the length of one grid unit, which depends on how the plan was drawn.
+export type LengthUnit = 'grid' | 'm' | 'cm' | 'mm' | 'ft' | 'in';
+
+export interface UnitSettings {
+  unit: LengthUnit;
+  // Length of one grid unit in metres
+  gridUnitLength: number;
+}
+
+export const LENGTH_UNITS: Record<LengthUnit, { label: string; symbol: string; metres: number }> = {
+  grid: { label: 'Grid units', symbol: 'units', metres: 1 },
+  m: { label: 'Metres', symbol: 'm', metres: 1 },
+  cm: { label: 'Centimetres', symbol: 'cm', metres: 0.01 },
+  mm: { label: 'Millimetres', symbol: 'mm', metres: 0.001 },
+  ft: { label: 'Feet', symbol: 'ft', metres: 0.3048 },
+  in: { label: 'Inches', symbol: 'in', metres: 0.0254 }
+};
+
+export const DEFAULT_UNIT_SETTINGS: UnitSettings = { unit: 'grid', gridUnitLength: 1 };
+
+// Up to two decimals, without trailing zeros
+const formatNumber = (value: number) =>
+  value.toLocaleString(undefined, { maximumFractionDigits: 2 });
+
+// Real-world length of a grid unit in the chosen unit; 1 when showing grid units
+const unitsPerGridUnit = ({ unit, gridUnitLength }: UnitSettings) =>
+  unit === 'grid' ? 1 : gridUnitLength / LENGTH_UNITS[unit].metres;
+
+export const formatLength = (gridLength: number, settings: UnitSettings) =>
+  `${formatNumber(gridLength * unitsPerGridUnit(settings))} ${LENGTH_UNITS[settings.unit].symbol}`;
+
+export const formatArea = (gridArea: number, settings: UnitSettings) => {
+  const value = formatNumber(gridArea * unitsPerGridUnit(settings) ** 2);
+  return settings.unit === 'grid' ? `${value} sq units` : `${value} ${LENGTH_UNITS[settings.unit].symbol}²`;
+};
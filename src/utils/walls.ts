@@ -0,0 +1,89 @@
+import { GridCell, Wall, WallOpening } from '../store/designStore';
+import { Footprint } from './footprint';
+
+// Wall runs drawn with the wall tool start out as thin, full-height partitions
+export const DEFAULT_WALL_THICKNESS = 1;
+export const DEFAULT_WALL_HEIGHT = 10;
+export const MAX_WALL_THICKNESS = 20;
+// Same as the tallest library object from the PRD
+export const MAX_WALL_HEIGHT = 100;
+export const WALL_COLOR = '#9b9b9b';
+
+type WallGeometry = Pick<Wall, 'start' | 'end' | 'thickness'>;
+
+// Runs of a single cell count as running along X
+export const isHorizontalWall = ({ start, end }: Pick<Wall, 'start' | 'end'>) => start.y === end.y;
+
+// Keep a dragged run orthogonal by moving its end onto the row or column of the start,
+// whichever the pointer is further along
+export const straightenWallEnd = (start: GridCell, pointer: GridCell): GridCell =>
+  Math.abs(pointer.x - start.x) >= Math.abs(pointer.y - start.y)
+    ? { x: pointer.x, y: start.y }
+    : { x: start.x, y: pointer.y };
+
+/**
+ * Rectangle covered by a wall run. The centre line joins the centres of the end cells and
+ * is widened by half the thickness on every side, including past both ends, so runs that
+ * meet at a cell overlap in a solid square corner whichever way they turn.
+ */
+export const getWallRun = ({ start, end, thickness }: WallGeometry): Footprint => {
+  const half = thickness / 2;
+  return {
+    minX: Math.min(start.x, end.x) + 0.5 - half,
+    minY: Math.min(start.y, end.y) + 0.5 - half,
+    maxX: Math.max(start.x, end.x) + 0.5 + half,
+    maxY: Math.max(start.y, end.y) + 0.5 + half
+  };
+};
+
+// End to end length of a run in grid units; opening offsets are measured along it
+export const getWallLength = (wall: WallGeometry) => {
+  const run = getWallRun(wall);
+  return isHorizontalWall(wall) ? run.maxX - run.minX : run.maxY - run.minY;
+};
+
+// Footprint parts of a wall: its run with every opening cut out across the full thickness
+export const getWallParts = (wall: WallGeometry & Pick<Wall, 'openings'>): Footprint[] => {
+  const run = getWallRun(wall);
+  const horizontal = isHorizontalWall(wall);
+  const from = horizontal ? run.minX : run.minY;
+  const to = horizontal ? run.maxX : run.maxY;
+
+  const parts: Footprint[] = [];
+  const addSegment = (a: number, b: number) => {
+    if (b <= a) return;
+    parts.push(horizontal ? { ...run, minX: a, maxX: b } : { ...run, minY: a, maxY: b });
+  };
+
+  let cursor = from;
+  [...wall.openings].sort((a, b) => a.offset - b.offset).forEach((opening) => {
+    addSegment(cursor, from + opening.offset);
+    cursor = Math.max(cursor, from + opening.offset + opening.width);
+  });
+  addSegment(cursor, to);
+
+  return parts;
+};
+
+/**
+ * Why an opening can't be cut into a wall, or null if it fits. Openings need whole
+ * numbers, must lie within the run and can't overlap the wall's other openings; the
+ * opening itself is skipped when it is being edited.
+ */
+export const checkWallOpening = (
+  wall: WallGeometry & Pick<Wall, 'openings'>,
+  opening: Omit<WallOpening, 'id'>,
+  editedId?: string
+): string | null => {
+  const { offset, width } = opening;
+  if (!Number.isInteger(offset) || !Number.isInteger(width) || offset < 0 || width < 1) {
+    return 'must have a whole offset of at least 0 and width of at least 1';
+  }
+  if (offset + width > getWallLength(wall)) {
+    return `must fit inside the wall, which is ${getWallLength(wall)} long`;
+  }
+  const overlaps = wall.openings.some(other =>
+    other.id !== editedId && offset < other.offset + other.width && other.offset < offset + width
+  );
+  return overlaps ? 'overlaps another opening' : null;
+};